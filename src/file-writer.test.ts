@@ -0,0 +1,177 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ProjectFileWriter, createUnifiedDiff } from './file-writer.js';
+
+describe('ProjectFileWriter', () => {
+  let projectPath: string;
+  let writer: ProjectFileWriter;
+  const file = (relativePath: string) => path.join(projectPath, relativePath);
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-mcp-'));
+    writer = new ProjectFileWriter(projectPath);
+    await fs.outputFile(file('scripts/player.gd'), 'extends Node\n\nvar speed = 1\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('stages writes in a dry run and returns them as a diff', async () => {
+    writer.begin(true);
+    await writer.writeFile(file('scripts/player.gd'), 'extends Node\n\nvar speed = 2\n');
+    await writer.writeFile(file('scripts/enemy.gd'), 'extends Node\n');
+
+    // Later reads in the same call see the staged contents
+    expect(await writer.readFile(file('scripts/player.gd'))).toBe('extends Node\n\nvar speed = 2\n');
+    expect(await writer.pathExists(file('scripts/enemy.gd'))).toBe(true);
+    expect(writer.isDryRun()).toBe(true);
+
+    const response = await writer.finish('set_value', { success: true, data: { updated: true } });
+
+    expect(response.data).toEqual({
+      updated: true,
+      dryRun: true,
+      diff: [
+        '--- a/scripts/player.gd',
+        '+++ b/scripts/player.gd',
+        '@@ -1,3 +1,3 @@',
+        ' extends Node',
+        ' ',
+        '-var speed = 1',
+        '+var speed = 2',
+        '--- /dev/null',
+        '+++ b/scripts/enemy.gd',
+        '@@ -0,0 +1,1 @@',
+        '+extends Node',
+        '',
+      ].join('\n'),
+    });
+    expect(await fs.readFile(file('scripts/player.gd'), 'utf-8')).toBe('extends Node\n\nvar speed = 1\n');
+    expect(await fs.pathExists(file('scripts/enemy.gd'))).toBe(false);
+    expect(await writer.pathExists(file('scripts/enemy.gd'))).toBe(false);
+    expect(await fs.pathExists(file('.godot-mcp'))).toBe(false);
+  });
+
+  it('undoes the last journaled call', async () => {
+    writer.begin();
+    await writer.writeFile(file('scripts/player.gd'), 'extends Node\n\nvar speed = 2\n');
+    await writer.writeFile(file('scripts/enemy.gd'), 'extends Node\n');
+    await writer.finish('generate_script_template', { success: true, data: {} });
+
+    expect(await fs.readFile(file('scripts/player.gd'), 'utf-8')).toBe('extends Node\n\nvar speed = 2\n');
+
+    const preview = await writer.undoLastChange({ dryRun: true });
+    expect(preview.data.undone).toMatchObject({
+      tool: 'generate_script_template',
+      files: ['res://scripts/player.gd', 'res://scripts/enemy.gd'],
+    });
+    expect(preview.data.diff).toContain('-var speed = 2\n+var speed = 1\n');
+    expect(await fs.pathExists(file('scripts/enemy.gd'))).toBe(true);
+
+    const response = await writer.undoLastChange();
+    expect(response.success).toBe(true);
+    expect(response.data.remaining).toBe(0);
+    expect(await fs.readFile(file('scripts/player.gd'), 'utf-8')).toBe('extends Node\n\nvar speed = 1\n');
+    expect(await fs.pathExists(file('scripts/enemy.gd'))).toBe(false);
+
+    expect(await writer.undoLastChange()).toEqual({ success: false, error: 'No recorded changes to undo' });
+  });
+
+  it('undoes moves, including files written before the move', async () => {
+    writer.begin();
+    await writer.writeFile(file('scripts/player.gd'), 'extends Node2D\n');
+    await writer.move(file('scripts'), file('game/actors'));
+    await writer.finish('move_resource', { success: true, data: {} });
+
+    expect(await fs.readFile(file('game/actors/player.gd'), 'utf-8')).toBe('extends Node2D\n');
+
+    expect((await writer.undoLastChange()).success).toBe(true);
+    expect(await fs.pathExists(file('game'))).toBe(false);
+    expect(await fs.readFile(file('scripts/player.gd'), 'utf-8')).toBe('extends Node\n\nvar speed = 1\n');
+  });
+
+  it('refuses to undo over later edits unless forced', async () => {
+    writer.begin();
+    await writer.writeFile(file('scripts/player.gd'), 'extends Node\n\nvar speed = 2\n');
+    await writer.finish('rename_symbol', { success: true, data: {} });
+    await fs.outputFile(file('scripts/player.gd'), 'extends Node\n\nvar speed = 3\n');
+
+    expect(await writer.undoLastChange()).toEqual({
+      success: false,
+      error: 'Files changed after rename_symbol ran: res://scripts/player.gd (use force to undo anyway)',
+    });
+
+    expect((await writer.undoLastChange({ force: true })).success).toBe(true);
+    expect(await fs.readFile(file('scripts/player.gd'), 'utf-8')).toBe('extends Node\n\nvar speed = 1\n');
+  });
+
+  it('rolls back a call that fails or throws after writing', async () => {
+    writer.begin();
+    await writer.writeFile(file('scripts/player.gd'), 'broken\n');
+    const response = await writer.finish('add_node', { success: false, error: 'Parent not found' });
+
+    expect(response).toEqual({ success: false, error: 'Parent not found' });
+    expect(await fs.readFile(file('scripts/player.gd'), 'utf-8')).toBe('extends Node\n\nvar speed = 1\n');
+
+    writer.begin();
+    await writer.writeFile(file('scripts/enemy.gd'), 'extends Node\n');
+    await writer.abort();
+
+    expect(await fs.pathExists(file('scripts/enemy.gd'))).toBe(false);
+    expect((await writer.undoLastChange()).success).toBe(false);
+  });
+
+  it('refuses to write or move files outside the project', async () => {
+    writer.begin();
+    await writer.writeFile(file('scripts/enemy.gd'), 'extends Node\n');
+    await expect(writer.writeFile(file('../escape.gd'), 'extends Node\n'))
+      .rejects.toThrow(`Path must be inside the project: ${file('../escape.gd')}`);
+    await expect(writer.move(file('scripts'), path.dirname(projectPath))).rejects.toThrow('Path must be inside the project');
+    await expect(writer.writeFile(projectPath, '')).rejects.toThrow('Path must be inside the project');
+    await writer.abort();
+
+    expect(await fs.pathExists(path.join(projectPath, '..', 'escape.gd'))).toBe(false);
+    expect(await fs.pathExists(file('scripts/enemy.gd'))).toBe(false);
+    expect(await fs.readFile(file('scripts/player.gd'), 'utf-8')).toBe('extends Node\n\nvar speed = 1\n');
+  });
+
+  it('writes straight to disk outside of a call', async () => {
+    await writer.writeFile(file('scripts/enemy.gd'), 'extends Node\n');
+
+    expect(await fs.readFile(file('scripts/enemy.gd'), 'utf-8')).toBe('extends Node\n');
+    expect(await fs.pathExists(file('.godot-mcp'))).toBe(false);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('keeps three lines of context and splits distant changes into hunks', () => {
+    const before = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+    const after = before.replace('line 2\n', 'line two\n').replace('line 11\n', '');
+
+    expect(createUnifiedDiff('a/file.txt', 'b/file.txt', before, after)).toBe([
+      '--- a/file.txt',
+      '+++ b/file.txt',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -8,5 +8,4 @@',
+      ' line 8',
+      ' line 9',
+      ' line 10',
+      '-line 11',
+      ' line 12',
+      '',
+    ].join('\n'));
+  });
+
+  it('marks a missing newline at the end of the file', () => {
+    expect(createUnifiedDiff('a/f', 'b/f', 'a\n', 'a\nb')).toBe('--- a/f\n+++ b/f\n@@ -1,1 +1,2 @@\n a\n+b\n\\ No newline at end of file\n');
+    expect(createUnifiedDiff('a/f', 'b/f', 'same\n', 'same\n')).toBe('');
+  });
+});
@@ -0,0 +1,443 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { McpToolResponse } from './types/index.js';
+
+/**
+ * The single write path for tools that change project files.
+ *
+ * The server wraps each mutating tool call in begin()/finish() and runs all tool calls one at a
+ * time, since the current call's operations and staged files live on the writer. In a dry run
+ * writes and moves are staged in memory and returned as a unified diff; otherwise they are
+ * applied and recorded in a journal under .godot-mcp/ so undoLastChange() can restore the
+ * previous contents. A call that fails after writing some files is rolled back. Outside of a
+ * call writes go straight to disk. Paths outside the project are refused either way.
+ */
+
+type FileOperation =
+  | { type: 'write'; path: string; before: string | null; after: string | null }
+  | { type: 'move'; from: string; to: string };
+
+interface JournalEntry {
+  id: string;
+  tool: string;
+  timestamp: string;
+  operations: JournalOperation[];
+}
+
+type JournalOperation =
+  | { type: 'write'; path: string; before: string | null; afterHash: string }
+  | { type: 'move'; from: string; to: string };
+
+const JOURNAL_DIR = path.join('.godot-mcp', 'journal');
+const JOURNAL_LIMIT = 50;
+const DIFF_CONTEXT = 3;
+
+export class ProjectFileWriter {
+  private operations: FileOperation[] | undefined;
+  private dryRun = false;
+  // Contents of staged files, so reads later in the same dry run see earlier writes
+  private staged = new Map<string, string>();
+
+  constructor(private projectPath: string) {}
+
+  begin(dryRun: boolean = false): void {
+    this.operations = [];
+    this.dryRun = dryRun;
+    this.staged.clear();
+  }
+
+  async finish(tool: string, response: McpToolResponse): Promise<McpToolResponse> {
+    const operations = this.operations || [];
+    this.operations = undefined;
+
+    if (this.dryRun) {
+      const diff = this.formatDiff(operations);
+      this.staged.clear();
+      if (!response.success) return response;
+      return {
+        ...response,
+        data: {
+          ...response.data,
+          dryRun: true,
+          diff,
+        },
+      };
+    }
+
+    if (!response.success) {
+      await this.revert(operations);
+      return response;
+    }
+
+    if (operations.length > 0) {
+      await this.record(tool, operations);
+    }
+    return response;
+  }
+
+  async abort(): Promise<void> {
+    const operations = this.operations || [];
+    this.operations = undefined;
+    this.staged.clear();
+    if (!this.dryRun) {
+      await this.revert(operations);
+    }
+  }
+
+  isDryRun(): boolean {
+    return this.operations !== undefined && this.dryRun;
+  }
+
+  async readFile(fullPath: string): Promise<string> {
+    const staged = this.staged.get(path.resolve(fullPath));
+    return staged !== undefined ? staged : fs.readFile(fullPath, 'utf-8');
+  }
+
+  async pathExists(fullPath: string): Promise<boolean> {
+    return this.staged.has(path.resolve(fullPath)) || fs.pathExists(fullPath);
+  }
+
+  async writeFile(fullPath: string, content: string): Promise<void> {
+    const resolved = this.checkInsideProject(fullPath);
+    if (this.operations) {
+      const before = await this.pathExists(resolved) ? await this.readFile(resolved) : null;
+      this.operations.push({ type: 'write', path: resolved, before, after: content });
+    }
+
+    if (this.isDryRun()) {
+      this.staged.set(resolved, content);
+    } else {
+      await fs.outputFile(resolved, content, 'utf-8');
+    }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const from = this.checkInsideProject(fromPath);
+    const to = this.checkInsideProject(toPath);
+    this.operations?.push({ type: 'move', from, to });
+
+    if (this.isDryRun()) {
+      const content = this.staged.get(from);
+      if (content !== undefined) {
+        this.staged.delete(from);
+        this.staged.set(to, content);
+      }
+    } else {
+      await fs.move(from, to);
+    }
+  }
+
+  async undoLastChange(options: { dryRun?: boolean; force?: boolean } = {}): Promise<McpToolResponse> {
+    try {
+      const journalDir = path.join(this.projectPath, JOURNAL_DIR);
+      const ids = await this.listJournal();
+      if (ids.length === 0) {
+        return {
+          success: false,
+          error: 'No recorded changes to undo',
+        };
+      }
+
+      const entryFile = path.join(journalDir, `${ids[ids.length - 1]}.json`);
+      const entry: JournalEntry = await fs.readJson(entryFile);
+
+      // Files edited since the change would lose those edits
+      const conflicts: string[] = [];
+      const inverse: FileOperation[] = [];
+      const laterMoves: { from: string; to: string }[] = [];
+      for (const operation of [...entry.operations].reverse()) {
+        if (operation.type === 'write') {
+          const fullPath = this.toFull(operation.path);
+          // A file written and then moved by the same call is now at its new location
+          const currentPath = laterMoves.reduceRight((file, move) => this.movedPath(file, move), fullPath);
+          const current = await fs.pathExists(currentPath) ? await fs.readFile(currentPath, 'utf-8') : null;
+          if (current === null || this.hash(current) !== operation.afterHash) {
+            conflicts.push(`res://${operation.path}`);
+          }
+          inverse.push({ type: 'write', path: fullPath, before: current, after: operation.before });
+        } else {
+          if (!await fs.pathExists(this.toFull(operation.to)) || await fs.pathExists(this.toFull(operation.from))) {
+            conflicts.push(`res://${operation.to}`);
+          }
+          inverse.push({ type: 'move', from: this.toFull(operation.to), to: this.toFull(operation.from) });
+          laterMoves.push({ from: this.toFull(operation.from), to: this.toFull(operation.to) });
+        }
+      }
+
+      if (conflicts.length > 0 && !options.force) {
+        return {
+          success: false,
+          error: `Files changed after ${entry.tool} ran: ${conflicts.join(', ')} (use force to undo anyway)`,
+        };
+      }
+
+      const undone = {
+        tool: entry.tool,
+        timestamp: entry.timestamp,
+        files: [...new Set(entry.operations.map(operation =>
+          `res://${operation.type === 'write' ? operation.path : operation.to}`
+        ))],
+      };
+
+      if (options.dryRun) {
+        return {
+          success: true,
+          data: {
+            undone,
+            dryRun: true,
+            diff: this.formatDiff(inverse),
+          },
+        };
+      }
+
+      await this.apply(inverse);
+      await fs.remove(entryFile);
+
+      return {
+        success: true,
+        data: {
+          undone,
+          remaining: ids.length - 1,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to undo last change',
+      };
+    }
+  }
+
+  private async revert(operations: FileOperation[]): Promise<void> {
+    await this.apply([...operations].reverse().map(operation =>
+      operation.type === 'move'
+        ? { type: 'move', from: operation.to, to: operation.from }
+        : { type: 'write', path: operation.path, before: operation.after, after: operation.before }
+    ));
+  }
+
+  private async apply(operations: FileOperation[]): Promise<void> {
+    for (const operation of operations) {
+      if (operation.type === 'move') {
+        await fs.move(operation.from, operation.to);
+        await this.removeEmptyParents(operation.from);
+      } else if (operation.after === null) {
+        await fs.remove(operation.path);
+      } else {
+        await fs.outputFile(operation.path, operation.after, 'utf-8');
+      }
+    }
+  }
+
+  private async record(tool: string, operations: FileOperation[]): Promise<void> {
+    const journalDir = path.join(this.projectPath, JOURNAL_DIR);
+    const timestamp = new Date();
+    // Sortable ids: the newest entry is the last one
+    const id = `${timestamp.getTime().toString().padStart(15, '0')}-${crypto.randomBytes(3).toString('hex')}`;
+
+    const entry: JournalEntry = {
+      id,
+      tool,
+      timestamp: timestamp.toISOString(),
+      operations: operations.map(operation =>
+        operation.type === 'move'
+          ? { type: 'move', from: this.toRelative(operation.from), to: this.toRelative(operation.to) }
+          : { type: 'write', path: this.toRelative(operation.path), before: operation.before, afterHash: this.hash(operation.after ?? '') }
+      ),
+    };
+
+    await fs.outputJson(path.join(journalDir, `${id}.json`), entry, { spaces: 2 });
+
+    const ids = await this.listJournal();
+    for (const old of ids.slice(0, Math.max(0, ids.length - JOURNAL_LIMIT))) {
+      await fs.remove(path.join(journalDir, `${old}.json`));
+    }
+  }
+
+  private checkInsideProject(fullPath: string): string {
+    const resolved = path.resolve(fullPath);
+    if (!isInsideProject(this.projectPath, resolved)) {
+      throw new Error(`Path must be inside the project: ${fullPath}`);
+    }
+    return resolved;
+  }
+
+  // Directories that a reverted move created, such as the new parent of a moved directory, are left empty
+  private async removeEmptyParents(fullPath: string): Promise<void> {
+    let directory = path.dirname(fullPath);
+    while (isInsideProject(this.projectPath, directory) && (await fs.readdir(directory)).length === 0) {
+      await fs.remove(directory);
+      directory = path.dirname(directory);
+    }
+  }
+
+  private movedPath(fullPath: string, move: { from: string; to: string }): string {
+    if (fullPath === move.from) return move.to;
+    if (fullPath.startsWith(move.from + path.sep)) return move.to + fullPath.slice(move.from.length);
+    return fullPath;
+  }
+
+  private async listJournal(): Promise<string[]> {
+    const journalDir = path.join(this.projectPath, JOURNAL_DIR);
+    if (!await fs.pathExists(journalDir)) return [];
+
+    const files = await fs.readdir(journalDir);
+    return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)).sort();
+  }
+
+  private formatDiff(operations: FileOperation[]): string {
+    return operations.map(operation => {
+      if (operation.type === 'move') {
+        const from = this.toRelative(operation.from);
+        const to = this.toRelative(operation.to);
+        return `diff --git a/${from} b/${to}\nrename from ${from}\nrename to ${to}\n`;
+      }
+      const file = this.toRelative(operation.path);
+      return createUnifiedDiff(
+        operation.before === null ? '/dev/null' : `a/${file}`,
+        operation.after === null ? '/dev/null' : `b/${file}`,
+        operation.before ?? '',
+        operation.after ?? ''
+      );
+    }).join('');
+  }
+
+  private hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  private toRelative(fullPath: string): string {
+    return path.relative(this.projectPath, fullPath).split(path.sep).join('/');
+  }
+
+  private toFull(relativePath: string): string {
+    return path.join(this.projectPath, relativePath);
+  }
+
+}
+
+/**
+ * Whether a path is a file or directory below the project root (not the root itself).
+ */
+export function isInsideProject(projectPath: string, fullPath: string): boolean {
+  const relative = path.relative(path.resolve(projectPath), path.resolve(fullPath));
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+export function createUnifiedDiff(fromLabel: string, toLabel: string, before: string, after: string): string {
+  if (before === after) return '';
+
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const lines = diffLines(a, b);
+
+  let output = `--- ${fromLabel}\n+++ ${toLabel}\n`;
+  let index = 0;
+
+  while (index < lines.length) {
+    // Find the next change and take up to DIFF_CONTEXT lines of context around each run of changes
+    while (index < lines.length && lines[index].op === ' ') index++;
+    if (index >= lines.length) break;
+
+    const start = Math.max(0, index - DIFF_CONTEXT);
+    let end = index;
+    while (end < lines.length) {
+      let next = end;
+      while (next < lines.length && lines[next].op !== ' ') next++;
+      let gap = next;
+      while (gap < lines.length && lines[gap].op === ' ') gap++;
+      end = next;
+      if (gap >= lines.length || gap - next > DIFF_CONTEXT * 2) {
+        end = Math.min(lines.length, next + DIFF_CONTEXT);
+        break;
+      }
+      end = gap;
+    }
+
+    const hunk = lines.slice(start, end);
+    const oldStart = lines.slice(0, start).filter(line => line.op !== '+').length;
+    const newStart = lines.slice(0, start).filter(line => line.op !== '-').length;
+    const oldCount = hunk.filter(line => line.op !== '+').length;
+    const newCount = hunk.filter(line => line.op !== '-').length;
+
+    output += `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@\n`;
+    for (const line of hunk) {
+      output += `${line.op}${line.text}\n`;
+      if (line.noNewline) output += '\\ No newline at end of file\n';
+    }
+
+    index = end;
+  }
+
+  return output;
+}
+
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+  noNewline?: boolean;
+}
+
+function splitLines(content: string): { text: string; noNewline?: boolean }[] {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  const last = lines.pop()!;
+  const result: { text: string; noNewline?: boolean }[] = lines.map(text => ({ text }));
+  if (last !== '') result.push({ text: last, noNewline: true });
+  return result;
+}
+
+function diffLines(a: { text: string; noNewline?: boolean }[], b: { text: string; noNewline?: boolean }[]): DiffLine[] {
+  const same = (x: { text: string; noNewline?: boolean }, y: { text: string; noNewline?: boolean }) =>
+    x.text === y.text && !!x.noNewline === !!y.noNewline;
+
+  // Edits are usually local, so only the differing middle needs the LCS table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && same(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix
+    && same(a[a.length - 1 - suffix], b[b.length - 1 - suffix])) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const middle: DiffLine[] = [];
+
+  if (midA.length * midB.length > 4_000_000) {
+    // Too large for the table; show the whole region as replaced
+    middle.push(...midA.map(line => ({ op: '-' as const, ...line })));
+    middle.push(...midB.map(line => ({ op: '+' as const, ...line })));
+  } else {
+    const width = midB.length + 1;
+    const table = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        table[i * width + j] = same(midA[i], midB[j])
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && same(midA[i], midB[j])) {
+        middle.push({ op: ' ', ...midA[i] });
+        i++;
+        j++;
+      } else if (i < midA.length && (j >= midB.length || table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+        middle.push({ op: '-', ...midA[i] });
+        i++;
+      } else {
+        middle.push({ op: '+', ...midB[j] });
+        j++;
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, prefix).map(line => ({ op: ' ' as const, ...line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(line => ({ op: ' ' as const, ...line })),
+  ];
+}
@@ -12,18 +12,92 @@ import path from 'path';
 import { GodotProjectAnalyzer } from './tools/project-analyzer.js';
 import { GodotSceneManager } from './tools/scene-manager.js';
 import { GodotScriptManager } from './tools/script-manager.js';
+import { GodotResourceManager } from './tools/resource-manager.js';
+import { GodotProjectManager } from './tools/project-manager.js';
 import { GameDevTools } from './tools/game-dev-tools.js';
 import { GodotDebugger } from './tools/godot-debugger.js';
+import { ProjectFileWriter } from './file-writer.js';
 import { McpToolRequest, McpToolResponse } from './types/index.js';
 
+// Tools that write project files; they accept dryRun and their changes are journaled for undo_last_change
+const MUTATING_TOOLS = new Set([
+  'create_scene',
+  'add_node',
+  'remove_node',
+  'reparent_node',
+  'rename_node',
+  'extract_subtree_to_scene',
+  'set_node_property',
+  'add_connection',
+  'remove_connection',
+  'generate_script_template',
+  'rename_symbol',
+  'move_resource',
+  'add_autoload',
+  'remove_autoload',
+  'reorder_autoloads',
+  'add_input_action',
+  'rename_input_action',
+  'remove_input_action',
+  'add_input_event',
+  'generate_ui_component',
+]);
+
+// Shared by add_input_action and add_input_event
+const INPUT_EVENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['key', 'mouse_button', 'joypad_button', 'joypad_motion'],
+      description: 'Kind of input event',
+    },
+    key: {
+      type: ['string', 'number'],
+      description: 'For key events: a character ("W", "1") or key name ("space", "enter", "left", "f1"), or a Godot keycode',
+    },
+    physical: {
+      type: 'boolean',
+      description: 'For key events: match the physical key location instead of the keyboard layout (default true)',
+    },
+    modifiers: {
+      type: 'array',
+      items: { type: 'string', enum: ['alt', 'shift', 'ctrl', 'meta'] },
+      description: 'For key and mouse button events: modifiers that must be held',
+    },
+    button: {
+      type: ['string', 'number'],
+      description: 'Mouse button ("left", "right", "middle", "wheel_up", ...) or joypad button ("a", "b", "start", "dpad_up", ...), or an index',
+    },
+    axis: {
+      type: ['string', 'number'],
+      description: 'For joypad motion: "left_x", "left_y", "right_x", "right_y", "trigger_left" or "trigger_right", or an index',
+    },
+    axisValue: {
+      type: 'number',
+      description: 'For joypad motion: direction of the axis, -1 or 1 (default 1)',
+    },
+    device: {
+      type: 'number',
+      description: 'Device index, -1 for all devices (default -1)',
+    },
+  },
+  required: ['type'],
+};
+
 class GodotMcpServer {
   private server: Server;
   private projectPath: string;
   private projectAnalyzer: GodotProjectAnalyzer;
   private sceneManager: GodotSceneManager;
   private scriptManager: GodotScriptManager;
+  private resourceManager: GodotResourceManager;
+  private projectManager: GodotProjectManager;
+  private fileWriter: ProjectFileWriter;
   private gameDevTools: GameDevTools;
   private debugger: GodotDebugger;
+  // Tail of the queue of tool calls; the file writer tracks one call at a time
+  private callQueue: Promise<unknown> = Promise.resolve();
 
   constructor(projectPath: string = process.cwd()) {
     this.projectPath = path.resolve(projectPath);
@@ -36,11 +110,14 @@ class GodotMcpServer {
       },
     });
 
+    this.fileWriter = new ProjectFileWriter(this.projectPath);
     this.projectAnalyzer = new GodotProjectAnalyzer(this.projectPath);
-    this.sceneManager = new GodotSceneManager(this.projectPath);
-    this.scriptManager = new GodotScriptManager(this.projectPath);
-    this.gameDevTools = new GameDevTools(this.projectPath);
-    this.debugger = new GodotDebugger(this.projectPath);
+    this.scriptManager = new GodotScriptManager(this.projectPath, this.fileWriter);
+    this.resourceManager = new GodotResourceManager(this.projectPath, this.fileWriter);
+    this.sceneManager = new GodotSceneManager(this.projectPath, this.scriptManager, this.resourceManager, this.fileWriter);
+    this.projectManager = new GodotProjectManager(this.projectPath, this.scriptManager, this.projectAnalyzer, this.fileWriter);
+    this.gameDevTools = new GameDevTools(this.projectPath, this.fileWriter);
+    this.debugger = new GodotDebugger(this.projectPath, this.resourceManager, this.scriptManager, this.sceneManager);
 
     this.setupHandlers();
   }
@@ -85,11 +162,11 @@ class GodotMcpServer {
   }
 
   private getAvailableTools(): Tool[] {
-    return [
+    const tools: Tool[] = [
       // Project Analysis Tools
       {
         name: 'get_project_info',
-        description: 'Get Godot project information including configuration, autoloads, and metadata',
+        description: 'Get Godot project information including configuration, autoloads, input actions, display, rendering and physics settings, layer names and editor plugins',
         inputSchema: {
           type: 'object',
           properties: {},
@@ -111,7 +188,7 @@ class GodotMcpServer {
       },
       {
         name: 'list_scripts',
-        description: 'List all GDScript files in the project',
+        description: 'List all GDScript and C# script files in the project, plus any .csproj files',
         inputSchema: {
           type: 'object',
           properties: {
@@ -126,7 +203,7 @@ class GodotMcpServer {
       // Scene Management Tools
       {
         name: 'analyze_scene',
-        description: 'Analyze a specific scene file and return its structure',
+        description: 'Analyze a specific scene file and return its structure, resources, connections and decoded property values',
         inputSchema: {
           type: 'object',
           properties: {
@@ -138,10 +215,324 @@ class GodotMcpServer {
           required: ['scenePath'],
         },
       },
+      {
+        name: 'create_scene',
+        description: 'Create a new Godot 4 scene (.tscn) from a root node, an optional node tree with properties, and attached scripts. Resources referenced by path become ext_resource entries; the written scene is returned as analyze_scene reports it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative or res:// path of the scene to create (must end with .tscn)',
+            },
+            rootType: {
+              type: 'string',
+              description: 'Class of the root node (e.g. Node2D, Control, CharacterBody2D)',
+            },
+            rootName: {
+              type: 'string',
+              description: 'Name of the root node',
+            },
+            script: {
+              type: 'string',
+              description: 'Script to attach to the root node (optional)',
+            },
+            properties: {
+              type: 'object',
+              description: 'Root node properties in the structured form analyze_scene returns, e.g. {"position": {"type": "Vector2", "x": 10, "y": 20}}. Use {"type": "ExtResource", "path": "res://..."} for external resources, {"type": "SubResource", "resourceType": "RectangleShape2D", "properties": {...}} for embedded ones, or {"raw": "Vector2(1, 2)"} for Godot text',
+            },
+            groups: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Groups the root node belongs to (optional)',
+            },
+            children: {
+              type: 'array',
+              description: 'Child nodes: {name, type, instance?, script?, groups?, properties?, children?}. Use instance (a .tscn path) instead of type to instance a scene',
+              items: { type: 'object' },
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace the scene if it already exists',
+              default: false,
+            },
+          },
+          required: ['scenePath', 'rootType', 'rootName'],
+        },
+      },
+      {
+        name: 'add_node',
+        description: 'Add a node (optionally with children, properties, script or an instanced scene) under an existing node of a scene, editing the .tscn in place',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            parentPath: {
+              type: 'string',
+              description: 'Path of the node relative to the scene root ("." for the root, e.g. "UI/HUD"), or the absolute /root/... path analyze_scene reports',
+            },
+            name: {
+              type: 'string',
+              description: 'Name of the new node',
+            },
+            type: {
+              type: 'string',
+              description: 'Class of the new node (required unless instance is given)',
+            },
+            instance: {
+              type: 'string',
+              description: 'Scene to instance instead of creating a node of a type (optional)',
+            },
+            script: {
+              type: 'string',
+              description: 'Script to attach (optional)',
+            },
+            properties: {
+              type: 'object',
+              description: 'Node properties in the same form as create_scene',
+            },
+            groups: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Groups the node belongs to (optional)',
+            },
+            children: {
+              type: 'array',
+              description: 'Child nodes in the same form as create_scene',
+              items: { type: 'object' },
+            },
+          },
+          required: ['scenePath', 'parentPath', 'name'],
+        },
+      },
+      {
+        name: 'remove_node',
+        description: 'Remove a node and its subtree from a scene, together with connections to it and resources only it used',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            nodePath: {
+              type: 'string',
+              description: 'Path of the node relative to the scene root ("." for the root, e.g. "UI/HUD"), or the absolute /root/... path analyze_scene reports',
+            },
+          },
+          required: ['scenePath', 'nodePath'],
+        },
+      },
+      {
+        name: 'reparent_node',
+        description: 'Move a node and its subtree to a new parent, updating parent paths, connections and NodePath properties',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            nodePath: {
+              type: 'string',
+              description: 'Path of the node relative to the scene root ("." for the root, e.g. "UI/HUD"), or the absolute /root/... path analyze_scene reports',
+            },
+            newParentPath: {
+              type: 'string',
+              description: 'Path of the new parent, in the same form as nodePath',
+            },
+          },
+          required: ['scenePath', 'nodePath', 'newParentPath'],
+        },
+      },
+      {
+        name: 'rename_node',
+        description: 'Rename a node, updating parent paths of its descendants, connections and NodePath properties',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            nodePath: {
+              type: 'string',
+              description: 'Path of the node relative to the scene root ("." for the root, e.g. "UI/HUD"), or the absolute /root/... path analyze_scene reports',
+            },
+            newName: {
+              type: 'string',
+              description: 'New name of the node',
+            },
+          },
+          required: ['scenePath', 'nodePath', 'newName'],
+        },
+      },
+      {
+        name: 'extract_subtree_to_scene',
+        description: 'Save a node and its subtree as a new scene, with the sub_resources and ext_resources it uses, and replace it with an instance of that scene. Connections inside the subtree move with it, connections crossing the boundary are kept where Godot can store them and reported otherwise',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            nodePath: {
+              type: 'string',
+              description: 'Path of the node to extract, in the same form as for reparent_node; it becomes the root of the new scene',
+            },
+            newScenePath: {
+              type: 'string',
+              description: 'Relative path of the new .tscn file, which must not exist yet',
+            },
+            editableChildren: {
+              type: 'boolean',
+              description: 'Mark the instance\'s children as editable so connections from nodes inside it can stay in this scene (default: false, such connections are dropped and reported)',
+            },
+          },
+          required: ['scenePath', 'nodePath', 'newScenePath'],
+        },
+      },
+      {
+        name: 'set_node_property',
+        description: 'Set a property of a node in a scene to a typed value (Vector2, Color, NodePath, resources by path, ...), or clear it back to its default by omitting value. Values for script variables are checked against the declared type',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            nodePath: {
+              type: 'string',
+              description: 'Path of the node relative to the scene root ("." for the root, e.g. "UI/HUD"), or the absolute /root/... path analyze_scene reports',
+            },
+            property: {
+              type: 'string',
+              description: 'Property name as written in the scene, e.g. position or theme_override_colors/font_color',
+            },
+            value: {
+              description: 'Value in the JSON form analyze_scene returns, e.g. { "type": "Vector2", "x": 10, "y": 20 } or { "type": "ExtResource", "path": "res://icon.svg" }. Omit to clear the property',
+            },
+          },
+          required: ['scenePath', 'nodePath', 'property'],
+        },
+      },
+      {
+        name: 'list_connections',
+        description: 'List the signal connections stored in a scene',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            nodePath: {
+              type: 'string',
+              description: 'Only list connections from or to this node (optional)',
+            },
+          },
+          required: ['scenePath'],
+        },
+      },
+      {
+        name: 'add_connection',
+        description: 'Connect a signal of one node to a method on another node in a scene. Checks that the signal exists on the source node\'s type or script and that the target script defines the method, optionally generating a stub for it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            signal: {
+              type: 'string',
+              description: 'Signal name, e.g. pressed or body_entered',
+            },
+            from: {
+              type: 'string',
+              description: 'Node emitting the signal ("." for the root, e.g. "UI/Button")',
+            },
+            to: {
+              type: 'string',
+              description: 'Node receiving the signal, in the same form as from',
+            },
+            method: {
+              type: 'string',
+              description: 'Method to call (defaults to the editor\'s _on_<node>_<signal> name)',
+            },
+            flags: {
+              type: 'number',
+              description: 'Connection flags, e.g. 3 for deferred (optional)',
+            },
+            binds: {
+              type: 'array',
+              description: 'Extra arguments passed to the method (optional)',
+            },
+            unbinds: {
+              type: 'number',
+              description: 'Number of signal arguments to drop (optional)',
+            },
+            createMethod: {
+              type: 'boolean',
+              description: 'Add an empty method to the target script if it is missing',
+              default: false,
+            },
+          },
+          required: ['scenePath', 'signal', 'from', 'to'],
+        },
+      },
+      {
+        name: 'remove_connection',
+        description: 'Remove signal connections from a scene',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file',
+            },
+            signal: {
+              type: 'string',
+              description: 'Signal name',
+            },
+            from: {
+              type: 'string',
+              description: 'Node emitting the signal',
+            },
+            to: {
+              type: 'string',
+              description: 'Node receiving the signal',
+            },
+            method: {
+              type: 'string',
+              description: 'Only remove the connection to this method (optional)',
+            },
+          },
+          required: ['scenePath', 'signal', 'from', 'to'],
+        },
+      },
+      {
+        name: 'validate_node_paths',
+        description: 'Check the static node paths in scripts attached to scene nodes ($Path, %Unique, get_node("...") and @onready variables, GetNode("...") in C#) against the scene tree, including the nodes of instanced scenes. Reports paths that cannot exist with the script line, and scenes that cannot be parsed under unparseable',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scenePath: {
+              type: 'string',
+              description: 'Relative path to the scene file (optional, checks every scene when omitted)',
+            },
+          },
+        },
+      },
       // Script Management Tools
       {
         name: 'analyze_script',
-        description: 'Analyze a GDScript file and return its structure',
+        description: 'Analyze a GDScript or C# script and return its structure: members with line ranges, doc comments, enums and inner classes',
         inputSchema: {
           type: 'object',
           properties: {
@@ -173,10 +564,315 @@ class GodotMcpServer {
               description: 'Base class to extend from',
               default: 'Node',
             },
+            outputPath: {
+              type: 'string',
+              description: 'res:// path of a .gd file to write the script to (optional; by default only the code is returned)',
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace the file at outputPath if it already exists',
+              default: false,
+            },
           },
           required: ['templateType', 'className'],
         },
       },
+      {
+        name: 'rename_symbol',
+        description: 'Rename a class_name, or a method, signal or property declared by a GDScript file, and update call sites, emit/connect usages, [connection] entries and property values stored in scenes and resources; lists every edit',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            kind: {
+              type: 'string',
+              enum: ['class_name', 'method', 'signal', 'property'],
+              description: 'Kind of symbol to rename',
+            },
+            name: {
+              type: 'string',
+              description: 'Current name',
+            },
+            newName: {
+              type: 'string',
+              description: 'New name',
+            },
+            scriptPath: {
+              type: 'string',
+              description: 'Relative or res:// path of the script that declares the symbol (optional for class_name)',
+            },
+          },
+          required: ['kind', 'name', 'newName'],
+        },
+      },
+      {
+        name: 'get_class_hierarchy',
+        description: 'Build the global class registry from GDScript class_name declarations and extends chains (class names, inner classes and extends "res://path.gd"); reports duplicate class_names, classes shadowing engine classes, inheritance cycles and unresolvable extends. For one class, lists its ancestors, all subclasses and inherited members',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            className: {
+              type: 'string',
+              description: 'class_name, Outer.Inner or script path of the class to inspect (optional, returns the whole registry when omitted)',
+            },
+          },
+        },
+      },
+      // Resource Tools
+      {
+        name: 'get_uid_index',
+        description: 'Build the project-wide resource UID index from scenes, resources, .import and .uid files; reports duplicate, missing and mismatched UIDs, or resolves a single uid:// string',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            uid: {
+              type: 'string',
+              description: 'uid:// string to resolve (optional, returns the full index when omitted)',
+            },
+          },
+        },
+      },
+      {
+        name: 'get_import_info',
+        description: 'Read .import metadata: importer, resource type, uid, imported file paths and import parameters',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            assetPath: {
+              type: 'string',
+              description: 'Relative or res:// path of the source asset (optional, lists every imported asset when omitted)',
+            },
+          },
+        },
+      },
+      {
+        name: 'get_dependencies',
+        description: 'List what a scene, script, resource or shader pulls in: ext_resource entries, preload/load string literals, extends paths and shader includes, followed transitively up to a depth limit. For project.godot this includes autoloads and the main scene. Reports missing files and dependency cycles',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Relative, res:// or uid:// path of the file',
+            },
+            depth: {
+              type: 'number',
+              description: 'How many levels to follow (default: 1, only direct dependencies; 0 for no limit)',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'get_dependents',
+        description: 'List the files that depend on a file (e.g. what uses a texture), followed transitively up to a depth limit, with the same edges as get_dependencies. Works for missing files too, to find what references them',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Relative, res:// or uid:// path of the file',
+            },
+            depth: {
+              type: 'number',
+              description: 'How many levels to follow (default: 1, only direct dependents; 0 for no limit)',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'find_unused_assets',
+        description: 'Find images, audio, scenes, scripts, resources, shaders, fonts and models that nothing reaches from run/main_scene, autoloads and other project settings, following ext_resources, preload/load calls, res:// strings in scripts and scenes, and class_name references. Grouped by directory with sizes',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            allowlist: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Glob patterns of files to leave out of the report, e.g. ["levels/**/*.tscn", "res://art/promo/*"], for resources loaded by computed paths',
+            },
+            includeAddons: {
+              type: 'boolean',
+              description: 'Also report files under addons/ (default: false)',
+            },
+          },
+        },
+      },
+      {
+        name: 'move_resource',
+        description: 'Move or rename a file or directory and rewrite every res:// reference to it in scenes, resources, scripts, project.godot and .import files; .import and .uid sidecars move with the file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Relative or res:// path of the file or directory to move',
+            },
+            to: {
+              type: 'string',
+              description: 'New relative or res:// path',
+            },
+          },
+          required: ['from', 'to'],
+        },
+      },
+      // Project Settings Tools
+      {
+        name: 'add_autoload',
+        description: 'Register a script or scene as an autoload in project.godot; warns when the name clashes with a class_name in the project',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Autoload name, e.g. GameManager',
+            },
+            path: {
+              type: 'string',
+              description: 'res:// path of the .gd, .cs or .tscn file to load',
+            },
+            singleton: {
+              type: 'boolean',
+              description: 'Make the autoload available as a global variable (the "*" prefix in project.godot)',
+              default: true,
+            },
+          },
+          required: ['name', 'path'],
+        },
+      },
+      {
+        name: 'remove_autoload',
+        description: 'Remove an autoload from project.godot',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Autoload name',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'reorder_autoloads',
+        description: 'Change the load order of autoloads in project.godot',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            order: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Autoload names in the order they should load; unlisted autoloads follow in their current order',
+            },
+          },
+          required: ['order'],
+        },
+      },
+      {
+        name: 'list_input_actions',
+        description: 'List the input actions defined in project.godot with their deadzones and events',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'add_input_action',
+        description: 'Add an input action to the input map in project.godot',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Action name, e.g. "jump"',
+            },
+            deadzone: {
+              type: 'number',
+              description: 'Deadzone for analog inputs (default 0.5)',
+            },
+            events: {
+              type: 'array',
+              items: INPUT_EVENT_SCHEMA,
+              description: 'Events that trigger the action',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'rename_input_action',
+        description: 'Rename an input action in project.godot; reports scripts that still use the old name',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Current action name',
+            },
+            newName: {
+              type: 'string',
+              description: 'New action name',
+            },
+          },
+          required: ['name', 'newName'],
+        },
+      },
+      {
+        name: 'remove_input_action',
+        description: 'Remove an input action from project.godot; warns when scripts still use it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Action name',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'add_input_event',
+        description: 'Bind a key, mouse button, joypad button or joypad axis to an input action',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              description: 'Action name',
+            },
+            event: INPUT_EVENT_SCHEMA,
+          },
+          required: ['action', 'event'],
+        },
+      },
+      {
+        name: 'analyze_input_usage',
+        description: 'Cross-check Input.is_action_*, Input.get_vector and event.is_action* calls in scripts against the input map: undefined and unused actions',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      // Change History Tools
+      {
+        name: 'undo_last_change',
+        description: 'Restore the files changed by the most recent editing tool call, using the journal in .godot-mcp/',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            dryRun: {
+              type: 'boolean',
+              description: 'Return a unified diff of the restore instead of applying it',
+            },
+            force: {
+              type: 'boolean',
+              description: 'Undo even if the files were edited after the change',
+            },
+          },
+        },
+      },
       // Game Development Tools
       {
         name: 'analyze_game_architecture',
@@ -206,6 +902,15 @@ class GodotMcpServer {
               description: 'Additional options for component generation',
               default: {},
             },
+            outputPath: {
+              type: 'string',
+              description: 'res:// path of a .gd file to write the script to; a .tscn with the script attached is written next to it (optional)',
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace existing files at the output paths',
+              default: false,
+            },
           },
           required: ['componentType', 'componentName'],
         },
@@ -329,9 +1034,54 @@ class GodotMcpServer {
         },
       },
     ];
+
+    return tools.map(tool => MUTATING_TOOLS.has(tool.name) ? this.withDryRun(tool) : tool);
+  }
+
+  private withDryRun(tool: Tool): Tool {
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          dryRun: {
+            type: 'boolean',
+            description: 'Return a unified diff of the changes instead of writing them',
+          },
+        },
+      },
+    };
   }
 
   private async handleToolCall(request: McpToolRequest): Promise<McpToolResponse> {
+    if (!MUTATING_TOOLS.has(request.toolName)) {
+      return await this.queueCall(() => this.dispatchToolCall(request));
+    }
+
+    return await this.queueCall(async () => {
+      // Writes made during the call are staged (dry run) or journaled, and rolled back if it fails
+      this.fileWriter.begin(request.arguments.dryRun === true);
+      let response: McpToolResponse;
+      try {
+        response = await this.dispatchToolCall(request);
+      } catch (error) {
+        await this.fileWriter.abort();
+        throw error;
+      }
+      return await this.fileWriter.finish(request.toolName, response);
+    });
+  }
+
+  // Runs tool calls one after another, so overlapping requests never share a journal and reads
+  // never see the staged files of another call's dry run or the half-applied writes of a real one
+  private queueCall<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.callQueue.then(task);
+    this.callQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async dispatchToolCall(request: McpToolRequest): Promise<McpToolResponse> {
     switch (request.toolName) {
       case 'get_project_info':
         return await this.projectAnalyzer.getProjectInfo();
@@ -345,6 +1095,98 @@ class GodotMcpServer {
       case 'analyze_scene':
         return await this.sceneManager.analyzeScene(request.arguments.scenePath);
 
+      case 'create_scene':
+        return await this.sceneManager.createScene(
+          request.arguments.scenePath,
+          request.arguments.rootType,
+          request.arguments.rootName,
+          {
+            script: request.arguments.script,
+            properties: request.arguments.properties,
+            groups: request.arguments.groups,
+            children: request.arguments.children,
+            overwrite: request.arguments.overwrite,
+          }
+        );
+
+      case 'add_node':
+        return await this.sceneManager.addNode(
+          request.arguments.scenePath,
+          request.arguments.parentPath,
+          request.arguments.name,
+          {
+            type: request.arguments.type,
+            instance: request.arguments.instance,
+            script: request.arguments.script,
+            properties: request.arguments.properties,
+            groups: request.arguments.groups,
+            children: request.arguments.children,
+          }
+        );
+
+      case 'remove_node':
+        return await this.sceneManager.removeNode(request.arguments.scenePath, request.arguments.nodePath);
+
+      case 'reparent_node':
+        return await this.sceneManager.reparentNode(
+          request.arguments.scenePath,
+          request.arguments.nodePath,
+          request.arguments.newParentPath
+        );
+
+      case 'rename_node':
+        return await this.sceneManager.renameNode(
+          request.arguments.scenePath,
+          request.arguments.nodePath,
+          request.arguments.newName
+        );
+
+      case 'extract_subtree_to_scene':
+        return await this.sceneManager.extractSubtreeToScene(
+          request.arguments.scenePath,
+          request.arguments.nodePath,
+          request.arguments.newScenePath,
+          { editableChildren: request.arguments.editableChildren }
+        );
+
+      case 'set_node_property':
+        return await this.sceneManager.setNodeProperty(
+          request.arguments.scenePath,
+          request.arguments.nodePath,
+          request.arguments.property,
+          request.arguments.value
+        );
+
+      case 'list_connections':
+        return await this.sceneManager.listConnections(request.arguments.scenePath, request.arguments.nodePath);
+
+      case 'add_connection':
+        return await this.sceneManager.addConnection(
+          request.arguments.scenePath,
+          request.arguments.signal,
+          request.arguments.from,
+          request.arguments.to,
+          request.arguments.method,
+          {
+            flags: request.arguments.flags,
+            binds: request.arguments.binds,
+            unbinds: request.arguments.unbinds,
+            createMethod: request.arguments.createMethod,
+          }
+        );
+
+      case 'remove_connection':
+        return await this.sceneManager.removeConnection(
+          request.arguments.scenePath,
+          request.arguments.signal,
+          request.arguments.from,
+          request.arguments.to,
+          request.arguments.method
+        );
+
+      case 'validate_node_paths':
+        return await this.sceneManager.validateNodePaths(request.arguments.scenePath);
+
       case 'analyze_script':
         return await this.scriptManager.analyzeScript(request.arguments.scriptPath);
 
@@ -352,9 +1194,86 @@ class GodotMcpServer {
         return await this.scriptManager.generateTemplate(
           request.arguments.templateType,
           request.arguments.className,
-          request.arguments.extendsClass
+          request.arguments.extendsClass,
+          { outputPath: request.arguments.outputPath, overwrite: request.arguments.overwrite }
+        );
+
+      case 'rename_symbol':
+        return await this.scriptManager.renameSymbol(
+          request.arguments.kind,
+          request.arguments.name,
+          request.arguments.newName,
+          request.arguments.scriptPath
+        );
+
+      case 'get_class_hierarchy':
+        return await this.scriptManager.getClassHierarchy(request.arguments.className);
+
+      case 'get_uid_index':
+        return await this.resourceManager.getUidIndex(request.arguments.uid);
+
+      case 'get_import_info':
+        return await this.resourceManager.getImportInfo(request.arguments.assetPath);
+
+      case 'get_dependencies':
+        return await this.resourceManager.getDependencies(request.arguments.path, request.arguments.depth);
+
+      case 'get_dependents':
+        return await this.resourceManager.getDependents(request.arguments.path, request.arguments.depth);
+
+      case 'find_unused_assets':
+        return await this.resourceManager.findUnusedAssets({
+          allowlist: request.arguments.allowlist,
+          includeAddons: request.arguments.includeAddons,
+        });
+
+      case 'move_resource':
+        return await this.resourceManager.moveResource(
+          request.arguments.from,
+          request.arguments.to
         );
 
+      case 'add_autoload':
+        return await this.projectManager.addAutoload(
+          request.arguments.name,
+          request.arguments.path,
+          request.arguments.singleton ?? true
+        );
+
+      case 'remove_autoload':
+        return await this.projectManager.removeAutoload(request.arguments.name);
+
+      case 'reorder_autoloads':
+        return await this.projectManager.reorderAutoloads(request.arguments.order || []);
+
+      case 'list_input_actions':
+        return await this.projectManager.listInputActions();
+
+      case 'add_input_action':
+        return await this.projectManager.addInputAction(
+          request.arguments.name,
+          request.arguments.deadzone,
+          request.arguments.events
+        );
+
+      case 'rename_input_action':
+        return await this.projectManager.renameInputAction(request.arguments.name, request.arguments.newName);
+
+      case 'remove_input_action':
+        return await this.projectManager.removeInputAction(request.arguments.name);
+
+      case 'add_input_event':
+        return await this.projectManager.addInputEvent(request.arguments.action, request.arguments.event);
+
+      case 'analyze_input_usage':
+        return await this.projectManager.analyzeInputUsage();
+
+      case 'undo_last_change':
+        return await this.fileWriter.undoLastChange({
+          dryRun: request.arguments.dryRun,
+          force: request.arguments.force,
+        });
+
       case 'analyze_game_architecture':
         return await this.gameDevTools.analyzeGameArchitecture();
 
@@ -362,7 +1281,8 @@ class GodotMcpServer {
         return await this.gameDevTools.generateUIComponent(
           request.arguments.componentType,
           request.arguments.componentName,
-          request.arguments.options || {}
+          request.arguments.options || {},
+          { outputPath: request.arguments.outputPath, overwrite: request.arguments.overwrite }
         );
 
       case 'optimize_game_performance':
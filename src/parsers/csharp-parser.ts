@@ -0,0 +1,477 @@
+import {
+  GodotScript,
+  GodotInnerClass,
+  GodotMethod,
+  GodotParameter,
+  GodotProperty,
+  GodotSignal,
+  GodotEnum,
+} from '../types/index.js';
+
+/**
+ * Declaration-level parser for Godot .NET (C#) scripts.
+ *
+ * This is not a full C# parser: comments and string literals are masked out,
+ * class bodies are found by brace matching, and each top-level member is
+ * classified from its declaration text. That is enough to map `partial class`
+ * names, `[Export]` members, `[Signal]` delegates and methods onto the
+ * GodotScript shape used for GDScript.
+ */
+
+interface MemberSegment {
+  text: string;
+  attributes: string[];
+  declarationStart: number;
+  start: number;
+  end: number;
+  bodyStart?: number;
+  bodyEnd?: number;
+}
+
+type ClassMembers = Omit<GodotInnerClass, 'name' | 'line' | 'endLine'>;
+
+const MODIFIERS = new Set([
+  'public', 'private', 'protected', 'internal', 'static', 'readonly', 'const', 'virtual', 'override',
+  'abstract', 'sealed', 'partial', 'async', 'new', 'extern', 'unsafe', 'volatile', 'required',
+]);
+
+class CSharpParser {
+  private masked: string;
+  private lineStarts: number[] = [0];
+  private docComments = new Map<number, string>();
+
+  constructor(private source: string) {
+    this.masked = this.maskCommentsAndStrings(source);
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  parse(fileName: string): Partial<GodotScript> {
+    const main = this.findMainClass(fileName);
+
+    if (!main) {
+      return { methods: [], properties: [], signals: [], enums: [], innerClasses: [] };
+    }
+
+    const script: Partial<GodotScript> = {
+      className: main.name,
+      extends: main.base,
+      ...this.parseClassBody(main.bodyStart, main.bodyEnd),
+    };
+
+    const namespace = /\bnamespace\s+([\w.]+)/.exec(this.masked);
+    if (namespace) {
+      script.namespace = namespace[1];
+    }
+
+    if (/\[\s*Tool\s*\]/.test(this.masked.slice(0, main.start + 1))) {
+      script.tool = true;
+    }
+
+    const description = this.findDoc(this.lineOf(main.start));
+    if (description) {
+      script.description = description;
+    }
+
+    return script;
+  }
+
+  findMainClass(fileName: string): { name: string; base?: string; start: number; bodyStart: number; bodyEnd: number } | undefined {
+    // Godot requires the script class to share the file's name
+    const classes = this.findClasses(0, this.masked.length);
+    return classes.find(c => c.name === fileName) || classes[0];
+  }
+
+  private findClasses(from: number, to: number): { name: string; base?: string; start: number; bodyStart: number; bodyEnd: number }[] {
+    const classes = [];
+    const pattern = /\b(class|struct|record)\s+(\w+)(\s*<[^>{]*>)?\s*(:\s*([^{]+))?\{/g;
+    pattern.lastIndex = from;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.masked)) && match.index < to) {
+      const bodyStart = match.index + match[0].length;
+      const bodyEnd = this.findMatchingBrace(bodyStart - 1);
+      const base = match[5]?.split(',')[0].trim();
+      classes.push({ name: match[2], base, start: match.index, bodyStart, bodyEnd });
+      // Nested classes are handled as members of their parent
+      pattern.lastIndex = bodyEnd + 1;
+    }
+
+    return classes;
+  }
+
+  private parseClassBody(bodyStart: number, bodyEnd: number): ClassMembers {
+    const members: ClassMembers = { methods: [], properties: [], signals: [], enums: [], innerClasses: [] };
+
+    for (const segment of this.splitMembers(bodyStart, bodyEnd)) {
+      const text = segment.text.replace(/\s+/g, ' ').trim();
+      const line = this.lineOf(segment.start);
+      const endLine = this.lineOf(segment.end);
+      const description = this.findDoc(line);
+      const hasAttribute = (name: string) => segment.attributes.some(a => new RegExp(`^${name}\\b`).test(a));
+
+      const classMatch = /\b(class|struct|record)\s+(\w+)(?:\s*<[^>]*>)?\s*(?::\s*([^{]+))?$/.exec(text);
+      if (classMatch && segment.bodyStart !== undefined) {
+        members.innerClasses.push({
+          name: classMatch[2],
+          extends: classMatch[3]?.split(',')[0].trim(),
+          description,
+          line,
+          endLine,
+          ...this.parseClassBody(segment.bodyStart, segment.bodyEnd!),
+        });
+        continue;
+      }
+
+      const enumMatch = /\benum\s+(\w+)/.exec(text);
+      if (enumMatch && segment.bodyStart !== undefined) {
+        members.enums.push(this.parseEnum(enumMatch[1], segment, description, line, endLine));
+        continue;
+      }
+
+      const delegateMatch = /\bdelegate\s+[\w<>[\],.? ]+?\s+(\w+)\s*\(([^)]*)\)/.exec(text);
+      if (delegateMatch) {
+        if (hasAttribute('Signal')) {
+          members.signals.push(this.toSignal(delegateMatch[1], delegateMatch[2], segment, description, line));
+        }
+        continue;
+      }
+
+      const methodMatch = /^((?:\w+\s+)*?)([\w<>[\],.? ]+?)\s+(\w+)\s*(?:<[^>]*>)?\s*\(([^)]*)\)\s*(?:where\b.*)?(=>.*)?$/.exec(text);
+      const constructorMatch = /^((?:\w+\s+)*?)(\w+)\s*\(([^)]*)\)\s*(?::\s*(?:base|this)\s*\(.*\))?$/.exec(text);
+      if (methodMatch && !methodMatch[2].trim().split(' ').every(word => MODIFIERS.has(word))) {
+        members.methods.push(this.toMethod(methodMatch[3], methodMatch[1] + methodMatch[2], methodMatch[4], segment, description, line, endLine));
+        continue;
+      }
+      if (constructorMatch) {
+        members.methods.push(this.toMethod(constructorMatch[2], constructorMatch[1], constructorMatch[3], segment, description, line, endLine));
+        continue;
+      }
+
+      const property = this.parseVariable(text, segment, hasAttribute('Export'), description, line, endLine);
+      if (property) {
+        members.properties.push(property);
+      }
+    }
+
+    return members;
+  }
+
+  private splitMembers(bodyStart: number, bodyEnd: number): MemberSegment[] {
+    const segments: MemberSegment[] = [];
+    let segmentStart = bodyStart;
+    let i = bodyStart;
+
+    while (i < bodyEnd) {
+      const ch = this.masked[i];
+
+      if (ch === '{') {
+        const close = this.findMatchingBrace(i);
+        const segment = this.createSegment(segmentStart, i);
+        segment.bodyStart = i + 1;
+        segment.bodyEnd = close;
+        i = close + 1;
+
+        // Auto-property initializer: `{ get; set; } = 300f;`
+        const after = /^\s*=[^;]*;/.exec(this.masked.slice(i, bodyEnd));
+        if (after) {
+          segment.text += ` {} ${after[0].trim()}`;
+          i += after[0].length;
+        }
+        segment.end = i;
+        segments.push(segment);
+        segmentStart = i;
+        continue;
+      }
+
+      if (ch === ';') {
+        const segment = this.createSegment(segmentStart, i);
+        segment.end = i + 1;
+        segments.push(segment);
+        segmentStart = i + 1;
+      }
+
+      i++;
+    }
+
+    return segments.filter(segment => segment.text.trim().length > 0);
+  }
+
+  private createSegment(start: number, end: number): MemberSegment {
+    let text = this.masked.slice(start, end);
+    const attributes: string[] = [];
+
+    // Leading [Attribute(...)] lists
+    let match: RegExpExecArray | null;
+    while ((match = /^\s*\[([^\]]*(?:\([^)]*\))?[^\]]*)\]/.exec(text))) {
+      attributes.push(...this.splitTopLevel(match[1]).map(a => a.trim()));
+      text = text.slice(match[0].length);
+    }
+
+    const leading = this.masked.slice(start, end).length - text.length;
+    const trimmed = text.length - text.trimStart().length;
+
+    return {
+      text,
+      attributes,
+      declarationStart: start,
+      start: start + leading + trimmed,
+      end,
+    };
+  }
+
+  private parseVariable(text: string, segment: MemberSegment, exported: boolean, description: string | undefined, line: number, endLine: number): GodotProperty | null {
+    // Fields: `[modifiers] Type name [= value]`; properties: `[modifiers] Type Name {} [= value]`
+    const isProperty = segment.bodyStart !== undefined;
+    // Expression-bodied properties (`int Health => _health;`) have no initializer
+    const declaration = (isProperty ? text.replace(/\{\}.*$/, '') : text).split('=>')[0].trim();
+    const [head, ...valueParts] = declaration.split('=');
+    const words = head.trim().split(/\s+/);
+    const name = words.pop();
+    if (!name || !/^\w+$/.test(name)) return null;
+
+    const modifiers = words.filter(word => MODIFIERS.has(word));
+    const type = words.filter(word => !MODIFIERS.has(word)).join(' ');
+    if (!type) return null;
+
+    let value = valueParts.join('=').trim();
+    if (!value && isProperty) {
+      const initializer = /\{\}\s*=\s*(.*);$/.exec(text);
+      value = initializer ? initializer[1].trim() : '';
+    }
+
+    const property: GodotProperty = {
+      name,
+      type,
+      exported,
+      constant: modifiers.includes('const'),
+      static: modifiers.includes('static'),
+      annotations: this.getAnnotations(segment),
+      description,
+      line,
+      endLine,
+    };
+    if (value) {
+      property.value = this.originalText(value, segment.start, segment.end);
+    }
+    return property;
+  }
+
+  private toMethod(name: string, prefix: string, parameters: string, segment: MemberSegment, description: string | undefined, line: number, endLine: number): GodotMethod {
+    const words = prefix.trim().split(/\s+/).filter(Boolean);
+    const modifiers = words.filter(word => MODIFIERS.has(word));
+    const returnType = words.filter(word => !MODIFIERS.has(word)).join(' ') || undefined;
+
+    return {
+      name,
+      parameters: this.parseParameters(parameters, segment),
+      returnType,
+      visibility: this.getVisibility(modifiers),
+      static: modifiers.includes('static'),
+      annotations: this.getAnnotations(segment),
+      description,
+      line,
+      endLine,
+    };
+  }
+
+  private toSignal(delegateName: string, parameters: string, segment: MemberSegment, description: string | undefined, line: number): GodotSignal {
+    // Godot generates the signal name by dropping the EventHandler suffix
+    return {
+      name: delegateName.replace(/EventHandler$/, ''),
+      parameters: this.parseParameters(parameters, segment),
+      description,
+      line,
+    };
+  }
+
+  private parseEnum(name: string, segment: MemberSegment, description: string | undefined, line: number, endLine: number): GodotEnum {
+    const body = this.masked.slice(segment.bodyStart!, segment.bodyEnd!);
+    const values = this.splitTopLevel(body)
+      .map(part => part.trim())
+      .filter(part => part.length > 0)
+      .map(part => {
+        const [valueName, value] = part.split('=').map(p => p.trim());
+        return value ? { name: valueName, value } : { name: valueName };
+      });
+
+    return { name, values, description, line, endLine };
+  }
+
+  private getAnnotations(segment: MemberSegment): string[] {
+    return segment.attributes.map(a => `[${this.originalText(a, segment.declarationStart, segment.start)}]`);
+  }
+
+  private parseParameters(parameters: string, segment: MemberSegment): GodotParameter[] {
+    return this.splitTopLevel(parameters)
+      .map(part => part.replace(/\[[^\]]*\]/g, '').trim())
+      .filter(part => part.length > 0)
+      .map(part => {
+        const [declaration, defaultValue] = part.split('=').map(p => p.trim());
+        const words = declaration.split(/\s+/).filter(word => !['ref', 'out', 'in', 'params', 'this'].includes(word));
+        const name = words.pop() || '';
+        const parameter: GodotParameter = { name, type: words.join(' ') || undefined };
+        if (defaultValue !== undefined) {
+          parameter.defaultValue = this.originalText(defaultValue, segment.start, segment.end);
+        }
+        return parameter;
+      });
+  }
+
+  private getVisibility(modifiers: string[]): GodotMethod['visibility'] {
+    if (modifiers.includes('public') || modifiers.includes('internal')) return 'public';
+    if (modifiers.includes('protected')) return 'protected';
+    return 'private';
+  }
+
+  private splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const ch of text) {
+      if ('(<[{'.includes(ch)) depth++;
+      if (')>]}'.includes(ch)) depth--;
+      if (ch === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+        continue;
+      }
+      current += ch;
+    }
+    parts.push(current);
+
+    return parts;
+  }
+
+  private findMatchingBrace(open: number): number {
+    let depth = 0;
+    for (let i = open; i < this.masked.length; i++) {
+      if (this.masked[i] === '{') depth++;
+      if (this.masked[i] === '}') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return this.masked.length;
+  }
+
+  private originalText(maskedValue: string, start: number, end: number): string {
+    // Values may contain string literals that were masked; read them back from the source
+    const value = maskedValue.trim();
+    const index = this.masked.indexOf(value, start);
+    return index !== -1 && index < end ? this.source.slice(index, index + value.length) : value;
+  }
+
+  private lineOf(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+
+  private findDoc(line: number): string | undefined {
+    const lines: string[] = [];
+    // Attribute lines sit between the doc comment and the declaration
+    let current = line - 1;
+    while (current > 0 && /^\s*\[/.test(this.lineText(current))) current--;
+    while (current > 0 && this.docComments.has(current)) {
+      lines.unshift(this.docComments.get(current)!);
+      current--;
+    }
+
+    const text = lines.join('\n').replace(/<\/?[^>]+>/g, '').trim();
+    return text || undefined;
+  }
+
+  private lineText(line: number): string {
+    const start = this.lineStarts[line - 1];
+    const end = this.lineStarts[line] ?? this.source.length;
+    return this.source.slice(start, end);
+  }
+
+  private maskCommentsAndStrings(source: string): string {
+    // Replace comments and string/char literals with spaces, keeping offsets and newlines intact
+    let result = '';
+    let i = 0;
+    let line = 1;
+
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+    // String contents are filled rather than blanked so whitespace normalization keeps their length
+    const fill = (text: string) => text.replace(/[^\n]/g, '_');
+
+    while (i < source.length) {
+      const ch = source[i];
+      const next = source[i + 1];
+
+      if (ch === '\n') {
+        line++;
+        result += ch;
+        i++;
+      } else if (ch === '/' && next === '/') {
+        const end = source.indexOf('\n', i) === -1 ? source.length : source.indexOf('\n', i);
+        const comment = source.slice(i, end);
+        if (comment.startsWith('///')) {
+          this.docComments.set(line, comment.slice(3).trim());
+        }
+        result += blank(comment);
+        i = end;
+      } else if (ch === '/' && next === '*') {
+        const end = source.indexOf('*/', i + 2) === -1 ? source.length : source.indexOf('*/', i + 2) + 2;
+        const comment = source.slice(i, end);
+        line += (comment.match(/\n/g) || []).length;
+        result += blank(comment);
+        i = end;
+      } else if (ch === '"' || ch === '\'' || (ch === '@' && next === '"') || (ch === '$' && next === '"')) {
+        const start = i;
+        const verbatim = ch === '@' || (ch === '$' && source[i + 2] === '@');
+        i += ch === '"' || ch === '\'' ? 1 : 2;
+        const quote = ch === '\'' ? '\'' : '"';
+        while (i < source.length) {
+          if (source[i] === '\\' && !verbatim) {
+            i += 2;
+            continue;
+          }
+          if (source[i] === quote) {
+            if (verbatim && source[i + 1] === quote) {
+              i += 2;
+              continue;
+            }
+            i++;
+            break;
+          }
+          if (source[i] === '\n' && !verbatim) break;
+          i++;
+        }
+        const literal = source.slice(start, i);
+        line += (literal.match(/\n/g) || []).length;
+        // Keep the quotes so masked values still read as strings
+        const open = literal.indexOf(quote) + 1;
+        const closed = literal.length > open && literal.endsWith(quote);
+        result += literal.slice(0, open) + fill(literal.slice(open, closed ? -1 : undefined)) + (closed ? quote : '');
+      } else {
+        result += ch;
+        i++;
+      }
+    }
+
+    return result;
+  }
+}
+
+export function parseCSharpScript(source: string, fileName: string): Partial<GodotScript> {
+  return new CSharpParser(source).parse(fileName);
+}
+
+/**
+ * Offsets of the main class body: just after its opening brace and at its closing brace.
+ */
+export function findCSharpClassBody(source: string, fileName: string): { start: number; end: number } | undefined {
+  const main = new CSharpParser(source).findMainClass(fileName);
+  return main && { start: main.bodyStart, end: main.bodyEnd };
+}
@@ -0,0 +1,504 @@
+/**
+ * A subset of Godot 4's built-in class reference: the inheritance chain,
+ * signals and commonly connected methods of the classes scenes and scripts
+ * use. Signal parameters are written the way the editor writes them in
+ * generated callbacks.
+ *
+ * Classes missing from the table are unknown rather than invalid, so callers
+ * should downgrade checks that depend on it to warnings.
+ */
+
+export interface EngineClass {
+  extends?: string;
+  signals?: Record<string, string[]>;
+  // Methods a signal may be connected to directly, e.g. a Timer's timeout to queue_free
+  methods?: string[];
+}
+
+export const ENGINE_CLASSES: Record<string, EngineClass> = {
+  Object: {
+    signals: { script_changed: [], property_list_changed: [] },
+    methods: [
+      'call', 'call_deferred', 'callv', 'emit_signal', 'free', 'notify_property_list_changed',
+      'set', 'set_block_signals', 'set_deferred', 'set_meta',
+    ],
+  },
+  RefCounted: { extends: 'Object' },
+  Resource: { extends: 'RefCounted', signals: { changed: [], setup_local_to_scene_requested: [] } },
+  Node: {
+    extends: 'Object',
+    signals: {
+      ready: [],
+      renamed: [],
+      tree_entered: [],
+      tree_exiting: [],
+      tree_exited: [],
+      child_entered_tree: ['node: Node'],
+      child_exiting_tree: ['node: Node'],
+      child_order_changed: [],
+      replacing_by: ['node: Node'],
+      editor_description_changed: ['node: Node'],
+    },
+    methods: [
+      'add_child', 'add_sibling', 'add_to_group', 'print_tree', 'propagate_call', 'queue_free', 'remove_child',
+      'remove_from_group', 'reparent', 'set_name', 'set_physics_process', 'set_process', 'set_process_input',
+      'set_process_mode', 'set_process_unhandled_input', 'set_process_unhandled_key_input',
+    ],
+  },
+
+  // Scene tree utilities
+  Timer: { extends: 'Node', signals: { timeout: [] }, methods: ['set_paused', 'set_wait_time', 'start', 'stop'] },
+  HTTPRequest: {
+    extends: 'Node',
+    signals: { request_completed: ['result: int', 'response_code: int', 'headers: PackedStringArray', 'body: PackedByteArray'] },
+    methods: ['cancel_request', 'request'],
+  },
+  AnimationMixer: {
+    extends: 'Node',
+    signals: {
+      animation_finished: ['anim_name: StringName'],
+      animation_started: ['anim_name: StringName'],
+      animation_libraries_updated: [],
+      animation_list_changed: [],
+      caches_cleared: [],
+      mixer_applied: [],
+      mixer_updated: [],
+    },
+    methods: ['advance', 'set_active'],
+  },
+  AnimationPlayer: {
+    extends: 'AnimationMixer',
+    signals: { animation_changed: ['old_name: StringName', 'new_name: StringName'], current_animation_changed: ['name: String'] },
+    methods: ['pause', 'play', 'play_backwards', 'queue', 'seek', 'set_current_animation', 'stop'],
+  },
+  AnimationTree: { extends: 'AnimationMixer', signals: { animation_player_changed: [] } },
+  AudioStreamPlayer: { extends: 'Node', signals: { finished: [] }, methods: ['play', 'set_stream_paused', 'stop'] },
+  CanvasLayer: { extends: 'Node', signals: { visibility_changed: [] } },
+  ParallaxBackground: { extends: 'CanvasLayer' },
+  MultiplayerSpawner: { extends: 'Node', signals: { despawned: ['node: Node'], spawned: ['node: Node'] } },
+  MultiplayerSynchronizer: {
+    extends: 'Node',
+    signals: { delta_synchronized: [], synchronized: [], visibility_changed: ['for_peer: int'] },
+  },
+  NavigationAgent2D: {
+    extends: 'Node',
+    signals: {
+      link_reached: ['details: Dictionary'],
+      navigation_finished: [],
+      path_changed: [],
+      target_reached: [],
+      velocity_computed: ['safe_velocity: Vector2'],
+      waypoint_reached: ['details: Dictionary'],
+    },
+  },
+  NavigationAgent3D: {
+    extends: 'Node',
+    signals: {
+      link_reached: ['details: Dictionary'],
+      navigation_finished: [],
+      path_changed: [],
+      target_reached: [],
+      velocity_computed: ['safe_velocity: Vector3'],
+      waypoint_reached: ['details: Dictionary'],
+    },
+  },
+  ResourcePreloader: { extends: 'Node' },
+  WorldEnvironment: { extends: 'Node' },
+  Viewport: { extends: 'Node', signals: { gui_focus_changed: ['node: Control'], size_changed: [] } },
+  SubViewport: { extends: 'Viewport' },
+  Window: {
+    extends: 'Viewport',
+    signals: {
+      about_to_popup: [],
+      close_requested: [],
+      dpi_changed: [],
+      files_dropped: ['files: PackedStringArray'],
+      focus_entered: [],
+      focus_exited: [],
+      go_back_requested: [],
+      mouse_entered: [],
+      mouse_exited: [],
+      theme_changed: [],
+      title_changed: [],
+      titlebar_changed: [],
+      visibility_changed: [],
+      window_input: ['event: InputEvent'],
+    },
+    methods: ['grab_focus', 'hide', 'popup', 'popup_centered', 'set_visible', 'show'],
+  },
+  Popup: { extends: 'Window', signals: { popup_hide: [] } },
+  PopupMenu: {
+    extends: 'Popup',
+    signals: { id_focused: ['id: int'], id_pressed: ['id: int'], index_pressed: ['index: int'], menu_changed: [] },
+  },
+  AcceptDialog: { extends: 'Window', signals: { canceled: [], confirmed: [], custom_action: ['action: StringName'] } },
+  ConfirmationDialog: { extends: 'AcceptDialog' },
+  FileDialog: {
+    extends: 'ConfirmationDialog',
+    signals: { dir_selected: ['dir: String'], file_selected: ['path: String'], files_selected: ['paths: PackedStringArray'] },
+  },
+
+  // 2D
+  CanvasItem: {
+    extends: 'Node',
+    signals: { draw: [], hidden: [], item_rect_changed: [], visibility_changed: [] },
+    methods: ['hide', 'queue_redraw', 'set_modulate', 'set_visible', 'show'],
+  },
+  Node2D: { extends: 'CanvasItem' },
+  Sprite2D: { extends: 'Node2D', signals: { frame_changed: [], texture_changed: [] } },
+  AnimatedSprite2D: {
+    extends: 'Node2D',
+    signals: { animation_changed: [], animation_finished: [], animation_looped: [], frame_changed: [], sprite_frames_changed: [] },
+    methods: ['pause', 'play', 'play_backwards', 'set_frame', 'stop'],
+  },
+  AudioStreamPlayer2D: { extends: 'Node2D', signals: { finished: [] }, methods: ['play', 'set_stream_paused', 'stop'] },
+  Camera2D: { extends: 'Node2D', methods: ['make_current', 'reset_smoothing'] },
+  CanvasModulate: { extends: 'Node2D' },
+  CollisionShape2D: { extends: 'Node2D', methods: ['set_disabled'] },
+  CollisionPolygon2D: { extends: 'Node2D' },
+  CPUParticles2D: { extends: 'Node2D', signals: { finished: [] }, methods: ['restart', 'set_emitting'] },
+  GPUParticles2D: { extends: 'Node2D', signals: { finished: [] }, methods: ['restart', 'set_emitting'] },
+  Light2D: { extends: 'Node2D' },
+  PointLight2D: { extends: 'Light2D' },
+  DirectionalLight2D: { extends: 'Light2D' },
+  Line2D: { extends: 'Node2D' },
+  Marker2D: { extends: 'Node2D' },
+  NavigationRegion2D: { extends: 'Node2D', signals: { bake_finished: [], navigation_polygon_changed: [] } },
+  Parallax2D: { extends: 'Node2D' },
+  ParallaxLayer: { extends: 'Node2D' },
+  Path2D: { extends: 'Node2D' },
+  PathFollow2D: { extends: 'Node2D' },
+  Polygon2D: { extends: 'Node2D' },
+  RayCast2D: { extends: 'Node2D' },
+  RemoteTransform2D: { extends: 'Node2D' },
+  ShapeCast2D: { extends: 'Node2D' },
+  TileMap: { extends: 'Node2D', signals: { changed: [] } },
+  TileMapLayer: { extends: 'Node2D', signals: { changed: [] } },
+  VisibleOnScreenNotifier2D: { extends: 'Node2D', signals: { screen_entered: [], screen_exited: [] } },
+  VisibleOnScreenEnabler2D: { extends: 'VisibleOnScreenNotifier2D' },
+  CollisionObject2D: {
+    extends: 'Node2D',
+    signals: {
+      input_event: ['viewport: Node', 'event: InputEvent', 'shape_idx: int'],
+      mouse_entered: [],
+      mouse_exited: [],
+      mouse_shape_entered: ['shape_idx: int'],
+      mouse_shape_exited: ['shape_idx: int'],
+    },
+  },
+  Area2D: {
+    extends: 'CollisionObject2D',
+    signals: {
+      area_entered: ['area: Area2D'],
+      area_exited: ['area: Area2D'],
+      area_shape_entered: ['area_rid: RID', 'area: Area2D', 'area_shape_index: int', 'local_shape_index: int'],
+      area_shape_exited: ['area_rid: RID', 'area: Area2D', 'area_shape_index: int', 'local_shape_index: int'],
+      body_entered: ['body: Node2D'],
+      body_exited: ['body: Node2D'],
+      body_shape_entered: ['body_rid: RID', 'body: Node2D', 'body_shape_index: int', 'local_shape_index: int'],
+      body_shape_exited: ['body_rid: RID', 'body: Node2D', 'body_shape_index: int', 'local_shape_index: int'],
+    },
+  },
+  PhysicsBody2D: { extends: 'CollisionObject2D' },
+  StaticBody2D: { extends: 'PhysicsBody2D' },
+  AnimatableBody2D: { extends: 'StaticBody2D' },
+  CharacterBody2D: { extends: 'PhysicsBody2D' },
+  RigidBody2D: {
+    extends: 'PhysicsBody2D',
+    signals: {
+      body_entered: ['body: Node'],
+      body_exited: ['body: Node'],
+      body_shape_entered: ['body_rid: RID', 'body: Node', 'body_shape_index: int', 'local_shape_index: int'],
+      body_shape_exited: ['body_rid: RID', 'body: Node', 'body_shape_index: int', 'local_shape_index: int'],
+      sleeping_state_changed: [],
+    },
+  },
+
+  // 3D
+  Node3D: { extends: 'Node', signals: { visibility_changed: [] }, methods: ['hide', 'set_visible', 'show'] },
+  VisualInstance3D: { extends: 'Node3D' },
+  GeometryInstance3D: { extends: 'VisualInstance3D' },
+  MeshInstance3D: { extends: 'GeometryInstance3D' },
+  MultiMeshInstance3D: { extends: 'GeometryInstance3D' },
+  SpriteBase3D: { extends: 'GeometryInstance3D' },
+  Sprite3D: { extends: 'SpriteBase3D', signals: { frame_changed: [], texture_changed: [] } },
+  AnimatedSprite3D: {
+    extends: 'SpriteBase3D',
+    signals: { animation_changed: [], animation_finished: [], animation_looped: [], frame_changed: [], sprite_frames_changed: [] },
+    methods: ['pause', 'play', 'play_backwards', 'set_frame', 'stop'],
+  },
+  Label3D: { extends: 'GeometryInstance3D' },
+  CPUParticles3D: { extends: 'GeometryInstance3D', signals: { finished: [] }, methods: ['restart', 'set_emitting'] },
+  GPUParticles3D: { extends: 'GeometryInstance3D', signals: { finished: [] }, methods: ['restart', 'set_emitting'] },
+  Light3D: { extends: 'VisualInstance3D' },
+  DirectionalLight3D: { extends: 'Light3D' },
+  OmniLight3D: { extends: 'Light3D' },
+  SpotLight3D: { extends: 'Light3D' },
+  AudioStreamPlayer3D: { extends: 'Node3D', signals: { finished: [] }, methods: ['play', 'set_stream_paused', 'stop'] },
+  Camera3D: { extends: 'Node3D', methods: ['make_current'] },
+  CollisionShape3D: { extends: 'Node3D', methods: ['set_disabled'] },
+  CollisionPolygon3D: { extends: 'Node3D' },
+  GridMap: { extends: 'Node3D', signals: { cell_size_changed: ['cell_size: Vector3'], changed: [] } },
+  Marker3D: { extends: 'Node3D' },
+  NavigationRegion3D: { extends: 'Node3D', signals: { bake_finished: [], navigation_mesh_changed: [] } },
+  Path3D: { extends: 'Node3D', signals: { curve_changed: [] } },
+  PathFollow3D: { extends: 'Node3D' },
+  RayCast3D: { extends: 'Node3D' },
+  ShapeCast3D: { extends: 'Node3D' },
+  Skeleton3D: {
+    extends: 'Node3D',
+    signals: {
+      bone_enabled_changed: ['bone_idx: int'],
+      bone_list_changed: [],
+      pose_updated: [],
+      show_rest_only_changed: [],
+      skeleton_updated: [],
+    },
+  },
+  SpringArm3D: { extends: 'Node3D' },
+  VisibleOnScreenNotifier3D: { extends: 'VisualInstance3D', signals: { screen_entered: [], screen_exited: [] } },
+  CollisionObject3D: {
+    extends: 'Node3D',
+    signals: {
+      input_event: ['camera: Node', 'event: InputEvent', 'event_position: Vector3', 'normal: Vector3', 'shape_idx: int'],
+      mouse_entered: [],
+      mouse_exited: [],
+    },
+  },
+  Area3D: {
+    extends: 'CollisionObject3D',
+    signals: {
+      area_entered: ['area: Area3D'],
+      area_exited: ['area: Area3D'],
+      area_shape_entered: ['area_rid: RID', 'area: Area3D', 'area_shape_index: int', 'local_shape_index: int'],
+      area_shape_exited: ['area_rid: RID', 'area: Area3D', 'area_shape_index: int', 'local_shape_index: int'],
+      body_entered: ['body: Node3D'],
+      body_exited: ['body: Node3D'],
+      body_shape_entered: ['body_rid: RID', 'body: Node3D', 'body_shape_index: int', 'local_shape_index: int'],
+      body_shape_exited: ['body_rid: RID', 'body: Node3D', 'body_shape_index: int', 'local_shape_index: int'],
+    },
+  },
+  PhysicsBody3D: { extends: 'CollisionObject3D' },
+  StaticBody3D: { extends: 'PhysicsBody3D' },
+  AnimatableBody3D: { extends: 'StaticBody3D' },
+  CharacterBody3D: { extends: 'PhysicsBody3D' },
+  RigidBody3D: {
+    extends: 'PhysicsBody3D',
+    signals: {
+      body_entered: ['body: Node'],
+      body_exited: ['body: Node'],
+      body_shape_entered: ['body_rid: RID', 'body: Node', 'body_shape_index: int', 'local_shape_index: int'],
+      body_shape_exited: ['body_rid: RID', 'body: Node', 'body_shape_index: int', 'local_shape_index: int'],
+      sleeping_state_changed: [],
+    },
+  },
+  VehicleBody3D: { extends: 'RigidBody3D' },
+
+  // UI
+  Control: {
+    extends: 'CanvasItem',
+    signals: {
+      focus_entered: [],
+      focus_exited: [],
+      gui_input: ['event: InputEvent'],
+      minimum_size_changed: [],
+      mouse_entered: [],
+      mouse_exited: [],
+      resized: [],
+      size_flags_changed: [],
+      theme_changed: [],
+    },
+    methods: ['accept_event', 'grab_focus', 'release_focus', 'set_tooltip_text'],
+  },
+  BaseButton: {
+    extends: 'Control',
+    signals: { button_down: [], button_up: [], pressed: [], toggled: ['toggled_on: bool'] },
+    methods: ['set_disabled', 'set_pressed', 'set_pressed_no_signal'],
+  },
+  Button: { extends: 'BaseButton' },
+  CheckBox: { extends: 'Button' },
+  CheckButton: { extends: 'Button' },
+  ColorPickerButton: { extends: 'Button', signals: { color_changed: ['color: Color'], picker_created: [], popup_closed: [] } },
+  LinkButton: { extends: 'BaseButton' },
+  MenuButton: { extends: 'Button', signals: { about_to_popup: [] } },
+  OptionButton: { extends: 'Button', signals: { item_focused: ['index: int'], item_selected: ['index: int'] } },
+  TextureButton: { extends: 'BaseButton' },
+  Range: {
+    extends: 'Control',
+    signals: { changed: [], value_changed: ['value: float'] },
+    methods: ['set_max', 'set_min', 'set_value', 'set_value_no_signal'],
+  },
+  ProgressBar: { extends: 'Range' },
+  TextureProgressBar: { extends: 'Range' },
+  ScrollBar: { extends: 'Range', signals: { scrolling: [] } },
+  HScrollBar: { extends: 'ScrollBar' },
+  VScrollBar: { extends: 'ScrollBar' },
+  Slider: { extends: 'Range', signals: { drag_ended: ['value_changed: bool'], drag_started: [] } },
+  HSlider: { extends: 'Slider' },
+  VSlider: { extends: 'Slider' },
+  SpinBox: { extends: 'Range' },
+  Label: { extends: 'Control', methods: ['set_text'] },
+  RichTextLabel: {
+    extends: 'Control',
+    signals: { finished: [], meta_clicked: ['meta: Variant'], meta_hover_ended: ['meta: Variant'], meta_hover_started: ['meta: Variant'] },
+    methods: ['append_text', 'clear', 'set_text'],
+  },
+  LineEdit: {
+    extends: 'Control',
+    signals: {
+      editing_toggled: ['toggled_on: bool'],
+      text_change_rejected: ['rejected_substring: String'],
+      text_changed: ['new_text: String'],
+      text_submitted: ['new_text: String'],
+    },
+    methods: ['clear', 'select_all', 'set_editable', 'set_text'],
+  },
+  TextEdit: {
+    extends: 'Control',
+    signals: {
+      caret_changed: [],
+      gutter_added: [],
+      gutter_clicked: ['line: int', 'gutter: int'],
+      gutter_removed: [],
+      lines_edited_from: ['from_line: int', 'to_line: int'],
+      text_changed: [],
+      text_set: [],
+    },
+    methods: ['clear', 'select_all', 'set_editable', 'set_text'],
+  },
+  CodeEdit: { extends: 'TextEdit' },
+  ColorRect: { extends: 'Control' },
+  NinePatchRect: { extends: 'Control', signals: { texture_changed: [] } },
+  Panel: { extends: 'Control' },
+  ReferenceRect: { extends: 'Control' },
+  Separator: { extends: 'Control' },
+  HSeparator: { extends: 'Separator' },
+  VSeparator: { extends: 'Separator' },
+  TextureRect: { extends: 'Control' },
+  VideoStreamPlayer: { extends: 'Control', signals: { finished: [] }, methods: ['play', 'set_paused', 'stop'] },
+  ItemList: {
+    extends: 'Control',
+    signals: {
+      empty_clicked: ['at_position: Vector2', 'mouse_button_index: int'],
+      item_activated: ['index: int'],
+      item_clicked: ['index: int', 'at_position: Vector2', 'mouse_button_index: int'],
+      item_selected: ['index: int'],
+      multi_selected: ['index: int', 'selected: bool'],
+    },
+  },
+  Tree: {
+    extends: 'Control',
+    signals: {
+      cell_selected: [],
+      item_activated: [],
+      item_collapsed: ['item: TreeItem'],
+      item_edited: [],
+      item_selected: [],
+      multi_selected: ['item: TreeItem', 'column: int', 'selected: bool'],
+      nothing_selected: [],
+    },
+  },
+  TabBar: {
+    extends: 'Control',
+    signals: { tab_changed: ['tab: int'], tab_clicked: ['tab: int'], tab_close_pressed: ['tab: int'], tab_selected: ['tab: int'] },
+  },
+  Container: { extends: 'Control', signals: { pre_sort_children: [], sort_children: [] } },
+  AspectRatioContainer: { extends: 'Container' },
+  BoxContainer: { extends: 'Container' },
+  HBoxContainer: { extends: 'BoxContainer' },
+  VBoxContainer: { extends: 'BoxContainer' },
+  CenterContainer: { extends: 'Container' },
+  FlowContainer: { extends: 'Container' },
+  HFlowContainer: { extends: 'FlowContainer' },
+  VFlowContainer: { extends: 'FlowContainer' },
+  GridContainer: { extends: 'Container' },
+  MarginContainer: { extends: 'Container' },
+  PanelContainer: { extends: 'Container' },
+  ScrollContainer: { extends: 'Container', signals: { scroll_ended: [], scroll_started: [] } },
+  SplitContainer: { extends: 'Container', signals: { dragged: ['offset: int'] } },
+  HSplitContainer: { extends: 'SplitContainer' },
+  VSplitContainer: { extends: 'SplitContainer' },
+  SubViewportContainer: { extends: 'Container' },
+  TabContainer: {
+    extends: 'Container',
+    signals: { tab_button_pressed: ['tab: int'], tab_changed: ['tab: int'], tab_clicked: ['tab: int'], tab_selected: ['tab: int'] },
+  },
+
+  // Resources
+  Texture: { extends: 'Resource' },
+  Texture2D: { extends: 'Texture' },
+  CompressedTexture2D: { extends: 'Texture2D' },
+  ImageTexture: { extends: 'Texture2D' },
+  AtlasTexture: { extends: 'Texture2D' },
+  PackedScene: { extends: 'Resource' },
+  Script: { extends: 'Resource' },
+  GDScript: { extends: 'Script' },
+  CSharpScript: { extends: 'Script' },
+  Shader: { extends: 'Resource' },
+  Material: { extends: 'Resource' },
+  ShaderMaterial: { extends: 'Material' },
+  CanvasItemMaterial: { extends: 'Material' },
+  StandardMaterial3D: { extends: 'Material' },
+  Mesh: { extends: 'Resource' },
+  ArrayMesh: { extends: 'Mesh' },
+  Font: { extends: 'Resource' },
+  FontFile: { extends: 'Font' },
+  Theme: { extends: 'Resource' },
+  StyleBox: { extends: 'Resource' },
+  StyleBoxFlat: { extends: 'StyleBox' },
+  StyleBoxTexture: { extends: 'StyleBox' },
+  AudioStream: { extends: 'Resource' },
+  Animation: { extends: 'Resource' },
+  AnimationLibrary: { extends: 'Resource' },
+  SpriteFrames: { extends: 'Resource' },
+  TileSet: { extends: 'Resource' },
+  Curve: { extends: 'Resource', signals: { range_changed: [] } },
+  Gradient: { extends: 'Resource' },
+  Environment: { extends: 'Resource' },
+  Shape2D: { extends: 'Resource' },
+  CircleShape2D: { extends: 'Shape2D' },
+  RectangleShape2D: { extends: 'Shape2D' },
+  CapsuleShape2D: { extends: 'Shape2D' },
+  Shape3D: { extends: 'Resource' },
+  BoxShape3D: { extends: 'Shape3D' },
+  SphereShape3D: { extends: 'Shape3D' },
+  CapsuleShape3D: { extends: 'Shape3D' },
+  InputEvent: { extends: 'Resource' },
+  Tween: { extends: 'RefCounted', signals: { finished: [], loop_finished: ['loop_count: int'], step_finished: ['idx: int'] } },
+  SceneTree: { extends: 'Object', signals: { node_added: ['node: Node'], node_removed: ['node: Node'], process_frame: [], physics_frame: [], tree_changed: [] } },
+};
+
+export function isEngineClass(name: string | undefined): boolean {
+  return name !== undefined && Object.prototype.hasOwnProperty.call(ENGINE_CLASSES, name);
+}
+
+/**
+ * The class followed by its ancestors, e.g. Button -> BaseButton -> Control -> CanvasItem -> Node -> Object.
+ */
+export function getEngineAncestors(name: string): string[] {
+  const chain: string[] = [];
+  let current: string | undefined = name;
+  while (current && isEngineClass(current) && !chain.includes(current)) {
+    chain.push(current);
+    current = ENGINE_CLASSES[current].extends;
+  }
+  return chain;
+}
+
+/**
+ * Whether the class or one of its ancestors has the method. Only methods listed in the table are known.
+ */
+export function hasEngineMethod(className: string, method: string): boolean {
+  return getEngineAncestors(className).some(name => ENGINE_CLASSES[name].methods?.includes(method));
+}
+
+/**
+ * Parameters of a signal declared on the class or one of its ancestors, or undefined if it has none by that name.
+ */
+export function getEngineSignal(className: string, signal: string): string[] | undefined {
+  for (const name of getEngineAncestors(className)) {
+    const signals = ENGINE_CLASSES[name].signals;
+    if (signals && Object.prototype.hasOwnProperty.call(signals, signal)) return signals[signal];
+  }
+  return undefined;
+}
@@ -0,0 +1,345 @@
+/**
+ * Indentation-aware tokenizer for GDScript 2.0.
+ *
+ * Produces a flat token stream with NEWLINE / INDENT / DEDENT tokens the way
+ * Godot's own tokenizer does: newlines inside brackets and after a trailing
+ * backslash are ignored, and blank or comment-only lines never change the
+ * indentation level. Comments are collected separately so `##` doc comments
+ * can be attached to declarations.
+ */
+
+export type GDScriptTokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'stringName'
+  | 'nodePath'
+  | 'nodeRef'
+  | 'annotation'
+  | 'operator'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'eof';
+
+export interface GDScriptToken {
+  type: GDScriptTokenType;
+  value: string;
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+}
+
+export interface GDScriptComment {
+  text: string;
+  line: number;
+  doc: boolean;
+  ownLine: boolean;
+}
+
+export interface GDScriptLexResult {
+  tokens: GDScriptToken[];
+  comments: GDScriptComment[];
+}
+
+export const GDSCRIPT_KEYWORDS = new Set([
+  'if', 'elif', 'else', 'for', 'while', 'match', 'when', 'break', 'continue', 'pass', 'return',
+  'class', 'class_name', 'extends', 'is', 'in', 'as', 'self', 'super', 'signal', 'func', 'static',
+  'const', 'enum', 'var', 'breakpoint', 'preload', 'await', 'yield', 'assert', 'void',
+  'not', 'and', 'or', 'true', 'false', 'null', 'PI', 'TAU', 'INF', 'NAN',
+]);
+
+// Longest operators first so that e.g. `**=` wins over `**` and `*`
+const OPERATORS = [
+  '**=', '<<=', '>>=',
+  '**', '<<', '>>', '==', '!=', '<=', '>=', '&&', '||', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '->', ':=',
+  '+', '-', '*', '/', '%', '<', '>', '=', '!', '&', '|', '^', '~', '(', ')', '[', ']', '{', '}', ',', ':', '.', ';',
+];
+
+const TAB_WIDTH = 4;
+
+class GDScriptLexer {
+  private pos = 0;
+  private line = 1;
+  private lineStart = 0;
+  private bracketDepth = 0;
+  private indentStack: number[] = [0];
+  private tokens: GDScriptToken[] = [];
+  private comments: GDScriptComment[] = [];
+  private lineHasTokens = false;
+
+  constructor(private source: string) {}
+
+  tokenize(): GDScriptLexResult {
+    let atLineStart = true;
+
+    while (this.pos < this.source.length) {
+      if (atLineStart) {
+        atLineStart = false;
+        if (this.bracketDepth === 0) {
+          this.handleIndentation();
+          continue;
+        }
+      }
+
+      const ch = this.source[this.pos];
+
+      if (ch === '\n') {
+        this.newLine();
+        atLineStart = true;
+        continue;
+      }
+
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\uFEFF') {
+        this.pos++;
+        continue;
+      }
+
+      if (ch === '\\' && /^\\[ \t]*\r?\n/.test(this.source.slice(this.pos, this.pos + 64))) {
+        // Line continuation: skip to the next line without ending the statement
+        while (this.source[this.pos] !== '\n') this.pos++;
+        this.pos++;
+        this.line++;
+        this.lineStart = this.pos;
+        continue;
+      }
+
+      if (ch === '#') {
+        this.readComment();
+        continue;
+      }
+
+      this.readToken();
+    }
+
+    if (this.lineHasTokens) {
+      this.push('newline', '', this.pos, this.pos);
+    }
+    while (this.indentStack.length > 1) {
+      this.indentStack.pop();
+      this.push('dedent', '', this.pos, this.pos);
+    }
+    this.push('eof', '', this.pos, this.pos);
+
+    return { tokens: this.tokens, comments: this.comments };
+  }
+
+  private newLine(): void {
+    if (this.bracketDepth === 0 && this.lineHasTokens) {
+      this.push('newline', '', this.pos, this.pos);
+      this.lineHasTokens = false;
+    }
+    this.pos++;
+    this.line++;
+    this.lineStart = this.pos;
+  }
+
+  private handleIndentation(): void {
+    let width = 0;
+    let end = this.pos;
+    while (end < this.source.length && (this.source[end] === ' ' || this.source[end] === '\t')) {
+      width += this.source[end] === '\t' ? TAB_WIDTH : 1;
+      end++;
+    }
+    this.pos = end;
+
+    // Blank and comment-only lines don't affect indentation
+    const next = this.source[end];
+    if (next === undefined || next === '\n' || next === '\r' || next === '#') {
+      return;
+    }
+
+    const current = this.indentStack[this.indentStack.length - 1];
+    if (width > current) {
+      this.indentStack.push(width);
+      this.push('indent', '', this.pos, this.pos);
+    } else {
+      while (width < this.indentStack[this.indentStack.length - 1]) {
+        this.indentStack.pop();
+        this.push('dedent', '', this.pos, this.pos);
+      }
+    }
+  }
+
+  private readComment(): void {
+    const start = this.pos;
+    while (this.pos < this.source.length && this.source[this.pos] !== '\n') {
+      this.pos++;
+    }
+    const text = this.source.slice(start, this.pos).replace(/\r$/, '');
+    this.comments.push({
+      text,
+      line: this.line,
+      doc: text.startsWith('##'),
+      ownLine: this.source.slice(this.lineStart, start).trim() === '',
+    });
+  }
+
+  private readToken(): void {
+    const start = this.pos;
+    const ch = this.source[this.pos];
+    const rest = this.source.slice(this.pos, this.pos + 256);
+
+    // Strings, including raw (r"..."), StringName (&"...") and NodePath (^"...") literals
+    const stringPrefix = /^([r&^]?)("""|'''|"|')/.exec(rest);
+    if (stringPrefix) {
+      const prefix = stringPrefix[1];
+      this.pos += prefix.length;
+      const value = this.readString(stringPrefix[2], prefix === 'r');
+      const type = prefix === '&' ? 'stringName' : prefix === '^' ? 'nodePath' : 'string';
+      this.push(type, value, start, this.pos);
+      return;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(this.source[this.pos + 1] ?? ''))) {
+      const match = /^(0x[0-9a-fA-F_]+|0b[01_]+|(\d[\d_]*)?\.?[\d_]*([eE][+-]?\d+)?)/.exec(rest)!;
+      this.pos += match[0].length;
+      this.push('number', match[0], start, this.pos);
+      return;
+    }
+
+    if (/[A-Za-z_]/.test(ch) || ch.charCodeAt(0) > 127) {
+      const match = /^[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\u0080-\uFFFF]*/.exec(rest)!;
+      this.pos += match[0].length;
+      this.push(GDSCRIPT_KEYWORDS.has(match[0]) ? 'keyword' : 'identifier', match[0], start, this.pos);
+      return;
+    }
+
+    if (ch === '@') {
+      const match = /^@[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+      if (match) {
+        this.pos += match[0].length;
+        this.push('annotation', match[0].slice(1), start, this.pos);
+        return;
+      }
+    }
+
+    if (ch === '$' || (ch === '%' && !this.previousIsOperand())) {
+      this.readNodeRef();
+      return;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (!operator) {
+      // Unknown character: skip it rather than failing the whole file
+      this.pos++;
+      return;
+    }
+
+    if ('([{'.includes(operator)) this.bracketDepth++;
+    if (')]}'.includes(operator)) this.bracketDepth = Math.max(0, this.bracketDepth - 1);
+    this.pos += operator.length;
+    this.push('operator', operator, start, this.pos);
+  }
+
+  private readString(quote: string, raw: boolean): string {
+    this.pos += quote.length;
+    let value = '';
+
+    while (this.pos < this.source.length) {
+      if (this.source.startsWith(quote, this.pos)) {
+        this.pos += quote.length;
+        return value;
+      }
+
+      const ch = this.source[this.pos];
+      if (ch === '\n') {
+        if (quote.length === 1) {
+          // Unterminated single-line string; stop at the end of the line
+          return value;
+        }
+        this.line++;
+        this.lineStart = this.pos + 1;
+      }
+
+      if (ch === '\\' && !raw) {
+        const escaped = this.source[this.pos + 1] ?? '';
+        this.pos += 2;
+        switch (escaped) {
+          case 'n': value += '\n'; break;
+          case 't': value += '\t'; break;
+          case 'r': value += '\r'; break;
+          case '\n':
+            this.line++;
+            this.lineStart = this.pos;
+            break;
+          default: value += escaped;
+        }
+        continue;
+      }
+
+      value += ch;
+      this.pos++;
+    }
+
+    return value;
+  }
+
+  private readNodeRef(): void {
+    // $Path/To/Node, $"Quoted Path", $%Unique, %Unique, %"Quoted Unique"
+    const start = this.pos;
+    let prefix = '';
+    if (this.source[this.pos] === '$') {
+      this.pos++;
+    } else {
+      prefix = '%';
+      this.pos++;
+    }
+
+    let value: string;
+    const quote = this.source[this.pos];
+    if (quote === '"' || quote === "'") {
+      value = prefix + this.readString(quote, false);
+    } else {
+      // A dot starts a member access ($Player.position), it is not part of the path
+      const match = /^[A-Za-z0-9_/%]*/.exec(this.source.slice(this.pos, this.pos + 256))!;
+      this.pos += match[0].length;
+      value = prefix + match[0];
+    }
+
+    this.push('nodeRef', value, start, this.pos);
+  }
+
+  private previousIsOperand(): boolean {
+    const previous = this.tokens[this.tokens.length - 1];
+    if (!previous || previous.line !== this.line) return false;
+    if (previous.type === 'operator') return ')]}'.includes(previous.value);
+    if (previous.type === 'keyword') return ['self', 'true', 'false', 'null', 'PI', 'TAU', 'INF', 'NAN'].includes(previous.value);
+    return !['newline', 'indent', 'dedent', 'annotation'].includes(previous.type);
+  }
+
+  private push(type: GDScriptTokenType, value: string, start: number, end: number): void {
+    this.tokens.push({
+      type,
+      value,
+      line: this.lineOf(start),
+      column: start - this.lineStartOf(start) + 1,
+      start,
+      end,
+    });
+    if (type !== 'newline' && type !== 'indent' && type !== 'dedent' && type !== 'eof') {
+      this.lineHasTokens = true;
+    }
+  }
+
+  private lineOf(offset: number): number {
+    // Tokens are pushed right after being read, so only multi-line strings can
+    // end on a later line than they start; count back from the current line.
+    let line = this.line;
+    for (let i = offset; i < this.pos; i++) {
+      if (this.source[i] === '\n') line--;
+    }
+    return line;
+  }
+
+  private lineStartOf(offset: number): number {
+    const index = this.source.lastIndexOf('\n', offset - 1);
+    return index + 1;
+  }
+}
+
+export function tokenizeGDScript(source: string): GDScriptLexResult {
+  return new GDScriptLexer(source).tokenize();
+}
@@ -0,0 +1,202 @@
+import { GDScriptLintConfig, lintGDScript } from './gdscript-linter.js';
+
+function lint(lines: string[], config?: GDScriptLintConfig) {
+  return lintGDScript(lines.join('\n') + '\n', config).map(issue => ({ rule: issue.rule, line: issue.line, message: issue.message }));
+}
+
+function findRules(lines: string[], config?: GDScriptLintConfig): [string, number][] {
+  return lint(lines, config).map(issue => [issue.rule, issue.line]);
+}
+
+describe('lintGDScript', () => {
+  it('accepts a clean script', () => {
+    expect(lint([
+      'class_name Player',
+      'extends CharacterBody2D',
+      '',
+      'signal health_changed(value)',
+      '',
+      'const MAX_HEALTH = 100',
+      'enum State { IDLE, RUNNING }',
+      '',
+      'var health: int = MAX_HEALTH',
+      '',
+      'func take_damage(amount: int) -> void:',
+      '\tvar remaining := health - amount',
+      '\tfor _i in range(2):',
+      '\t\tif remaining < 0:',
+      '\t\t\tremaining = 0',
+      '\t\telse:',
+      '\t\t\tbreak',
+      '\thealth = remaining',
+      '\thealth_changed.emit(health)',
+    ])).toEqual([]);
+  });
+
+  describe('missing-colon', () => {
+    it('reports block statements without a colon', () => {
+      expect(lint([
+        'func _ready()',
+        '\tif true',
+        '\t\tpass',
+      ])).toEqual([
+        { rule: 'missing-colon', line: 1, message: 'Missing colon after func statement' },
+        { rule: 'missing-colon', line: 2, message: 'Missing colon after if statement' },
+      ]);
+    });
+
+    it('reports the header line when the body spans several lines', () => {
+      expect(findRules([
+        'func move(direction: Vector2,',
+        '\t\tspeed: float)',
+        '\tvar velocity := direction * speed',
+        '\tprint(velocity)',
+        '\tprint(speed)',
+      ])).toEqual([['missing-colon', 2]]);
+    });
+
+    it('accepts multi-line signatures and abstract functions', () => {
+      expect(findRules([
+        '@abstract',
+        'class_name Shape',
+        '',
+        'func area(',
+        '\t\twidth: float,',
+        '\t\theight: float) -> float:',
+        '\treturn width * height',
+        '',
+        '@abstract func describe() -> String',
+      ])).toEqual([]);
+    });
+  });
+
+  it('checks names against the style guide', () => {
+    expect(lint([
+      'class_name player_controller',
+      'signal HealthChanged',
+      'const maxHealth = 10',
+      'enum state { idle }',
+      'var Speed = 1',
+      'func DoThing():',
+      '\tpass',
+    ]).map(issue => issue.message)).toEqual([
+      'Class name player_controller does not match ^[A-Z][A-Za-z0-9]*$',
+      'Signal name HealthChanged does not match ^[a-z][a-z0-9]*(_[a-z0-9]+)*$',
+      'Constant name maxHealth does not match ^_?[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$|^[A-Z][A-Za-z0-9]*$',
+      'Enum name state does not match ^[A-Z][A-Za-z0-9]*$',
+      'Enum value name idle does not match ^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$',
+      'Variable name Speed does not match ^_{0,2}[a-z][a-z0-9]*(_[a-z0-9]+)*$',
+      'Function name DoThing does not match ^_{0,2}[a-z][a-z0-9]*(_[a-z0-9]+)*$',
+    ]);
+  });
+
+  it('reports unused locals and parameters unless prefixed with _', () => {
+    expect(lint([
+      'func attack(target, _source, power):',
+      '\tvar damage = power * 2',
+      '\tvar _unused = 0',
+      '\tvar label = "hit"',
+      '\tprint(label.length())',
+      '\treturn damage',
+    ])).toEqual([
+      { rule: 'unused-parameter', line: 1, message: 'Parameter target of attack is never used' },
+    ]);
+
+    expect(findRules([
+      'func run():',
+      '\tvar speed = 1',
+      '\tvar other = 2',
+      '\tprint(other)',
+    ])).toEqual([['unused-variable', 2]]);
+  });
+
+  it('reports locals that shadow members or outer locals', () => {
+    expect(lint([
+      'var speed = 1',
+      '',
+      'func run(speed):',
+      '\tvar count = speed',
+      '\tfor count in range(3):',
+      '\t\tprint(count)',
+    ]).map(issue => issue.message)).toEqual([
+      'Parameter speed shadows the member variable of the same name',
+      'Loop variable count shadows the local variable declared on line 4',
+    ]);
+  });
+
+  it('reports indentation that mixes tabs and spaces', () => {
+    expect(lint([
+      'func run():',
+      '\tif true:',
+      '\t    pass',
+      'func stop():',
+      '    pass',
+    ]).map(issue => [issue.line, issue.message])).toEqual([
+      [3, 'Indentation mixes tabs and spaces'],
+      [5, 'Indented with spaces, but the file is indented with tabs'],
+    ]);
+  });
+
+  it('measures lines with tabs expanded', () => {
+    const line = `\tprint("${'x'.repeat(88)}")`;
+    expect(lint(['func run():', line]).map(issue => issue.message)).toEqual(['Line is 101 characters long (max 100)']);
+    expect(findRules(['func run():', line], { rules: { 'max-line-length': { tabWidth: 2 } } })).toEqual([]);
+  });
+
+  it('reports long functions', () => {
+    const body = Array.from({ length: 5 }, (_, index) => `\tprint(${index})`);
+    const config: GDScriptLintConfig = { rules: { 'max-function-length': { max: 5 } } };
+
+    expect(lint(['func run():', ...body], config).map(issue => issue.message)).toEqual(['Function run is 6 lines long (max 5)']);
+    expect(findRules(['func run():', ...body.slice(1)], config)).toEqual([]);
+  });
+
+  it('reports the first statement after a jump', () => {
+    expect(lint([
+      'func run(items):',
+      '\tfor item in items:',
+      '\t\tcontinue',
+      '\t\tprint(item)',
+      '\treturn',
+      '\tprint("done")',
+      '\tprint("again")',
+    ]).map(issue => [issue.line, issue.message])).toEqual([
+      [4, 'Unreachable code after continue on line 3'],
+      [6, 'Unreachable code after return on line 5'],
+    ]);
+  });
+
+  it('reports null comparisons on value types', () => {
+    expect(lint([
+      'var position: Vector2',
+      'var target: Node',
+      '',
+      'func check(count: int, items: Array[int]):',
+      '\tvar label: String = ""',
+      '\tif count == null or items != null or label == null:',
+      '\t\tpass',
+      '\tif target == null or position.x == null:',
+      '\t\tpass',
+    ]).map(issue => issue.message)).toEqual([
+      'count has type int and can never be null, so == null is always false',
+      'items has type Array[int] and can never be null, so != null is always true',
+      'label has type String and can never be null, so == null is always false',
+    ]);
+  });
+
+  it('applies configured severities and patterns', () => {
+    const source = ['func DoThing(unused):', '\tpass'];
+
+    expect(lintGDScript(source.join('\n'), {
+      rules: {
+        'unused-parameter': 'off',
+        'naming-convention': { severity: 'error', function: '^[A-Z][A-Za-z]*$' },
+      },
+    })).toEqual([]);
+
+    expect(lintGDScript(source.join('\n'), { rules: { 'unused-parameter': 'error' } })).toEqual([
+      { rule: 'naming-convention', severity: 'warning', message: expect.stringContaining('DoThing'), line: 1 },
+      { rule: 'unused-parameter', severity: 'error', message: 'Parameter unused of DoThing is never used', line: 1 },
+    ]);
+  });
+});
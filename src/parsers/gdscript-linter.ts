@@ -0,0 +1,416 @@
+import { GDScriptToken } from './gdscript-lexer.js';
+import {
+  GDScriptAST,
+  GDScriptClassNode,
+  GDScriptFunctionNode,
+  GDScriptStatement,
+  GDScriptStatementKind,
+  parseGDScript,
+  tokensToText,
+  findTopLevel,
+} from './gdscript-parser.js';
+
+/**
+ * Rule-based linter for GDScript 2.0.
+ *
+ * Works on the parser's statement tree and token stream, so multi-line
+ * signatures, inline bodies and lambdas are seen the way Godot sees them.
+ * Every rule has an id, a default severity and options that a project can
+ * override; rules set to "off" are skipped.
+ */
+
+export type GDScriptLintSeverity = 'error' | 'warning';
+
+export interface GDScriptLintIssue {
+  rule: string;
+  severity: GDScriptLintSeverity;
+  message: string;
+  line: number;
+}
+
+export type GDScriptLintRuleSetting = GDScriptLintSeverity | 'off' | ({ severity?: GDScriptLintSeverity | 'off' } & Record<string, any>);
+
+export interface GDScriptLintConfig {
+  rules?: Record<string, GDScriptLintRuleSetting>;
+  // Glob patterns of scripts not to lint, relative to the project
+  ignore?: string[];
+}
+
+export interface GDScriptLintRule {
+  severity: GDScriptLintSeverity;
+  description: string;
+  options?: Record<string, any>;
+}
+
+export const GDSCRIPT_LINT_RULES: Record<string, GDScriptLintRule> = {
+  'missing-colon': {
+    severity: 'error',
+    description: 'Block statements (func, if, for, class, ...) must end with a colon',
+  },
+  'naming-convention': {
+    severity: 'warning',
+    description: 'Names follow the GDScript style guide; each pattern can be replaced with a regular expression',
+    options: {
+      class: '^[A-Z][A-Za-z0-9]*$',
+      function: '^_{0,2}[a-z][a-z0-9]*(_[a-z0-9]+)*$',
+      signal: '^[a-z][a-z0-9]*(_[a-z0-9]+)*$',
+      variable: '^_{0,2}[a-z][a-z0-9]*(_[a-z0-9]+)*$',
+      // Constants holding a preloaded class are named like classes
+      constant: '^_?[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$|^[A-Z][A-Za-z0-9]*$',
+      enum: '^[A-Z][A-Za-z0-9]*$',
+      enumValue: '^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$',
+    },
+  },
+  'unused-variable': {
+    severity: 'warning',
+    description: 'Local variables that are never used; prefix the name with _ to keep one',
+  },
+  'unused-parameter': {
+    severity: 'warning',
+    description: 'Function parameters that are never used; prefix the name with _ to keep one',
+  },
+  'shadowed-variable': {
+    severity: 'warning',
+    description: 'Locals and parameters that hide a member variable or constant, or a local of an enclosing block',
+  },
+  'mixed-indentation': {
+    severity: 'warning',
+    description: 'Indentation that mixes tabs and spaces, or differs from the indentation the file starts with',
+  },
+  'max-line-length': {
+    severity: 'warning',
+    description: 'Lines longer than max characters, with tabs counted as tabWidth',
+    options: { max: 100, tabWidth: 4 },
+  },
+  'max-function-length': {
+    severity: 'warning',
+    description: 'Functions longer than max lines',
+    options: { max: 50 },
+  },
+  'unreachable-code': {
+    severity: 'warning',
+    description: 'Statements after return, break or continue in the same block',
+  },
+  'null-comparison': {
+    severity: 'warning',
+    description: 'Comparisons to null with == or != on variables of a value type, which can never be null',
+  },
+};
+
+const BLOCK_KINDS = new Set<GDScriptStatementKind>([
+  'func', 'class', 'if', 'elif', 'else', 'for', 'while', 'match', 'branch', 'set', 'get',
+]);
+
+const JUMP_KINDS = new Set<GDScriptStatementKind>(['return', 'break', 'continue']);
+
+// Built-in types whose values are never null
+const VALUE_TYPES = new Set([
+  'bool', 'int', 'float', 'String', 'StringName', 'NodePath', 'Vector2', 'Vector2i', 'Vector3', 'Vector3i',
+  'Vector4', 'Vector4i', 'Rect2', 'Rect2i', 'Transform2D', 'Transform3D', 'Plane', 'Quaternion', 'AABB',
+  'Basis', 'Projection', 'Color', 'RID', 'Callable', 'Signal', 'Dictionary', 'Array',
+]);
+
+interface LocalDeclaration {
+  name: string;
+  token: GDScriptToken;
+  kind: 'variable' | 'parameter' | 'iterator' | 'binding';
+  // Last line of the block the declaration is visible in
+  endLine: number;
+}
+
+class GDScriptLinter {
+  private ast: GDScriptAST;
+  private lines: string[];
+  private issues: GDScriptLintIssue[] = [];
+
+  constructor(private source: string, private config: GDScriptLintConfig) {
+    this.ast = parseGDScript(source);
+    this.lines = source.split('\n');
+  }
+
+  lint(): GDScriptLintIssue[] {
+    this.checkBlocks(this.ast.statements);
+    this.checkClass(this.ast.root);
+    this.checkIndentation();
+    this.checkLineLength();
+
+    return this.issues.sort((a, b) => a.line - b.line);
+  }
+
+  // Rule settings
+
+  private getSeverity(rule: string): GDScriptLintSeverity | undefined {
+    const setting = this.config.rules?.[rule];
+    const severity = typeof setting === 'object' ? setting.severity : setting;
+    if (severity === 'off') return undefined;
+    return severity || GDSCRIPT_LINT_RULES[rule].severity;
+  }
+
+  private getOption(rule: string, option: string): any {
+    const setting = this.config.rules?.[rule];
+    if (typeof setting === 'object' && setting[option] !== undefined) return setting[option];
+    return GDSCRIPT_LINT_RULES[rule].options?.[option];
+  }
+
+  private report(rule: string, line: number, message: string): void {
+    const severity = this.getSeverity(rule);
+    if (severity) {
+      this.issues.push({ rule, severity, message, line });
+    }
+  }
+
+  // Statement blocks: colons and unreachable code
+
+  private checkBlocks(statements: GDScriptStatement[]): void {
+    // Only the first unreachable statement of a block is reported
+    const jump = statements.find(statement => JUMP_KINDS.has(statement.kind));
+    const unreachable = jump && statements[statements.indexOf(jump) + 1];
+    if (jump && unreachable) {
+      this.report('unreachable-code', unreachable.line, `Unreachable code after ${jump.tokens[0].value} on line ${jump.line}`);
+    }
+
+    statements.forEach((statement, index) => {
+      if (BLOCK_KINDS.has(statement.kind) && !this.hasBlockColon(statement, statements[index - 1])) {
+        // The colon belongs after the header, which ends before the body
+        const header = statement.tokens[statement.tokens.length - 1];
+        this.report('missing-colon', header?.line ?? statement.line, `Missing colon after ${statement.tokens[0]?.value || statement.kind} statement`);
+      }
+      this.checkBlocks(statement.body);
+    });
+  }
+
+  private hasBlockColon(statement: GDScriptStatement, previous: GDScriptStatement | undefined): boolean {
+    const last = statement.tokens[statement.tokens.length - 1];
+    if (!last) return true;
+    // The parser leaves the colon out of the header tokens when it finds one
+    if (/^[ \t]*:/.test(this.source.slice(last.end))) return true;
+
+    // Abstract functions have no body
+    const annotations = [...statement.annotations, ...(previous?.kind === 'annotation' ? previous.annotations : [])];
+    return statement.kind === 'func' && annotations.some(a => a.name === 'abstract');
+  }
+
+  // Declarations
+
+  private checkClass(classNode: GDScriptClassNode): void {
+    const members = new Map<string, string>();
+    const typedMembers = new Map<string, string>();
+    for (const member of classNode.members) {
+      if (member.kind === 'var' || member.kind === 'const') {
+        members.set(member.name, member.kind === 'const' ? 'constant' : 'member variable');
+        if (member.type) typedMembers.set(member.name, member.type);
+      }
+    }
+
+    if (classNode.className) {
+      const declaration = this.ast.statements.find(statement => statement.kind === 'class_name');
+      this.checkName('class', classNode.className, declaration?.line || classNode.line);
+    }
+    if (classNode.kind === 'class' && classNode.name) this.checkName('class', classNode.name, classNode.line);
+
+    for (const member of classNode.members) {
+      switch (member.kind) {
+        case 'var':
+          this.checkName('variable', member.name, member.line);
+          for (const accessor of member.accessors) {
+            this.checkFunction(accessor, members, typedMembers);
+          }
+          break;
+        case 'const':
+          this.checkName('constant', member.name, member.line);
+          break;
+        case 'signal':
+          this.checkName('signal', member.name, member.line);
+          break;
+        case 'enum':
+          if (member.name) this.checkName('enum', member.name, member.line);
+          for (const value of member.values) {
+            this.checkName('enumValue', value.name, member.line);
+          }
+          break;
+        case 'func':
+          this.checkName('function', member.name, member.line);
+          this.checkFunction(member, members, typedMembers);
+          break;
+        case 'class':
+          this.checkClass(member);
+          break;
+      }
+    }
+  }
+
+  private checkName(kind: string, name: string, line: number): void {
+    const pattern = this.getOption('naming-convention', kind);
+    if (!name || !pattern || new RegExp(pattern).test(name)) return;
+    const label = kind === 'enumValue' ? 'enum value' : kind;
+    this.report('naming-convention', line, `${label[0].toUpperCase()}${label.slice(1)} name ${name} does not match ${pattern}`);
+  }
+
+  private checkFunction(func: GDScriptFunctionNode, members: Map<string, string>, typedMembers: Map<string, string>): void {
+    const maxLength = this.getOption('max-function-length', 'max');
+    const length = func.endLine - func.line + 1;
+    if (length > maxLength) {
+      this.report('max-function-length', func.line, `Function ${func.name} is ${length} lines long (max ${maxLength})`);
+    }
+
+    // Tokens after the header, including an inline body
+    const header = func.statement.tokens;
+    const bodyStart = header.length > 0 ? header[header.length - 1].end : 0;
+    const tokens = this.ast.tokens.filter(t => t.start >= bodyStart && t.line <= func.endLine && t.type !== 'eof');
+
+    const parameters: LocalDeclaration[] = [];
+    const types = new Map(typedMembers);
+    const open = header.findIndex(t => t.value === '(');
+    for (const parameter of func.parameters) {
+      const token = header.find((t, i) => i > open && t.type === 'identifier' && t.value === parameter.name && t.line === parameter.line);
+      if (!token) continue;
+      parameters.push({ name: parameter.name, token, kind: 'parameter', endLine: func.endLine });
+      this.checkName('variable', parameter.name, parameter.line);
+      if (parameter.type) types.set(parameter.name, parameter.type);
+      else types.delete(parameter.name);
+    }
+
+    for (const parameter of parameters) {
+      this.checkShadowing(parameter, members, []);
+      if (!parameter.name.startsWith('_') && !this.isUsed(parameter, tokens)) {
+        this.report('unused-parameter', parameter.token.line, `Parameter ${parameter.name} of ${func.name} is never used`);
+      }
+    }
+
+    this.checkLocals(func.body, func.endLine, [parameters], members, types, tokens);
+    this.checkNullComparisons(tokens, types);
+  }
+
+  private checkLocals(
+    statements: GDScriptStatement[],
+    endLine: number,
+    scopes: LocalDeclaration[][],
+    members: Map<string, string>,
+    types: Map<string, string>,
+    tokens: GDScriptToken[]
+  ): void {
+    const scope: LocalDeclaration[] = [];
+    const visible = [...scopes, scope];
+
+    for (const statement of statements) {
+      let nested: LocalDeclaration[] = [];
+
+      if ((statement.kind === 'var' || statement.kind === 'const') && statement.tokens[1]?.type === 'identifier') {
+        const local: LocalDeclaration = { name: statement.tokens[1].value, token: statement.tokens[1], kind: 'variable', endLine };
+        this.checkName(statement.kind === 'const' ? 'constant' : 'variable', local.name, statement.line);
+        this.checkShadowing(local, members, visible);
+        if (!local.name.startsWith('_') && !this.isUsed(local, tokens)) {
+          this.report('unused-variable', statement.line, `Local ${statement.kind === 'const' ? 'constant' : 'variable'} ${local.name} is never used`);
+        }
+        scope.push(local);
+
+        // Parse: var name: Type = value
+        const type = statement.tokens[2]?.value === ':'
+          ? tokensToText(this.source, statement.tokens.slice(3, this.findAssignment(statement.tokens)))
+          : undefined;
+        if (type) types.set(local.name, type);
+        else types.delete(local.name);
+      } else if (statement.kind === 'for' && statement.tokens[1]?.type === 'identifier') {
+        nested = [{ name: statement.tokens[1].value, token: statement.tokens[1], kind: 'iterator', endLine: statement.endLine }];
+      } else if (statement.kind === 'branch') {
+        // Pattern bindings: [var x, var y]
+        nested = statement.tokens
+          .filter((t, i) => t.type === 'identifier' && statement.tokens[i - 1]?.value === 'var')
+          .map(token => ({ name: token.value, token, kind: 'binding' as const, endLine: statement.endLine }));
+      }
+
+      for (const declaration of nested) {
+        this.checkShadowing(declaration, members, visible);
+      }
+      this.checkLocals(statement.body, statement.endLine, nested.length > 0 ? [...visible, nested] : visible, members, types, tokens);
+    }
+  }
+
+  private findAssignment(tokens: GDScriptToken[]): number {
+    const index = findTopLevel(tokens, t => t.value === '=' || t.value === ':=', 3);
+    return index === -1 ? tokens.length : index;
+  }
+
+  private checkShadowing(declaration: LocalDeclaration, members: Map<string, string>, scopes: LocalDeclaration[][]): void {
+    const outer = scopes.flat().find(local => local.name === declaration.name && local.token !== declaration.token);
+    const label = declaration.kind === 'parameter' ? 'Parameter' : declaration.kind === 'iterator' ? 'Loop variable' : 'Local variable';
+    if (outer) {
+      this.report('shadowed-variable', declaration.token.line, `${label} ${declaration.name} shadows the ${outer.kind === 'parameter' ? 'parameter' : 'local variable'} declared on line ${outer.token.line}`);
+    } else if (members.has(declaration.name)) {
+      this.report('shadowed-variable', declaration.token.line, `${label} ${declaration.name} shadows the ${members.get(declaration.name)} of the same name`);
+    }
+  }
+
+  private isUsed(declaration: LocalDeclaration, tokens: GDScriptToken[]): boolean {
+    const start = tokens.indexOf(declaration.token);
+    return tokens.some((token, i) =>
+      i > start &&
+      token.line <= declaration.endLine &&
+      token.type === 'identifier' &&
+      token.value === declaration.name &&
+      tokens[i - 1]?.value !== '.'
+    );
+  }
+
+  private checkNullComparisons(tokens: GDScriptToken[], types: Map<string, string>): void {
+    tokens.forEach((token, i) => {
+      if (token.type !== 'operator' || (token.value !== '==' && token.value !== '!=')) return;
+      const left = tokens[i - 1];
+      const right = tokens[i + 1];
+      const operand = left?.value === 'null' ? right : right?.value === 'null' ? left : undefined;
+      if (!operand || operand.type !== 'identifier') return;
+
+      // Only a bare variable, not obj.name, name.field or a call
+      const before = operand === left ? tokens[i - 2] : undefined;
+      const after = operand === right ? tokens[i + 2] : undefined;
+      if (before?.value === '.' || (after && ['.', '(', '['].includes(after.value))) return;
+
+      const type = types.get(operand.value);
+      const baseType = type?.replace(/\[.*$/, '');
+      if (!baseType || !(VALUE_TYPES.has(baseType) || /^Packed\w+Array$/.test(baseType))) return;
+      const result = token.value === '==' ? 'false' : 'true';
+      this.report('null-comparison', token.line, `${operand.value} has type ${type} and can never be null, so ${token.value} null is always ${result}`);
+    });
+  }
+
+  // Whitespace
+
+  private checkIndentation(): void {
+    // Only lines that start a statement are indented; continuation lines inside brackets are free
+    const startLines = new Set<number>();
+    this.ast.tokens.forEach((token, i) => {
+      const previous = this.ast.tokens[i - 1];
+      if (!previous || ['newline', 'indent', 'dedent'].includes(previous.type)) startLines.add(token.line);
+    });
+
+    let fileStyle: string | undefined;
+    for (const line of [...startLines].sort((a, b) => a - b)) {
+      const indentation = /^[ \t]*/.exec(this.lines[line - 1] || '')![0];
+      if (indentation === '') continue;
+      if (indentation.includes(' ') && indentation.includes('\t')) {
+        this.report('mixed-indentation', line, 'Indentation mixes tabs and spaces');
+        continue;
+      }
+      const style = indentation[0] === '\t' ? 'tabs' : 'spaces';
+      fileStyle = fileStyle || style;
+      if (style !== fileStyle) {
+        this.report('mixed-indentation', line, `Indented with ${style}, but the file is indented with ${fileStyle}`);
+      }
+    }
+  }
+
+  private checkLineLength(): void {
+    const max = this.getOption('max-line-length', 'max');
+    const tabWidth = this.getOption('max-line-length', 'tabWidth');
+    this.lines.forEach((text, index) => {
+      const length = text.replace(/\r$/, '').replace(/\t/g, ' '.repeat(tabWidth)).length;
+      if (length > max) {
+        this.report('max-line-length', index + 1, `Line is ${length} characters long (max ${max})`);
+      }
+    });
+  }
+}
+
+export function lintGDScript(source: string, config: GDScriptLintConfig = {}): GDScriptLintIssue[] {
+  return new GDScriptLinter(source, config).lint();
+}
@@ -0,0 +1,760 @@
+import { GDScriptToken, GDScriptComment, tokenizeGDScript } from './gdscript-lexer.js';
+
+/**
+ * GDScript 2.0 parser.
+ *
+ * Builds a statement tree from the token stream (one node per logical line,
+ * with nested blocks for indented bodies and inline `if x: return` bodies),
+ * then interprets class bodies into declarations. Expressions are kept as
+ * token lists rather than expression trees; callers that need to inspect
+ * calls or identifiers scan `tokens`.
+ */
+
+export type GDScriptStatementKind =
+  | 'annotation'
+  | 'extends'
+  | 'class_name'
+  | 'signal'
+  | 'enum'
+  | 'var'
+  | 'const'
+  | 'func'
+  | 'class'
+  | 'if'
+  | 'elif'
+  | 'else'
+  | 'for'
+  | 'while'
+  | 'match'
+  | 'branch'
+  | 'return'
+  | 'pass'
+  | 'break'
+  | 'continue'
+  | 'set'
+  | 'get'
+  | 'expression';
+
+export interface GDScriptAnnotation {
+  name: string;
+  args: string[];
+  text: string;
+  line: number;
+}
+
+export interface GDScriptStatement {
+  kind: GDScriptStatementKind;
+  // Header tokens, without leading annotations / `static` and without the block colon
+  tokens: GDScriptToken[];
+  annotations: GDScriptAnnotation[];
+  isStatic: boolean;
+  line: number;
+  endLine: number;
+  body: GDScriptStatement[];
+}
+
+export interface GDScriptParameterNode {
+  name: string;
+  type?: string;
+  defaultValue?: string;
+  line: number;
+}
+
+export interface GDScriptVariableNode {
+  kind: 'var' | 'const';
+  name: string;
+  type?: string;
+  inferred: boolean;
+  value?: string;
+  annotations: GDScriptAnnotation[];
+  isStatic: boolean;
+  setter?: string;
+  getter?: string;
+  accessors: GDScriptFunctionNode[];
+  doc?: string;
+  line: number;
+  endLine: number;
+  statement: GDScriptStatement;
+}
+
+export interface GDScriptFunctionNode {
+  kind: 'func';
+  name: string;
+  parameters: GDScriptParameterNode[];
+  returnType?: string;
+  isStatic: boolean;
+  annotations: GDScriptAnnotation[];
+  doc?: string;
+  line: number;
+  endLine: number;
+  body: GDScriptStatement[];
+  statement: GDScriptStatement;
+}
+
+export interface GDScriptSignalNode {
+  kind: 'signal';
+  name: string;
+  parameters: GDScriptParameterNode[];
+  doc?: string;
+  line: number;
+  endLine: number;
+}
+
+export interface GDScriptEnumNode {
+  kind: 'enum';
+  name?: string;
+  values: { name: string; value?: string }[];
+  doc?: string;
+  line: number;
+  endLine: number;
+}
+
+export interface GDScriptClassNode {
+  kind: 'class';
+  name?: string;
+  className?: string;
+  extends?: string;
+  annotations: GDScriptAnnotation[];
+  doc?: string;
+  line: number;
+  endLine: number;
+  members: GDScriptMember[];
+}
+
+export type GDScriptMember =
+  | GDScriptVariableNode
+  | GDScriptFunctionNode
+  | GDScriptSignalNode
+  | GDScriptEnumNode
+  | GDScriptClassNode;
+
+export interface GDScriptLambda {
+  name?: string;
+  parameters: GDScriptParameterNode[];
+  line: number;
+}
+
+export interface GDScriptAST {
+  source: string;
+  tokens: GDScriptToken[];
+  comments: GDScriptComment[];
+  statements: GDScriptStatement[];
+  root: GDScriptClassNode;
+}
+
+type BlockContext = 'statement' | 'branch' | 'accessor';
+
+// Annotations that apply to the script itself rather than the next member
+const CLASS_ANNOTATIONS = new Set(['tool', 'icon', 'static_unload', 'abstract']);
+// Annotations that stand alone in the class body (inspector grouping)
+const STANDALONE_ANNOTATIONS = new Set(['export_category', 'export_group', 'export_subgroup']);
+
+const KEYWORD_KINDS: Record<string, GDScriptStatementKind> = {
+  extends: 'extends',
+  class_name: 'class_name',
+  signal: 'signal',
+  enum: 'enum',
+  var: 'var',
+  const: 'const',
+  func: 'func',
+  class: 'class',
+  if: 'if',
+  elif: 'elif',
+  else: 'else',
+  for: 'for',
+  while: 'while',
+  match: 'match',
+  return: 'return',
+  pass: 'pass',
+  break: 'break',
+  continue: 'continue',
+};
+
+const BLOCK_KINDS = new Set<GDScriptStatementKind>([
+  'func', 'class', 'if', 'elif', 'else', 'for', 'while', 'match', 'branch', 'set', 'get',
+]);
+
+/**
+ * Returns the source text spanned by a token list.
+ */
+export function tokensToText(source: string, tokens: GDScriptToken[]): string {
+  if (tokens.length === 0) return '';
+  return source.slice(tokens[0].start, tokens[tokens.length - 1].end);
+}
+
+/**
+ * Splits a token list on commas that are not nested inside brackets.
+ */
+export function splitTopLevel(tokens: GDScriptToken[], separator: string = ','): GDScriptToken[][] {
+  const parts: GDScriptToken[][] = [];
+  let current: GDScriptToken[] = [];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (token.type === 'operator') {
+      if ('([{'.includes(token.value)) depth++;
+      if (')]}'.includes(token.value)) depth--;
+      if (depth === 0 && token.value === separator) {
+        parts.push(current);
+        current = [];
+        continue;
+      }
+    }
+    current.push(token);
+  }
+  if (current.length > 0) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+/**
+ * Finds the index of the bracket that closes the one at `openIndex`.
+ */
+export function findClosingBracket(tokens: GDScriptToken[], openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'operator') continue;
+    if ('([{'.includes(token.value)) depth++;
+    if (')]}'.includes(token.value)) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the first token at bracket depth 0 (at or after `start`) matching the predicate.
+ */
+export function findTopLevel(tokens: GDScriptToken[], predicate: (token: GDScriptToken) => boolean, start: number = 0): number {
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (depth === 0 && i >= start && predicate(token)) return i;
+    if (token.type === 'operator') {
+      if ('([{'.includes(token.value)) depth++;
+      if (')]}'.includes(token.value)) depth--;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses the tokens between the parentheses of a parameter list.
+ */
+export function parseParameterTokens(source: string, tokens: GDScriptToken[]): GDScriptParameterNode[] {
+  return splitTopLevel(tokens)
+    .filter(part => part.length > 0)
+    .map(part => {
+      const parameter: GDScriptParameterNode = { name: part[0].value, line: part[0].line };
+      const equals = findTopLevel(part, t => t.value === '=' || t.value === ':=');
+
+      if (part[1]?.value === ':') {
+        const typeEnd = equals === -1 ? part.length : equals;
+        parameter.type = tokensToText(source, part.slice(2, typeEnd));
+      }
+      if (equals !== -1) {
+        parameter.defaultValue = tokensToText(source, part.slice(equals + 1));
+      }
+
+      return parameter;
+    });
+}
+
+/**
+ * Visits every statement in a tree, depth first.
+ */
+export function walkStatements(statements: GDScriptStatement[], visit: (statement: GDScriptStatement) => void): void {
+  for (const statement of statements) {
+    visit(statement);
+    walkStatements(statement.body, visit);
+  }
+}
+
+class GDScriptParser {
+  private index = 0;
+  private tokens: GDScriptToken[];
+  private comments: GDScriptComment[];
+  private commentsByLine = new Map<number, GDScriptComment>();
+
+  constructor(private source: string) {
+    const { tokens, comments } = tokenizeGDScript(source);
+    this.tokens = tokens;
+    this.comments = comments;
+    for (const comment of comments) {
+      this.commentsByLine.set(comment.line, comment);
+    }
+  }
+
+  parse(): GDScriptAST {
+    const statements = this.parseBlock('statement');
+    const root = this.parseClass(statements, {
+      kind: 'class',
+      annotations: [],
+      line: 1,
+      endLine: statements.length > 0 ? statements[statements.length - 1].endLine : 1,
+      members: [],
+    });
+    root.doc = this.findClassDoc(root);
+
+    return {
+      source: this.source,
+      tokens: this.tokens,
+      comments: this.comments,
+      statements,
+      root,
+    };
+  }
+
+  // Statement tree
+
+  private parseBlock(context: BlockContext): GDScriptStatement[] {
+    const statements: GDScriptStatement[] = [];
+
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index];
+      if (token.type === 'eof') break;
+      if (token.type === 'dedent') {
+        this.index++;
+        break;
+      }
+      if (token.type === 'newline') {
+        this.index++;
+        continue;
+      }
+      if (token.type === 'indent') {
+        // Unexpected indentation: keep the statements, attached to the previous one if possible
+        this.index++;
+        const nested = this.parseBlock(context);
+        const previous = statements[statements.length - 1];
+        if (previous) {
+          previous.body.push(...nested);
+          previous.endLine = Math.max(previous.endLine, ...nested.map(s => s.endLine));
+        } else {
+          statements.push(...nested);
+        }
+        continue;
+      }
+
+      const lineTokens: GDScriptToken[] = [];
+      while (!['newline', 'indent', 'dedent', 'eof'].includes(this.tokens[this.index].type)) {
+        lineTokens.push(this.tokens[this.index++]);
+      }
+      if (this.tokens[this.index].type === 'newline') {
+        this.index++;
+      }
+
+      let body: GDScriptStatement[] = [];
+      if (this.tokens[this.index].type === 'indent') {
+        this.index++;
+        body = this.parseBlock(this.getBodyContext(lineTokens, context));
+      }
+
+      statements.push(...this.buildStatements(lineTokens, body, context));
+    }
+
+    return statements;
+  }
+
+  private getBodyContext(lineTokens: GDScriptToken[], context: BlockContext): BlockContext {
+    const first = lineTokens.find(t => t.type !== 'annotation' && !(t.type === 'keyword' && t.value === 'static'));
+    if (context !== 'branch' && first?.type === 'keyword') {
+      if (first.value === 'match') return 'branch';
+      if (first.value === 'var') {
+        // A property with an indented set/get block
+        const last = lineTokens[lineTokens.length - 1];
+        if (last?.value === ':' && !lineTokens.some(t => t.type === 'keyword' && t.value === 'func')) {
+          return 'accessor';
+        }
+      }
+    }
+    return 'statement';
+  }
+
+  private buildStatements(tokens: GDScriptToken[], body: GDScriptStatement[], context: BlockContext): GDScriptStatement[] {
+    // `;` separates statements on a single line; only the last one can own a block
+    const parts = splitTopLevel(tokens, ';').filter(part => part.length > 0);
+    return parts.map((part, i) => this.buildStatement(part, i === parts.length - 1 ? body : [], context));
+  }
+
+  private buildStatement(tokens: GDScriptToken[], body: GDScriptStatement[], context: BlockContext): GDScriptStatement {
+    const line = tokens[0].line;
+    let i = 0;
+
+    const annotations: GDScriptAnnotation[] = [];
+    while (i < tokens.length && tokens[i].type === 'annotation') {
+      const annotation: GDScriptAnnotation = { name: tokens[i].value, args: [], text: '', line: tokens[i].line };
+      let end = i;
+      if (tokens[i + 1]?.value === '(' && tokens[i + 1].start === tokens[i].end) {
+        const close = findClosingBracket(tokens, i + 1);
+        if (close !== -1) {
+          annotation.args = splitTopLevel(tokens.slice(i + 2, close)).map(arg => tokensToText(this.source, arg));
+          end = close;
+        }
+      }
+      annotation.text = tokensToText(this.source, tokens.slice(i, end + 1));
+      annotations.push(annotation);
+      i = end + 1;
+    }
+
+    let isStatic = false;
+    if (tokens[i]?.type === 'keyword' && tokens[i].value === 'static') {
+      isStatic = true;
+      i++;
+    }
+
+    const rest = tokens.slice(i);
+    const statement: GDScriptStatement = {
+      kind: this.getStatementKind(rest, context),
+      tokens: rest,
+      annotations,
+      isStatic,
+      line,
+      endLine: tokens[tokens.length - 1].line,
+      body,
+    };
+
+    if (BLOCK_KINDS.has(statement.kind)) {
+      const colon = this.findBlockColon(statement.kind, rest);
+      if (colon !== -1) {
+        statement.tokens = rest.slice(0, colon);
+        const inline = rest.slice(colon + 1);
+        if (inline.length > 0) {
+          statement.body = this.buildStatements(inline, body, 'statement');
+        }
+      }
+    }
+
+    for (const child of statement.body) {
+      statement.endLine = Math.max(statement.endLine, child.endLine);
+    }
+
+    return statement;
+  }
+
+  private getStatementKind(tokens: GDScriptToken[], context: BlockContext): GDScriptStatementKind {
+    if (tokens.length === 0) return 'annotation';
+    if (context === 'branch') return 'branch';
+
+    const first = tokens[0];
+    if (context === 'accessor' && first.type === 'identifier' && (first.value === 'set' || first.value === 'get')) {
+      return first.value;
+    }
+    if (first.type === 'keyword' && KEYWORD_KINDS[first.value]) {
+      return KEYWORD_KINDS[first.value];
+    }
+    return 'expression';
+  }
+
+  private findBlockColon(kind: GDScriptStatementKind, tokens: GDScriptToken[]): number {
+    let start = 0;
+
+    if (kind === 'func') {
+      // Skip the parameter list so default values can't be mistaken for the block colon
+      const open = tokens.findIndex(t => t.value === '(');
+      if (open !== -1) start = findClosingBracket(tokens, open) + 1;
+    } else if (kind === 'for') {
+      // `for i: int in range(3):` - the first colon may be a type hint
+      const inIndex = findTopLevel(tokens, t => t.type === 'keyword' && t.value === 'in');
+      if (inIndex !== -1) start = inIndex;
+    }
+
+    return findTopLevel(tokens, t => t.type === 'operator' && t.value === ':', start);
+  }
+
+  // Declarations
+
+  private parseClass(statements: GDScriptStatement[], classNode: GDScriptClassNode): GDScriptClassNode {
+    let pending: GDScriptAnnotation[] = [];
+
+    for (const statement of statements) {
+      const annotations = [...pending, ...statement.annotations];
+      pending = [];
+
+      const classAnnotations = annotations.filter(a => CLASS_ANNOTATIONS.has(a.name));
+      classNode.annotations.push(...classAnnotations);
+      const memberAnnotations = annotations.filter(a => !CLASS_ANNOTATIONS.has(a.name) && !STANDALONE_ANNOTATIONS.has(a.name));
+
+      const tokens = statement.tokens;
+      switch (statement.kind) {
+        case 'annotation':
+          pending = memberAnnotations;
+          break;
+        case 'extends':
+          classNode.extends = tokensToText(this.source, tokens.slice(1));
+          break;
+        case 'class_name': {
+          classNode.className = tokens[1]?.value;
+          // Godot 4 allows `class_name Foo extends Bar` on one line
+          const extendsIndex = tokens.findIndex(t => t.type === 'keyword' && t.value === 'extends');
+          if (extendsIndex !== -1) {
+            classNode.extends = tokensToText(this.source, tokens.slice(extendsIndex + 1));
+          }
+          break;
+        }
+        case 'signal':
+          classNode.members.push(this.parseSignal(statement, annotations));
+          break;
+        case 'enum':
+          classNode.members.push(this.parseEnum(statement, annotations));
+          break;
+        case 'var':
+        case 'const':
+          classNode.members.push(this.parseVariable(statement, memberAnnotations));
+          break;
+        case 'func':
+          classNode.members.push(this.parseFunction(statement, memberAnnotations));
+          break;
+        case 'class':
+          classNode.members.push(this.parseInnerClass(statement, annotations));
+          break;
+      }
+    }
+
+    return classNode;
+  }
+
+  private parseInnerClass(statement: GDScriptStatement, annotations: GDScriptAnnotation[]): GDScriptClassNode {
+    // Parse: class Name extends Base:
+    const tokens = statement.tokens;
+    const extendsIndex = tokens.findIndex(t => t.type === 'keyword' && t.value === 'extends');
+    const innerClass: GDScriptClassNode = {
+      kind: 'class',
+      name: tokens[1]?.value,
+      annotations: [],
+      doc: this.findDoc(this.startLine(statement, annotations), statement.line),
+      line: statement.line,
+      endLine: statement.endLine,
+      members: [],
+    };
+    if (extendsIndex !== -1) {
+      innerClass.extends = tokensToText(this.source, tokens.slice(extendsIndex + 1));
+    }
+    return this.parseClass(statement.body, innerClass);
+  }
+
+  private parseSignal(statement: GDScriptStatement, annotations: GDScriptAnnotation[]): GDScriptSignalNode {
+    // Parse: signal signal_name(param1: Type, param2: Type)
+    const tokens = statement.tokens;
+    const open = tokens.findIndex(t => t.value === '(');
+    return {
+      kind: 'signal',
+      name: tokens[1]?.value ?? '',
+      parameters: open === -1 ? [] : this.parseParameters(tokens.slice(open + 1, findClosingBracket(tokens, open))),
+      doc: this.findDoc(this.startLine(statement, annotations), statement.line),
+      line: statement.line,
+      endLine: statement.endLine,
+    };
+  }
+
+  private parseEnum(statement: GDScriptStatement, annotations: GDScriptAnnotation[]): GDScriptEnumNode {
+    // Parse: enum Name { A, B = 2 } or enum { A, B }
+    const tokens = statement.tokens;
+    const open = tokens.findIndex(t => t.value === '{');
+    const close = open === -1 ? -1 : findClosingBracket(tokens, open);
+    const values = open === -1 ? [] : splitTopLevel(tokens.slice(open + 1, close === -1 ? undefined : close))
+      .filter(part => part.length > 0)
+      .map(part => {
+        const equals = part.findIndex(t => t.value === '=');
+        return equals === -1
+          ? { name: part[0].value }
+          : { name: part[0].value, value: tokensToText(this.source, part.slice(equals + 1)) };
+      });
+
+    return {
+      kind: 'enum',
+      name: tokens[1]?.type === 'identifier' ? tokens[1].value : undefined,
+      values,
+      doc: this.findDoc(this.startLine(statement, annotations), statement.line),
+      line: statement.line,
+      endLine: statement.endLine,
+    };
+  }
+
+  private parseVariable(statement: GDScriptStatement, annotations: GDScriptAnnotation[]): GDScriptVariableNode {
+    // Parse: var name[: Type][ = value | := value][: setget]
+    const tokens = statement.tokens;
+    const variable: GDScriptVariableNode = {
+      kind: statement.kind === 'const' ? 'const' : 'var',
+      name: tokens[1]?.value ?? '',
+      inferred: false,
+      annotations,
+      isStatic: statement.isStatic,
+      accessors: [],
+      doc: this.findDoc(this.startLine(statement, annotations), statement.line),
+      line: statement.line,
+      endLine: statement.endLine,
+      statement,
+    };
+
+    let i = 2;
+    let setgetStart = -1;
+
+    if (tokens[i]?.value === ':') {
+      const typeEnd = findTopLevel(tokens, t => t.value === '=' || t.value === ':', i + 1);
+      const end = typeEnd === -1 ? tokens.length : typeEnd;
+      variable.type = tokensToText(this.source, tokens.slice(i + 1, end));
+      i = end;
+    }
+
+    if (tokens[i]?.value === ':=' || tokens[i]?.value === '=') {
+      variable.inferred = tokens[i].value === ':=';
+      const valueStart = i + 1;
+      const valueTokens = tokens.slice(valueStart);
+      // A lambda value owns its colon; otherwise a top-level colon starts set/get
+      const hasLambda = valueTokens.some(t => t.type === 'keyword' && t.value === 'func');
+      const colon = hasLambda ? -1 : findTopLevel(tokens, t => t.value === ':', valueStart);
+      const end = colon === -1 ? tokens.length : colon;
+      variable.value = tokensToText(this.source, tokens.slice(valueStart, end));
+      i = end;
+    }
+
+    if (tokens[i]?.value === ':') {
+      setgetStart = i + 1;
+    }
+
+    if (setgetStart !== -1) {
+      // Inline form: var x: set = _set_x, get = _get_x
+      for (const part of splitTopLevel(tokens.slice(setgetStart))) {
+        if (part[1]?.value !== '=') continue;
+        if (part[0]?.value === 'set') variable.setter = part[2]?.value;
+        if (part[0]?.value === 'get') variable.getter = part[2]?.value;
+      }
+    }
+
+    // Godot 3 style: var x setget _set_x, _get_x
+    const setgetIndex = tokens.findIndex(t => t.type === 'identifier' && t.value === 'setget');
+    if (setgetIndex !== -1) {
+      const names = splitTopLevel(tokens.slice(setgetIndex + 1));
+      if (names[0]?.[0]) variable.setter = names[0][0].value;
+      if (names[1]?.[0]) variable.getter = names[1][0].value;
+    }
+
+    for (const accessor of statement.body) {
+      if (accessor.kind !== 'set' && accessor.kind !== 'get') continue;
+      const open = accessor.tokens.findIndex(t => t.value === '(');
+      const parameters = open === -1
+        ? []
+        : this.parseParameters(accessor.tokens.slice(open + 1, findClosingBracket(accessor.tokens, open)));
+      variable.accessors.push({
+        kind: 'func',
+        name: accessor.kind,
+        parameters,
+        isStatic: false,
+        annotations: [],
+        line: accessor.line,
+        endLine: accessor.endLine,
+        body: accessor.body,
+        statement: accessor,
+      });
+      if (accessor.kind === 'set') variable.setter = variable.setter ?? 'set';
+      if (accessor.kind === 'get') variable.getter = variable.getter ?? 'get';
+    }
+
+    return variable;
+  }
+
+  private parseFunction(statement: GDScriptStatement, annotations: GDScriptAnnotation[]): GDScriptFunctionNode {
+    // Parse: [static] func method_name(param1: Type, param2 := 1) -> ReturnType:
+    const tokens = statement.tokens;
+    const open = tokens.findIndex(t => t.value === '(');
+    const close = open === -1 ? -1 : findClosingBracket(tokens, open);
+    const arrow = tokens.findIndex((t, i) => i > close && t.value === '->');
+
+    return {
+      kind: 'func',
+      name: tokens[1]?.type !== 'operator' ? tokens[1]?.value ?? '' : '',
+      parameters: open === -1 ? [] : this.parseParameters(tokens.slice(open + 1, close === -1 ? undefined : close)),
+      returnType: arrow === -1 ? undefined : tokensToText(this.source, tokens.slice(arrow + 1)),
+      isStatic: statement.isStatic,
+      annotations,
+      doc: this.findDoc(this.startLine(statement, annotations), statement.line),
+      line: statement.line,
+      endLine: statement.endLine,
+      body: statement.body,
+      statement,
+    };
+  }
+
+  private parseParameters(tokens: GDScriptToken[]): GDScriptParameterNode[] {
+    return parseParameterTokens(this.source, tokens);
+  }
+
+  // Doc comments
+
+  private startLine(statement: GDScriptStatement, annotations: GDScriptAnnotation[]): number {
+    return Math.min(statement.line, ...annotations.map(a => a.line));
+  }
+
+  private findDoc(startLine: number, declarationLine: number): string | undefined {
+    const lines: string[] = [];
+
+    for (let line = startLine - 1; line > 0; line--) {
+      const comment = this.commentsByLine.get(line);
+      if (!comment || !comment.doc || !comment.ownLine) break;
+      lines.unshift(this.stripDocMarker(comment.text));
+    }
+
+    const trailing = this.commentsByLine.get(declarationLine);
+    if (trailing && trailing.doc && !trailing.ownLine) {
+      lines.push(this.stripDocMarker(trailing.text));
+    }
+
+    return lines.length > 0 ? lines.join('\n') : undefined;
+  }
+
+  private findClassDoc(root: GDScriptClassNode): string | undefined {
+    // Class documentation is the `##` block before the first member that isn't attached to that member
+    const firstMember = root.members[0];
+    const limit = firstMember ? firstMember.line : Infinity;
+    const attached = new Set<number>();
+    if (firstMember?.doc) {
+      const count = firstMember.doc.split('\n').length;
+      for (let line = firstMember.line - count; line < firstMember.line; line++) attached.add(line);
+    }
+
+    const lines = this.comments
+      .filter(c => c.doc && c.ownLine && c.line < limit && !attached.has(c.line))
+      .map(c => this.stripDocMarker(c.text));
+
+    return lines.length > 0 ? lines.join('\n') : undefined;
+  }
+
+  private stripDocMarker(text: string): string {
+    return text.replace(/^##\s?/, '');
+  }
+}
+
+export function parseGDScript(source: string): GDScriptAST {
+  return new GDScriptParser(source).parse();
+}
+
+/**
+ * Collects the lambdas (`func(...)` inside expressions) in a statement tree.
+ */
+export function findLambdas(source: string, statements: GDScriptStatement[]): GDScriptLambda[] {
+  const lambdas: GDScriptLambda[] = [];
+
+  walkStatements(statements, statement => {
+    const tokens = statement.tokens;
+    tokens.forEach((token, i) => {
+      if (token.type !== 'keyword' || token.value !== 'func') return;
+      // A `func` at the start of a func statement is the declaration itself
+      if (statement.kind === 'func' && i === 0) return;
+      const nameToken = tokens[i + 1]?.type === 'identifier' ? tokens[i + 1] : undefined;
+      const open = nameToken ? i + 2 : i + 1;
+      if (tokens[open]?.value !== '(') return;
+      const close = findClosingBracket(tokens, open);
+      lambdas.push({
+        name: nameToken?.value,
+        parameters: parseParameterTokens(source, tokens.slice(open + 1, close === -1 ? undefined : close)),
+        line: token.line,
+      });
+    });
+  });
+
+  return lambdas;
+}
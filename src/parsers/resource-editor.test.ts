@@ -0,0 +1,144 @@
+import { parseResource, stringifyVariant, toPlainValue } from './resource-parser.js';
+import {
+  createBlock,
+  editResource,
+  findBlocks,
+  insertBlock,
+  removeBlock,
+  renderResource,
+  setBlockAttributes,
+  setBlockProperty,
+} from './resource-editor.js';
+
+const SCENE = `[gd_scene load_steps=4 format=3 uid="uid://b8x1main"]
+
+[ext_resource type="Script" uid="uid://c1main" path="res://scripts/main.gd" id="1_main"]
+[ext_resource type="PackedScene" path="res://scenes/player.tscn" id="2_player"]
+
+[sub_resource type="RectangleShape2D" id="RectangleShape2D_wall"]
+size = Vector2(64,  16)
+
+[node name="Main" type="Node2D"]
+script = ExtResource("1_main")
+metadata/_edit_group_ = true
+
+[node name="Player" parent="." instance=ExtResource("2_player")]
+position = Vector2(120.5, -8)
+
+[node name="Line" type="Line2D" parent="."]
+points = PackedVector2Array(0, 0,
+ 32, 0, 32, 32)
+meta = {
+"tags": ["a", "b"],
+"weight": 1.0
+}
+
+[connection signal="ready" from="Player" to="." method="_on_player_ready" flags=3 binds=[1, "a"]]
+`;
+
+describe('parseResource', () => {
+  it('reads section headers and properties with their lines', () => {
+    const document = parseResource(SCENE);
+
+    expect(document.sections.map(section => section.tag)).toEqual([
+      'gd_scene', 'ext_resource', 'ext_resource', 'sub_resource', 'node', 'node', 'node', 'connection',
+    ]);
+
+    const player = document.sections[5];
+    expect(toPlainValue(player.attributes.name)).toBe('Player');
+    expect(stringifyVariant(player.attributes.instance)).toBe('ExtResource("2_player")');
+    expect(player.line).toBe(13);
+    expect(player.properties.map(property => property.key)).toEqual(['position']);
+  });
+
+  it('parses values that span several lines', () => {
+    const line = parseResource(SCENE).sections[6];
+    const meta = line.properties.find(property => property.key === 'meta')!;
+
+    expect(toPlainValue(meta.value)).toEqual({ tags: ['a', 'b'], weight: 1 });
+    expect(meta.line).toBe(19);
+    expect(meta.endLine).toBe(22);
+    expect(line.properties.find(property => property.key === 'points')!.raw).toBe('PackedVector2Array(0, 0,\n 32, 0, 32, 32)');
+  });
+
+  it('reads project.godot style settings before the first section', () => {
+    const document = parseResource('config_version=5\n\n[application]\n\nconfig/name="Game"\n');
+
+    expect(document.globals.map(property => property.key)).toEqual(['config_version']);
+    expect(toPlainValue(document.sections[0].properties[0].value)).toBe('Game');
+  });
+});
+
+describe('editResource', () => {
+  it('renders an unedited resource byte for byte', () => {
+    expect(renderResource(editResource(SCENE))).toBe(SCENE);
+
+    const unusual = '; comment\r\n[gd_resource type="Theme" format=3]\r\n\r\n[resource]\r\ndefault_font_size = 14';
+    expect(renderResource(editResource(unusual))).toBe(unusual);
+  });
+
+  it('changes only the edited property', () => {
+    const resource = editResource(SCENE);
+    const [, player] = findBlocks(resource, 'node');
+    setBlockProperty(player, 'position', { kind: 'call', name: 'Vector2', args: [
+      { kind: 'number', value: 0, raw: '0' },
+      { kind: 'number', value: 4, raw: '4' },
+    ] });
+
+    expect(renderResource(resource)).toBe(SCENE.replace('position = Vector2(120.5, -8)', 'position = Vector2(0, 4)'));
+  });
+
+  it('adds and removes properties without touching other sections', () => {
+    const resource = editResource(SCENE);
+    const [main, player] = findBlocks(resource, 'node');
+    setBlockProperty(main, 'metadata/_edit_group_', undefined);
+    setBlockProperty(player, 'visible', { kind: 'bool', value: false });
+    setBlockProperty(player, 'z_index', { kind: 'number', value: 2, raw: '2' }, 'position');
+
+    expect(renderResource(resource)).toBe(SCENE
+      .replace('\nmetadata/_edit_group_ = true', '')
+      .replace('position = Vector2(120.5, -8)', 'z_index = 2\nposition = Vector2(120.5, -8)\nvisible = false'));
+  });
+
+  it('restores the original header when the attributes are set back', () => {
+    const resource = editResource(SCENE);
+    const [, player] = findBlocks(resource, 'node');
+    const original = { ...player.section!.attributes };
+    setBlockAttributes(player, { ...original, name: { kind: 'string', value: 'Hero' } });
+    setBlockAttributes(player, original);
+
+    expect(renderResource(resource)).toBe(SCENE);
+  });
+
+  it('keeps the blank line after the ext_resource lines when the last one is removed', () => {
+    const resource = editResource(SCENE);
+    removeBlock(resource, findBlocks(resource, 'ext_resource')[1]);
+
+    expect(renderResource(resource)).toBe(SCENE.replace(
+      '[ext_resource type="PackedScene" path="res://scenes/player.tscn" id="2_player"]\n',
+      ''
+    ));
+  });
+
+  it('inserts new sections with the given separator', () => {
+    const resource = editResource(SCENE);
+    const ext = findBlocks(resource, 'ext_resource');
+    insertBlock(resource, resource.blocks.indexOf(ext[1]) + 1, createBlock(
+      '[ext_resource type="Texture2D" path="res://icon.svg" id="3_icon"]',
+      ext[1].separator
+    ));
+    ext[1].separator = '\n';
+
+    expect(renderResource(resource)).toBe(SCENE.replace(
+      'id="2_player"]\n',
+      'id="2_player"]\n[ext_resource type="Texture2D" path="res://icon.svg" id="3_icon"]\n'
+    ));
+  });
+
+  it('keeps the end of the file when the last section is removed', () => {
+    const resource = editResource(SCENE);
+    removeBlock(resource, findBlocks(resource, 'connection')[0]);
+
+    expect(renderResource(resource)).toBe(SCENE.slice(0, SCENE.indexOf('[connection')).replace(/\n+$/, '\n'));
+  });
+});
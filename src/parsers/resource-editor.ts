@@ -0,0 +1,226 @@
+import {
+  ResourceDocument,
+  ResourceSection,
+  VariantNode,
+  parseResource,
+  stringifySection,
+  stringifyVariant,
+} from './resource-parser.js';
+
+/**
+ * In-place editing for Godot text resources with minimal diffs.
+ *
+ * The file is split into one block per section. Blocks that are not touched
+ * are written back byte for byte; edits to a block are recorded as text
+ * replacements against the original source and applied when rendering, so
+ * several edits to one section don't invalidate each other's offsets.
+ */
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ResourceBlock {
+  section?: ResourceSection;
+  start: number;
+  end: number;
+  // Whitespace that followed the block in the source: "\n" between ext_resource lines, "\n\n" elsewhere
+  separator: string;
+  edits: TextEdit[];
+  // Set for blocks inserted by an edit; they have no source range
+  text?: string;
+}
+
+export interface EditableResource {
+  source: string;
+  document: ResourceDocument;
+  prefix: string;
+  blocks: ResourceBlock[];
+  trailing: string;
+}
+
+export function editResource(source: string): EditableResource {
+  const document = parseResource(source);
+  const sections = document.sections;
+  const blocks: ResourceBlock[] = [];
+
+  sections.forEach((section, index) => {
+    const next = index + 1 < sections.length ? sections[index + 1].offset : source.length;
+    const slice = source.slice(section.offset, next);
+    const content = slice.replace(/\s+$/, '');
+    blocks.push({
+      section,
+      start: section.offset,
+      end: section.offset + content.length,
+      separator: slice.slice(content.length),
+      edits: [],
+    });
+  });
+
+  const prefixEnd = sections.length > 0 ? sections[0].offset : source.length;
+  const last = blocks[blocks.length - 1];
+  const trailing = last ? last.separator : '';
+  if (last) {
+    // The end of the file is kept separately; if the last section moves it needs a normal gap
+    last.separator = '\n\n';
+  }
+
+  return {
+    source,
+    document,
+    prefix: source.slice(0, prefixEnd),
+    blocks,
+    trailing,
+  };
+}
+
+export function renderResource(resource: EditableResource): string {
+  const { blocks } = resource;
+  let output = resource.prefix;
+
+  blocks.forEach((block, index) => {
+    output += renderBlock(resource, block);
+    output += index === blocks.length - 1 ? resource.trailing : block.separator;
+  });
+
+  return output;
+}
+
+export function findBlocks(resource: EditableResource, tag: string): ResourceBlock[] {
+  return resource.blocks.filter(block => block.section?.tag === tag);
+}
+
+export function createBlock(text: string, separator: string = '\n\n'): ResourceBlock {
+  return {
+    start: 0,
+    end: 0,
+    separator,
+    edits: [],
+    text: text.replace(/\s+$/, ''),
+  };
+}
+
+export function insertBlock(resource: EditableResource, index: number, block: ResourceBlock): void {
+  resource.blocks.splice(index, 0, block);
+}
+
+export function removeBlock(resource: EditableResource, block: ResourceBlock): void {
+  const index = resource.blocks.indexOf(block);
+  if (index === -1) return;
+
+  // Keep the blank line before whatever follows, e.g. when the last ext_resource line goes
+  const previous = resource.blocks[index - 1];
+  if (previous && block.separator.length > previous.separator.length) {
+    previous.separator = block.separator;
+  }
+  resource.blocks.splice(index, 1);
+}
+
+/**
+ * Rewrites a section header. Each call replaces the previous one, and setting the original
+ * attributes again restores the original text.
+ */
+export function setBlockAttributes(block: ResourceBlock, attributes: Record<string, VariantNode>): void {
+  const tag = getBlockTag(block);
+  const header = stringifySection(tag, attributes).replace(/\n$/, '');
+  if (block.text !== undefined) {
+    block.text = header + block.text.slice(block.text.indexOf('\n') === -1 ? block.text.length : block.text.indexOf('\n'));
+    return;
+  }
+
+  const section = block.section!;
+  block.edits = block.edits.filter(edit => edit.start !== section.offset);
+  if (header !== stringifySection(tag, section.attributes).replace(/\n$/, '')) {
+    block.edits.push({ start: section.offset, end: section.headerEndOffset, text: header });
+  }
+}
+
+/**
+ * Sets, adds or (with an undefined value) removes a `key = value` property of a section.
+ * New properties are appended, or inserted before the `before` property when the section has it.
+ */
+export function setBlockProperty(block: ResourceBlock, key: string, value: VariantNode | undefined, before?: string): void {
+  if (block.text !== undefined) {
+    throw new Error('Properties of inserted blocks must be given when the block is created');
+  }
+
+  const section = block.section!;
+  const property = section.properties.find(p => p.key === key);
+  const line = value ? `${key} = ${stringifyVariant(value)}` : '';
+
+  if (property) {
+    // Removing a property also removes the line break before it
+    const start = value ? property.offset : precedingLineBreak(section, property.offset);
+    block.edits.push({ start, end: property.endOffset, text: line });
+  } else if (value) {
+    const next = before ? section.properties.find(p => p.key === before) : undefined;
+    if (next) {
+      block.edits.push({ start: next.offset, end: next.offset, text: `${line}\n` });
+    } else {
+      block.edits.push({ start: section.endOffset, end: section.endOffset, text: `\n${line}` });
+    }
+  }
+}
+
+/**
+ * Renames a property in place, keeping its value text and position.
+ */
+export function renameBlockProperty(block: ResourceBlock, key: string, newKey: string): void {
+  if (block.text !== undefined) {
+    throw new Error('Properties of inserted blocks must be given when the block is created');
+  }
+
+  const property = block.section!.properties.find(p => p.key === key);
+  if (property) {
+    block.edits.push({ start: property.offset, end: property.offset + key.length, text: newKey });
+  }
+}
+
+/**
+ * Replaces all `key = value` lines of a section, keeping the header and the whitespace after it.
+ */
+export function setBlockBody(block: ResourceBlock, body: string): void {
+  if (block.text !== undefined) {
+    throw new Error('Properties of inserted blocks must be given when the block is created');
+  }
+
+  const section = block.section!;
+  const first = section.properties[0];
+  block.edits = block.edits.filter(edit => edit.start < section.headerEndOffset);
+  if (first) {
+    block.edits.push({ start: first.offset, end: section.endOffset, text: body });
+  } else {
+    block.edits.push({ start: section.endOffset, end: section.endOffset, text: `\n${body}` });
+  }
+}
+
+export function getBlockTag(block: ResourceBlock): string {
+  if (block.section) return block.section.tag;
+  return /^\[(\w+)/.exec(block.text || '')?.[1] || '';
+}
+
+function precedingLineBreak(section: ResourceSection, offset: number): number {
+  // Properties always follow the header or another property on a new line
+  return Math.max(section.headerEndOffset, offset - 1);
+}
+
+function renderBlock(resource: EditableResource, block: ResourceBlock): string {
+  if (block.text !== undefined) {
+    return block.text;
+  }
+
+  const edits = [...block.edits].sort((a, b) => b.start - a.start);
+  let text = resource.source.slice(block.start, block.end);
+
+  for (let i = 0; i < edits.length; i++) {
+    const edit = edits[i];
+    if (i > 0 && edit.end > edits[i - 1].start) {
+      throw new Error('Overlapping edits in resource section');
+    }
+    text = text.slice(0, edit.start - block.start) + edit.text + text.slice(edit.end - block.start);
+  }
+
+  return text;
+}
@@ -0,0 +1,588 @@
+/**
+ * Tokenizer and parser for Godot's text resource format.
+ *
+ * The same syntax is shared by .tscn scenes, .tres resources, .import sidecars
+ * and project.godot: optional top-level `key = value` lines, then `[tag attr=value ...]`
+ * section headers each followed by `key = value` properties. Values may span
+ * several lines (arrays, dictionaries, packed arrays, Object(...) literals).
+ */
+
+export type VariantNode =
+  | { kind: 'string'; value: string }
+  | { kind: 'stringName'; value: string }
+  | { kind: 'nodePath'; value: string }
+  | { kind: 'number'; value: number; raw: string }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'null' }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'call'; name: string; args: VariantNode[] }
+  | { kind: 'object'; className: string; properties: { key: string; value: VariantNode }[] }
+  | { kind: 'array'; items: VariantNode[]; typeHint?: string }
+  | { kind: 'dictionary'; entries: { key: VariantNode; value: VariantNode }[]; typeHint?: string };
+
+export interface ResourceProperty {
+  key: string;
+  value: VariantNode;
+  raw: string;
+  line: number;
+  endLine: number;
+  offset: number;
+  endOffset: number;
+}
+
+export interface ResourceSection {
+  tag: string;
+  attributes: Record<string, VariantNode>;
+  properties: ResourceProperty[];
+  line: number;
+  endLine: number;
+  offset: number;
+  headerEndOffset: number;
+  endOffset: number;
+}
+
+export interface ResourceDocument {
+  globals: ResourceProperty[];
+  sections: ResourceSection[];
+}
+
+type TokenType =
+  | 'bracketOpen'
+  | 'bracketClose'
+  | 'parenOpen'
+  | 'parenClose'
+  | 'braceOpen'
+  | 'braceClose'
+  | 'comma'
+  | 'colon'
+  | 'equals'
+  | 'string'
+  | 'stringName'
+  | 'nodePath'
+  | 'number'
+  | 'identifier'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  start: number;
+  end: number;
+}
+
+const PUNCTUATION: Record<string, TokenType> = {
+  '[': 'bracketOpen',
+  ']': 'bracketClose',
+  '(': 'parenOpen',
+  ')': 'parenClose',
+  '{': 'braceOpen',
+  '}': 'braceClose',
+  ',': 'comma',
+  ':': 'colon',
+  '=': 'equals',
+};
+
+class ResourceTokenizer {
+  private pos = 0;
+  private line = 1;
+  private lastEnd = 0;
+  private lastLine = 1;
+
+  constructor(private source: string) {}
+
+  get previousEnd(): number {
+    return this.lastEnd;
+  }
+
+  get previousLine(): number {
+    return this.lastLine;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (ch === '\n') {
+        this.line++;
+        this.pos++;
+      } else if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\uFEFF') {
+        this.pos++;
+      } else if (ch === ';') {
+        while (this.pos < this.source.length && this.source[this.pos] !== '\n') {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  atEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.source.length;
+  }
+
+  peekChar(): string {
+    this.skipWhitespace();
+    return this.source[this.pos] ?? '';
+  }
+
+  peek(): Token {
+    const savedPos = this.pos;
+    const savedLine = this.line;
+    const savedEnd = this.lastEnd;
+    const savedLastLine = this.lastLine;
+    const token = this.next();
+    this.pos = savedPos;
+    this.line = savedLine;
+    this.lastEnd = savedEnd;
+    this.lastLine = savedLastLine;
+    return token;
+  }
+
+  next(): Token {
+    this.skipWhitespace();
+    const start = this.pos;
+    const line = this.line;
+
+    if (this.pos >= this.source.length) {
+      return { type: 'eof', value: '', line, start, end: start };
+    }
+
+    const ch = this.source[this.pos];
+    let token: Token;
+
+    if (PUNCTUATION[ch]) {
+      this.pos++;
+      token = { type: PUNCTUATION[ch], value: ch, line, start, end: this.pos };
+    } else if (ch === '"') {
+      token = { type: 'string', value: this.readString(), line, start, end: this.pos };
+    } else if ((ch === '&' || ch === '^') && this.source[this.pos + 1] === '"') {
+      this.pos++;
+      const value = this.readString();
+      token = { type: ch === '&' ? 'stringName' : 'nodePath', value, line, start, end: this.pos };
+    } else if (/[0-9.+-]/.test(ch)) {
+      token = { type: 'number', value: this.readNumber(), line, start, end: this.pos };
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.source.slice(this.pos, this.pos + 256))!;
+      this.pos += match[0].length;
+      token = { type: 'identifier', value: match[0], line, start, end: this.pos };
+    } else {
+      throw new Error(`Unexpected character '${ch}' at line ${line}`);
+    }
+
+    this.lastEnd = this.pos;
+    this.lastLine = this.line;
+    return token;
+  }
+
+  expect(type: TokenType): Token {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new Error(`Expected ${type} but found ${token.type === 'eof' ? 'end of file' : `'${token.value}'`} at line ${token.line}`);
+    }
+    return token;
+  }
+
+  /**
+   * Reads a property key at the start of a statement. Keys are free-form up to
+   * the `=` (e.g. `theme_override_colors/font_color`) or a quoted string.
+   */
+  readKey(): { key: string; line: number; start: number } {
+    this.skipWhitespace();
+    const start = this.pos;
+    const line = this.line;
+
+    if (this.source[this.pos] === '"') {
+      const key = this.readString();
+      return { key, line, start };
+    }
+
+    let end = this.pos;
+    while (end < this.source.length && this.source[end] !== '=' && this.source[end] !== '\n') {
+      end++;
+    }
+    if (this.source[end] !== '=') {
+      throw new Error(`Expected '=' after key at line ${line}`);
+    }
+
+    const key = this.source.slice(this.pos, end).trim();
+    this.pos = end;
+    return { key, line, start };
+  }
+
+  private readString(): string {
+    // Opening quote
+    this.pos++;
+    let value = '';
+
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        return value;
+      }
+      if (ch === '\n') {
+        this.line++;
+      }
+      if (ch === '\\') {
+        const escaped = this.source[this.pos + 1];
+        this.pos += 2;
+        switch (escaped) {
+          case 'n': value += '\n'; break;
+          case 't': value += '\t'; break;
+          case 'r': value += '\r'; break;
+          case 'b': value += '\b'; break;
+          case 'f': value += '\f'; break;
+          case 'u': {
+            const hex = this.source.slice(this.pos, this.pos + 4);
+            value += String.fromCharCode(parseInt(hex, 16));
+            this.pos += 4;
+            break;
+          }
+          default: value += escaped ?? '';
+        }
+        continue;
+      }
+      value += ch;
+      this.pos++;
+    }
+
+    throw new Error(`Unterminated string at line ${this.line}`);
+  }
+
+  private readNumber(): string {
+    const rest = this.source.slice(this.pos, this.pos + 64);
+    const special = /^-?(inf_neg|inf|nan)\b/.exec(rest);
+    const match = special || /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid number at line ${this.line}`);
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+}
+
+class ResourceParser {
+  private tokenizer: ResourceTokenizer;
+
+  constructor(private source: string) {
+    this.tokenizer = new ResourceTokenizer(source);
+  }
+
+  parse(): ResourceDocument {
+    const document: ResourceDocument = { globals: [], sections: [] };
+    let current: ResourceSection | null = null;
+
+    while (!this.tokenizer.atEnd()) {
+      if (this.tokenizer.peekChar() === '[') {
+        current = this.parseSectionHeader();
+        document.sections.push(current);
+        continue;
+      }
+
+      const property = this.parseProperty();
+      if (current) {
+        current.properties.push(property);
+        current.endLine = property.endLine;
+        current.endOffset = property.endOffset;
+      } else {
+        document.globals.push(property);
+      }
+    }
+
+    return document;
+  }
+
+  private parseSectionHeader(): ResourceSection {
+    const open = this.tokenizer.expect('bracketOpen');
+    const tag = this.tokenizer.expect('identifier').value;
+    const attributes: Record<string, VariantNode> = {};
+
+    while (this.tokenizer.peek().type !== 'bracketClose') {
+      const name = this.tokenizer.expect('identifier').value;
+      this.tokenizer.expect('equals');
+      attributes[name] = this.parseValue();
+    }
+    const close = this.tokenizer.expect('bracketClose');
+
+    return {
+      tag,
+      attributes,
+      properties: [],
+      line: open.line,
+      endLine: close.line,
+      offset: open.start,
+      headerEndOffset: close.end,
+      endOffset: close.end,
+    };
+  }
+
+  private parseProperty(): ResourceProperty {
+    const { key, line, start } = this.tokenizer.readKey();
+    this.tokenizer.expect('equals');
+    const valueStart = this.tokenizer.peek().start;
+    const value = this.parseValue();
+    const endOffset = this.tokenizer.previousEnd;
+
+    return {
+      key,
+      value,
+      raw: this.source.slice(valueStart, endOffset),
+      line,
+      endLine: this.tokenizer.previousLine,
+      offset: start,
+      endOffset,
+    };
+  }
+
+  private parseValue(): VariantNode {
+    const token = this.tokenizer.next();
+
+    switch (token.type) {
+      case 'string':
+        return { kind: 'string', value: token.value };
+      case 'stringName':
+        return { kind: 'stringName', value: token.value };
+      case 'nodePath':
+        return { kind: 'nodePath', value: token.value };
+      case 'number':
+        return { kind: 'number', value: this.parseNumber(token.value), raw: token.value };
+      case 'bracketOpen':
+        return { kind: 'array', items: this.parseList('bracketClose') };
+      case 'braceOpen':
+        return { kind: 'dictionary', entries: this.parseDictionaryEntries() };
+      case 'identifier':
+        return this.parseIdentifierValue(token);
+      default:
+        throw new Error(`Unexpected ${token.type === 'eof' ? 'end of file' : `'${token.value}'`} at line ${token.line}`);
+    }
+  }
+
+  private parseIdentifierValue(token: Token): VariantNode {
+    const name = token.value;
+
+    switch (name) {
+      case 'true':
+      case 'false':
+        return { kind: 'bool', value: name === 'true' };
+      case 'null':
+        return { kind: 'null' };
+      case 'inf':
+      case 'nan':
+        return { kind: 'number', value: this.parseNumber(name), raw: name };
+    }
+
+    const next = this.tokenizer.peek();
+
+    // Typed containers: Array[int]([1, 2]) / Dictionary[String, int]({...})
+    if (next.type === 'bracketOpen' && (name === 'Array' || name === 'Dictionary')) {
+      this.tokenizer.next();
+      const typeStart = this.tokenizer.peek().start;
+      let depth = 1;
+      let typeEnd = typeStart;
+      while (depth > 0) {
+        const inner = this.tokenizer.next();
+        if (inner.type === 'eof') {
+          throw new Error(`Unterminated type hint at line ${token.line}`);
+        }
+        if (inner.type === 'bracketOpen') depth++;
+        if (inner.type === 'bracketClose') depth--;
+        if (depth > 0) typeEnd = inner.end;
+      }
+      const typeHint = this.source.slice(typeStart, typeEnd);
+      this.tokenizer.expect('parenOpen');
+      const inner = this.parseValue();
+      this.tokenizer.expect('parenClose');
+      if (inner.kind === 'array' || inner.kind === 'dictionary') {
+        return { ...inner, typeHint };
+      }
+      return inner;
+    }
+
+    if (next.type !== 'parenOpen') {
+      return { kind: 'identifier', name };
+    }
+
+    this.tokenizer.next();
+
+    if (name === 'Object') {
+      const className = this.tokenizer.expect('identifier').value;
+      const properties: { key: string; value: VariantNode }[] = [];
+      while (this.tokenizer.peek().type === 'comma') {
+        this.tokenizer.next();
+        if (this.tokenizer.peek().type === 'parenClose') break;
+        const key = this.tokenizer.expect('string').value;
+        this.tokenizer.expect('colon');
+        properties.push({ key, value: this.parseValue() });
+      }
+      this.tokenizer.expect('parenClose');
+      return { kind: 'object', className, properties };
+    }
+
+    return { kind: 'call', name, args: this.parseList('parenClose') };
+  }
+
+  private parseList(terminator: TokenType): VariantNode[] {
+    const items: VariantNode[] = [];
+
+    while (this.tokenizer.peek().type !== terminator) {
+      items.push(this.parseValue());
+      if (this.tokenizer.peek().type === 'comma') {
+        this.tokenizer.next();
+      } else {
+        break;
+      }
+    }
+    this.tokenizer.expect(terminator);
+
+    return items;
+  }
+
+  private parseDictionaryEntries(): { key: VariantNode; value: VariantNode }[] {
+    const entries: { key: VariantNode; value: VariantNode }[] = [];
+
+    while (this.tokenizer.peek().type !== 'braceClose') {
+      const key = this.parseValue();
+      this.tokenizer.expect('colon');
+      entries.push({ key, value: this.parseValue() });
+      if (this.tokenizer.peek().type === 'comma') {
+        this.tokenizer.next();
+      } else {
+        break;
+      }
+    }
+    this.tokenizer.expect('braceClose');
+
+    return entries;
+  }
+
+  private parseNumber(raw: string): number {
+    switch (raw) {
+      case 'inf':
+        return Infinity;
+      case '-inf':
+      case 'inf_neg':
+      case '-inf_neg':
+        return -Infinity;
+      case 'nan':
+      case '-nan':
+        return NaN;
+      default:
+        return Number(raw);
+    }
+  }
+}
+
+export function parseResource(content: string): ResourceDocument {
+  return new ResourceParser(content).parse();
+}
+
+export function escapeVariantString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Serializes a variant back to the text form Godot writes.
+ */
+export function stringifyVariant(node: VariantNode): string {
+  switch (node.kind) {
+    case 'string':
+      return `"${escapeVariantString(node.value)}"`;
+    case 'stringName':
+      return `&"${escapeVariantString(node.value)}"`;
+    case 'nodePath':
+      return `^"${escapeVariantString(node.value)}"`;
+    case 'number':
+      if (node.raw) return node.raw;
+      if (Number.isNaN(node.value)) return 'nan';
+      if (node.value === Infinity) return 'inf';
+      if (node.value === -Infinity) return '-inf';
+      return String(node.value);
+    case 'bool':
+      return node.value ? 'true' : 'false';
+    case 'null':
+      return 'null';
+    case 'identifier':
+      return node.name;
+    case 'call':
+      return `${node.name}(${node.args.map(arg => stringifyVariant(arg)).join(', ')})`;
+    case 'object': {
+      const properties = node.properties.map(p => `"${escapeVariantString(p.key)}":${stringifyVariant(p.value)}`);
+      return `Object(${[node.className, ...properties].join(',')})`;
+    }
+    case 'array': {
+      const array = `[${node.items.map(item => stringifyVariant(item)).join(', ')}]`;
+      return node.typeHint ? `Array[${node.typeHint}](${array})` : array;
+    }
+    case 'dictionary': {
+      const dictionary = node.entries.length === 0
+        ? '{}'
+        : `{\n${node.entries.map(e => `${stringifyVariant(e.key)}: ${stringifyVariant(e.value)}`).join(',\n')}\n}`;
+      return node.typeHint ? `Dictionary[${node.typeHint}](${dictionary})` : dictionary;
+    }
+  }
+}
+
+/**
+ * Serializes a section header and its properties, e.g.
+ * `[node name="Player" type="CharacterBody2D" parent="."]` followed by `key = value` lines.
+ */
+export function stringifySection(
+  tag: string,
+  attributes: Record<string, VariantNode>,
+  properties: { key: string; value: VariantNode }[] = []
+): string {
+  const header = [tag, ...Object.entries(attributes).map(([key, value]) => `${key}=${stringifyVariant(value)}`)];
+  const lines = [`[${header.join(' ')}]`];
+  for (const property of properties) {
+    lines.push(`${property.key} = ${stringifyVariant(property.value)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Converts a variant to a plain JSON value. Strings, numbers, booleans and
+ * containers map directly; constructor calls are kept as their source text.
+ */
+export function toPlainValue(node: VariantNode): any {
+  switch (node.kind) {
+    case 'string':
+    case 'stringName':
+    case 'nodePath':
+      return node.value;
+    case 'number':
+    case 'bool':
+      return node.value;
+    case 'null':
+      return null;
+    case 'identifier':
+      return node.name;
+    case 'array':
+      return node.items.map(item => toPlainValue(item));
+    case 'dictionary': {
+      const result: Record<string, any> = {};
+      for (const entry of node.entries) {
+        result[String(toPlainValue(entry.key))] = toPlainValue(entry.value);
+      }
+      return result;
+    }
+    default:
+      return stringifyVariant(node);
+  }
+}
+
+/**
+ * Returns the first argument of a resource reference such as ExtResource("1_abc")
+ * or SubResource("Shape_x"), or undefined if the node is not that call.
+ */
+export function getResourceReferenceId(node: VariantNode | undefined, callName: string): string | undefined {
+  if (!node || node.kind !== 'call' || node.name !== callName || node.args.length === 0) {
+    return undefined;
+  }
+  const arg = node.args[0];
+  if (arg.kind === 'string' || arg.kind === 'number') {
+    return String(arg.kind === 'string' ? arg.value : arg.raw);
+  }
+  return undefined;
+}
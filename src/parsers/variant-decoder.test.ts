@@ -0,0 +1,70 @@
+import { VariantNode, parseResource } from './resource-parser.js';
+import { decodeVariant } from './variant-decoder.js';
+
+function parseValue(raw: string): VariantNode {
+  return parseResource(`value = ${raw}\n`).globals[0].value;
+}
+
+describe('decodeVariant', () => {
+  it('decodes math types into named components', () => {
+    expect(decodeVariant(parseValue('Vector2(10, -2.5)'))).toEqual({ type: 'Vector2', x: 10, y: -2.5 });
+    expect(decodeVariant(parseValue('Color(1, 0.5, 0, 1)'))).toEqual({ type: 'Color', r: 1, g: 0.5, b: 0, a: 1 });
+    expect(decodeVariant(parseValue('Rect2(0, 0, 64, 32)'))).toEqual({
+      type: 'Rect2',
+      position: { x: 0, y: 0 },
+      size: { x: 64, y: 32 },
+    });
+    expect(decodeVariant(parseValue('Transform3D(1, 0, 0, 0, 1, 0, 0, 0, 1, 4, 5, 6)'))).toEqual({
+      type: 'Transform3D',
+      basis: { rows: [{ x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, { x: 0, y: 0, z: 1 }] },
+      origin: { x: 4, y: 5, z: 6 },
+    });
+  });
+
+  it('groups packed vector arrays into elements', () => {
+    expect(decodeVariant(parseValue('PackedVector2Array(0, 0, 32, 16)'))).toEqual({
+      type: 'PackedVector2Array',
+      values: [{ x: 0, y: 0 }, { x: 32, y: 16 }],
+    });
+    expect(decodeVariant(parseValue('PackedStringArray("a", "b")'))).toEqual({ type: 'PackedStringArray', values: ['a', 'b'] });
+  });
+
+  it('resolves resource references from the context', () => {
+    const context = {
+      extResources: [{ id: '1_tex', type: 'Texture2D', path: 'res://icon.svg', uid: 'uid://e3icon' }],
+      subResources: [{ id: 'Shape_a', type: 'CircleShape2D', properties: {} }],
+    };
+
+    expect(decodeVariant(parseValue('ExtResource("1_tex")'), context)).toEqual({
+      type: 'ExtResource',
+      id: '1_tex',
+      resourceType: 'Texture2D',
+      resolvedPath: 'res://icon.svg',
+      uid: 'uid://e3icon',
+    });
+    expect(decodeVariant(parseValue('SubResource("Shape_a")'), context)).toEqual({
+      type: 'SubResource',
+      id: 'Shape_a',
+      resourceType: 'CircleShape2D',
+    });
+  });
+
+  it('keeps string-keyed dictionaries plain and types the rest', () => {
+    expect(decodeVariant(parseValue('{\n"speed": 2.0,\n"tags": ["a"]\n}'))).toEqual({ speed: 2, tags: ['a'] });
+    expect(decodeVariant(parseValue('{\n1: "one"\n}'))).toEqual({ type: 'Dictionary', entries: [{ key: 1, value: 'one' }] });
+    expect(decodeVariant(parseValue('Array[int]([1, 2])'))).toEqual({ type: 'Array', elementType: 'int', values: [1, 2] });
+  });
+
+  it('returns non-finite numbers as strings', () => {
+    expect(decodeVariant(parseValue('inf'))).toBe('inf');
+    expect(decodeVariant(parseValue('Vector2(nan, -inf)'))).toEqual({ type: 'Vector2', x: 'nan', y: '-inf' });
+  });
+
+  it('keeps unknown constructors with their source text', () => {
+    expect(decodeVariant(parseValue('Callable(1, "a")'))).toEqual({
+      type: 'Callable',
+      args: [1, 'a'],
+      raw: 'Callable(1, "a")',
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { GodotExtResource, GodotSubResource } from '../types/index.js';
+import { VariantNode, stringifyVariant } from './resource-parser.js';
+
+/**
+ * Decodes parsed Variant literals into structured JSON, e.g.
+ * `Vector2(10, 20)` -> `{ type: "Vector2", x: 10, y: 20 }` and
+ * `ExtResource("3_abc")` -> `{ type: "ExtResource", id: "3_abc", resolvedPath: "res://..." }`.
+ */
+
+export interface VariantDecodeContext {
+  extResources?: GodotExtResource[];
+  subResources?: GodotSubResource[];
+}
+
+// Component names for fixed-size math types, in the order Godot writes them
+export const COMPONENT_TYPES: Record<string, string[]> = {
+  Vector2: ['x', 'y'],
+  Vector2i: ['x', 'y'],
+  Vector3: ['x', 'y', 'z'],
+  Vector3i: ['x', 'y', 'z'],
+  Vector4: ['x', 'y', 'z', 'w'],
+  Vector4i: ['x', 'y', 'z', 'w'],
+  Quaternion: ['x', 'y', 'z', 'w'],
+  Quat: ['x', 'y', 'z', 'w'],
+  Color: ['r', 'g', 'b', 'a'],
+};
+
+export const PACKED_VECTOR_TYPES: Record<string, string> = {
+  PackedVector2Array: 'Vector2',
+  PoolVector2Array: 'Vector2',
+  PackedVector3Array: 'Vector3',
+  PoolVector3Array: 'Vector3',
+  PackedVector4Array: 'Vector4',
+  PackedColorArray: 'Color',
+  PoolColorArray: 'Color',
+};
+
+export const PACKED_SCALAR_TYPES = new Set([
+  'PackedByteArray',
+  'PackedInt32Array',
+  'PackedInt64Array',
+  'PackedFloat32Array',
+  'PackedFloat64Array',
+  'PackedStringArray',
+  'PoolByteArray',
+  'PoolIntArray',
+  'PoolRealArray',
+  'PoolStringArray',
+]);
+
+export function decodeVariant(node: VariantNode, context: VariantDecodeContext = {}): any {
+  switch (node.kind) {
+    case 'string':
+      return node.value;
+    case 'stringName':
+      return { type: 'StringName', value: node.value };
+    case 'nodePath':
+      return { type: 'NodePath', path: node.value };
+    case 'number':
+      return decodeNumber(node.value);
+    case 'bool':
+      return node.value;
+    case 'null':
+      return null;
+    case 'identifier':
+      return node.name;
+    case 'array': {
+      const values = node.items.map(item => decodeVariant(item, context));
+      return node.typeHint ? { type: 'Array', elementType: node.typeHint, values } : values;
+    }
+    case 'dictionary':
+      return decodeDictionary(node, context);
+    case 'object': {
+      const properties: Record<string, any> = {};
+      for (const property of node.properties) {
+        properties[property.key] = decodeVariant(property.value, context);
+      }
+      return { type: 'Object', className: node.className, properties };
+    }
+    case 'call':
+      return decodeCall(node, context);
+  }
+}
+
+function decodeNumber(value: number): number | string {
+  // JSON has no representation for these
+  if (Number.isNaN(value)) return 'nan';
+  if (value === Infinity) return 'inf';
+  if (value === -Infinity) return '-inf';
+  return value;
+}
+
+function decodeDictionary(node: Extract<VariantNode, { kind: 'dictionary' }>, context: VariantDecodeContext): any {
+  const stringKeys = node.entries.every(e => e.key.kind === 'string' || e.key.kind === 'stringName');
+
+  if (stringKeys && !node.typeHint) {
+    const result: Record<string, any> = {};
+    for (const entry of node.entries) {
+      result[(entry.key as { value: string }).value] = decodeVariant(entry.value, context);
+    }
+    return result;
+  }
+
+  const dictionary: Record<string, any> = {
+    type: 'Dictionary',
+    entries: node.entries.map(e => ({
+      key: decodeVariant(e.key, context),
+      value: decodeVariant(e.value, context),
+    })),
+  };
+  if (node.typeHint) {
+    dictionary.typeHint = node.typeHint;
+  }
+  return dictionary;
+}
+
+function decodeCall(node: Extract<VariantNode, { kind: 'call' }>, context: VariantDecodeContext): any {
+  const { name, args } = node;
+  const numbers = args.map(arg => (arg.kind === 'number' ? arg.value : NaN));
+
+  if (COMPONENT_TYPES[name] && args.length === COMPONENT_TYPES[name].length) {
+    return withComponents(name, COMPONENT_TYPES[name], numbers);
+  }
+
+  if (PACKED_VECTOR_TYPES[name]) {
+    const elementType = PACKED_VECTOR_TYPES[name];
+    const components = COMPONENT_TYPES[elementType];
+    const values = [];
+    for (let i = 0; i + components.length <= numbers.length; i += components.length) {
+      values.push(toComponents(components, numbers.slice(i, i + components.length)));
+    }
+    return { type: name, values };
+  }
+
+  if (PACKED_SCALAR_TYPES.has(name)) {
+    return { type: name, values: args.map(arg => decodeVariant(arg, context)) };
+  }
+
+  switch (name) {
+    case 'Rect2':
+    case 'Rect2i':
+      if (args.length === 4) {
+        return {
+          type: name,
+          position: toComponents(['x', 'y'], numbers.slice(0, 2)),
+          size: toComponents(['x', 'y'], numbers.slice(2, 4)),
+        };
+      }
+      break;
+    case 'AABB':
+      if (args.length === 6) {
+        return {
+          type: name,
+          position: toComponents(['x', 'y', 'z'], numbers.slice(0, 3)),
+          size: toComponents(['x', 'y', 'z'], numbers.slice(3, 6)),
+        };
+      }
+      break;
+    case 'Plane':
+      if (args.length === 4) {
+        return {
+          type: name,
+          normal: toComponents(['x', 'y', 'z'], numbers.slice(0, 3)),
+          d: decodeNumber(numbers[3]),
+        };
+      }
+      break;
+    case 'Transform2D':
+      if (args.length === 6) {
+        return {
+          type: name,
+          x: toComponents(['x', 'y'], numbers.slice(0, 2)),
+          y: toComponents(['x', 'y'], numbers.slice(2, 4)),
+          origin: toComponents(['x', 'y'], numbers.slice(4, 6)),
+        };
+      }
+      break;
+    case 'Basis':
+      if (args.length === 9) {
+        return { type: name, ...decodeBasis(numbers) };
+      }
+      break;
+    case 'Transform3D':
+    case 'Transform':
+      if (args.length === 12) {
+        return {
+          type: name,
+          basis: decodeBasis(numbers.slice(0, 9)),
+          origin: toComponents(['x', 'y', 'z'], numbers.slice(9, 12)),
+        };
+      }
+      break;
+    case 'Projection':
+      if (args.length === 16) {
+        return {
+          type: name,
+          x: toComponents(['x', 'y', 'z', 'w'], numbers.slice(0, 4)),
+          y: toComponents(['x', 'y', 'z', 'w'], numbers.slice(4, 8)),
+          z: toComponents(['x', 'y', 'z', 'w'], numbers.slice(8, 12)),
+          w: toComponents(['x', 'y', 'z', 'w'], numbers.slice(12, 16)),
+        };
+      }
+      break;
+    case 'NodePath':
+      if (args[0]?.kind === 'string') {
+        return { type: 'NodePath', path: args[0].value };
+      }
+      break;
+    case 'StringName':
+      if (args[0]?.kind === 'string') {
+        return { type: 'StringName', value: args[0].value };
+      }
+      break;
+    case 'ExtResource':
+      return decodeExtResource(args, context);
+    case 'SubResource':
+      return decodeSubResource(args, context);
+    case 'Resource':
+      if (args[0]?.kind === 'string') {
+        return { type: 'Resource', path: args[0].value };
+      }
+      break;
+  }
+
+  return {
+    type: name,
+    args: args.map(arg => decodeVariant(arg, context)),
+    raw: stringifyVariant(node),
+  };
+}
+
+function decodeExtResource(args: VariantNode[], context: VariantDecodeContext): any {
+  const id = resourceId(args[0]);
+  const resource = context.extResources?.find(r => r.id === id);
+  const decoded: Record<string, any> = { type: 'ExtResource', id };
+  if (resource) {
+    decoded.resourceType = resource.type;
+    decoded.resolvedPath = resource.resolvedPath || resource.path;
+    if (resource.uid) decoded.uid = resource.uid;
+  }
+  return decoded;
+}
+
+function decodeSubResource(args: VariantNode[], context: VariantDecodeContext): any {
+  const id = resourceId(args[0]);
+  const resource = context.subResources?.find(r => r.id === id);
+  const decoded: Record<string, any> = { type: 'SubResource', id };
+  if (resource) {
+    decoded.resourceType = resource.type;
+  }
+  return decoded;
+}
+
+function resourceId(arg: VariantNode | undefined): string {
+  if (!arg) return '';
+  if (arg.kind === 'string') return arg.value;
+  if (arg.kind === 'number') return arg.raw;
+  return stringifyVariant(arg);
+}
+
+function decodeBasis(numbers: number[]): Record<string, any> {
+  // Basis is serialized row by row, unlike Transform2D and Projection which use columns
+  return {
+    rows: [0, 3, 6].map(start => toComponents(['x', 'y', 'z'], numbers.slice(start, start + 3))),
+  };
+}
+
+function withComponents(type: string, components: string[], numbers: number[]): Record<string, any> {
+  return { type, ...toComponents(components, numbers) };
+}
+
+function toComponents(components: string[], numbers: number[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  components.forEach((component, index) => {
+    result[component] = decodeNumber(numbers[index]);
+  });
+  return result;
+}
@@ -0,0 +1,50 @@
+import { VariantNode, parseResource, stringifyVariant } from './resource-parser.js';
+import { decodeVariant } from './variant-decoder.js';
+import { encodeVariant } from './variant-encoder.js';
+
+function parseValue(raw: string): VariantNode {
+  return parseResource(`value = ${raw}\n`).globals[0].value;
+}
+
+describe('encodeVariant', () => {
+  it.each([
+    'Vector2(10, -2.5)',
+    'Vector3i(1, 2, 3)',
+    'Color(1, 0.5, 0, 1)',
+    'Rect2(0, 0, 64, 32)',
+    'AABB(0, 0, 0, 1, 2, 3)',
+    'Plane(0, 1, 0, 5)',
+    'Transform2D(1, 0, 0, 1, 8, 9)',
+    'Basis(1, 0, 0, 0, 1, 0, 0, 0, 1)',
+    'Transform3D(1, 0, 0, 0, 1, 0, 0, 0, 1, 4, 5, 6)',
+    'PackedVector2Array(0, 0, 32, 16)',
+    'PackedInt32Array(1, 2, 3)',
+    'NodePath("Player/Sprite")',
+    '&"idle"',
+    'ExtResource("1_tex")',
+    'Resource("res://theme.tres")',
+    'Array[int]([1, 2])',
+    'Vector2(nan, inf)',
+    'Callable(1, "a")',
+  ])('encodes the decoded form of %s back to the same text', raw => {
+    expect(stringifyVariant(encodeVariant(decodeVariant(parseValue(raw))))).toBe(raw);
+  });
+
+  it('encodes plain values and objects', () => {
+    expect(stringifyVariant(encodeVariant(null))).toBe('null');
+    expect(stringifyVariant(encodeVariant(true))).toBe('true');
+    expect(stringifyVariant(encodeVariant('say "hi"'))).toBe('"say \\"hi\\""');
+    expect(stringifyVariant(encodeVariant([1, 'a']))).toBe('[1, "a"]');
+    expect(stringifyVariant(encodeVariant({ speed: 2, tags: [] }))).toBe('{\n"speed": 2,\n"tags": []\n}');
+  });
+
+  it('uses raw Godot text as given', () => {
+    expect(encodeVariant({ raw: 'Vector2(1, 2)' })).toEqual(parseValue('Vector2(1, 2)'));
+    expect(() => encodeVariant({ raw: 'Vector2(1, 2' })).toThrow();
+  });
+
+  it('rejects values with missing components', () => {
+    expect(() => encodeVariant({ type: 'Vector2', x: 1 })).toThrow('Cannot encode Vector2 value: expected components x, y');
+    expect(() => encodeVariant({ type: 'ExtResource' })).toThrow('Cannot encode ExtResource without an id');
+  });
+});
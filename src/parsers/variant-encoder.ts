@@ -0,0 +1,177 @@
+import { VariantNode, parseResource } from './resource-parser.js';
+import { COMPONENT_TYPES, PACKED_VECTOR_TYPES, PACKED_SCALAR_TYPES } from './variant-decoder.js';
+
+/**
+ * Encodes structured JSON back into Variant literals; the inverse of decodeVariant.
+ * `{ type: "Vector2", x: 10, y: 20 }` -> `Vector2(10, 20)`, plain objects become
+ * dictionaries and `{ type: "ExtResource", id: "1_abc" }` -> `ExtResource("1_abc")`.
+ * A `{ raw: "..." }` value is parsed as Godot text and used as-is.
+ */
+
+export function encodeVariant(value: any): VariantNode {
+  if (value === null || value === undefined) {
+    return { kind: 'null' };
+  }
+
+  if (typeof value === 'boolean') {
+    return { kind: 'bool', value };
+  }
+
+  if (typeof value === 'number') {
+    return numberNode(value);
+  }
+
+  if (typeof value === 'string') {
+    return { kind: 'string', value };
+  }
+
+  if (Array.isArray(value)) {
+    return { kind: 'array', items: value.map(item => encodeVariant(item)) };
+  }
+
+  if (typeof value === 'object') {
+    if (typeof value.raw === 'string') {
+      return parseRawVariant(value.raw);
+    }
+    if (typeof value.type === 'string') {
+      return encodeTyped(value);
+    }
+
+    // Plain objects are dictionaries with string keys, as decodeVariant produces them
+    return {
+      kind: 'dictionary',
+      entries: Object.entries(value).map(([key, entry]) => ({
+        key: { kind: 'string', value: key } as VariantNode,
+        value: encodeVariant(entry),
+      })),
+    };
+  }
+
+  throw new Error(`Cannot encode value of type ${typeof value}`);
+}
+
+function encodeTyped(value: Record<string, any>): VariantNode {
+  const type: string = value.type;
+
+  if (COMPONENT_TYPES[type]) {
+    return call(type, componentArgs(type, COMPONENT_TYPES[type], value));
+  }
+
+  if (PACKED_VECTOR_TYPES[type]) {
+    const components = COMPONENT_TYPES[PACKED_VECTOR_TYPES[type]];
+    const values: any[] = value.values || [];
+    return call(type, values.flatMap(item => componentArgs(type, components, item)));
+  }
+
+  if (PACKED_SCALAR_TYPES.has(type)) {
+    return call(type, (value.values || []).map((item: any) => encodeVariant(item)));
+  }
+
+  switch (type) {
+    case 'Rect2':
+    case 'Rect2i':
+      return call(type, [
+        ...componentArgs(type, ['x', 'y'], value.position),
+        ...componentArgs(type, ['x', 'y'], value.size),
+      ]);
+    case 'AABB':
+      return call(type, [
+        ...componentArgs(type, ['x', 'y', 'z'], value.position),
+        ...componentArgs(type, ['x', 'y', 'z'], value.size),
+      ]);
+    case 'Plane':
+      return call(type, [...componentArgs(type, ['x', 'y', 'z'], value.normal), numberNode(value.d)]);
+    case 'Transform2D':
+      return call(type, ['x', 'y', 'origin'].flatMap(column => componentArgs(type, ['x', 'y'], value[column])));
+    case 'Basis':
+      return call(type, encodeBasis(value));
+    case 'Transform3D':
+    case 'Transform':
+      return call(type, [...encodeBasis(value.basis), ...componentArgs(type, ['x', 'y', 'z'], value.origin)]);
+    case 'Projection':
+      return call(type, ['x', 'y', 'z', 'w'].flatMap(column => componentArgs(type, ['x', 'y', 'z', 'w'], value[column])));
+    case 'NodePath':
+      return call('NodePath', [{ kind: 'string', value: String(value.path ?? '') }]);
+    case 'StringName':
+      return { kind: 'stringName', value: String(value.value ?? '') };
+    case 'ExtResource':
+    case 'SubResource':
+      if (value.id === undefined) {
+        throw new Error(`Cannot encode ${type} without an id`);
+      }
+      return call(type, [{ kind: 'string', value: String(value.id) }]);
+    case 'Resource':
+      return call('Resource', [{ kind: 'string', value: String(value.path ?? '') }]);
+    case 'Array': {
+      const items = (value.values || []).map((item: any) => encodeVariant(item));
+      return { kind: 'array', items, typeHint: value.elementType };
+    }
+    case 'Dictionary':
+      return {
+        kind: 'dictionary',
+        entries: (value.entries || []).map((entry: any) => ({
+          key: encodeVariant(entry.key),
+          value: encodeVariant(entry.value),
+        })),
+        typeHint: value.typeHint,
+      };
+    case 'Object':
+      return {
+        kind: 'object',
+        className: value.className,
+        properties: Object.entries(value.properties || {}).map(([key, property]) => ({
+          key,
+          value: encodeVariant(property),
+        })),
+      };
+  }
+
+  // Any other constructor, e.g. { type: "Callable", args: [...] }
+  if (Array.isArray(value.args)) {
+    return call(type, value.args.map((arg: any) => encodeVariant(arg)));
+  }
+
+  throw new Error(`Cannot encode ${type} value without args`);
+}
+
+function encodeBasis(value: Record<string, any> | undefined): VariantNode[] {
+  // Basis is serialized row by row
+  const rows: any[] = value?.rows || [];
+  if (rows.length !== 3) {
+    throw new Error('Cannot encode Basis value: expected 3 rows');
+  }
+  return rows.flatMap(row => componentArgs('Basis', ['x', 'y', 'z'], row));
+}
+
+function componentArgs(type: string, components: string[], value: Record<string, any> | undefined): VariantNode[] {
+  if (!value || components.some(component => value[component] === undefined)) {
+    throw new Error(`Cannot encode ${type} value: expected components ${components.join(', ')}`);
+  }
+  return components.map(component => numberNode(value[component]));
+}
+
+function numberNode(value: number | string): VariantNode {
+  // decodeVariant returns these as strings since JSON can't represent them
+  if (value === 'nan') return { kind: 'number', value: NaN, raw: 'nan' };
+  if (value === 'inf') return { kind: 'number', value: Infinity, raw: 'inf' };
+  if (value === '-inf') return { kind: 'number', value: -Infinity, raw: '-inf' };
+
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`Cannot encode number: ${value}`);
+  }
+  return { kind: 'number', value: number, raw: String(number) };
+}
+
+function call(name: string, args: VariantNode[]): VariantNode {
+  return { kind: 'call', name, args };
+}
+
+function parseRawVariant(raw: string): VariantNode {
+  const document = parseResource(`value = ${raw}\n`);
+  const property = document.globals[0];
+  if (!property || property.key !== 'value' || document.globals.length !== 1 || document.sections.length > 0) {
+    throw new Error(`Invalid Variant literal: ${raw}`);
+  }
+  return property.value;
+}
@@ -1,9 +1,13 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { McpToolResponse } from '../types/index.js';
+import { ProjectFileWriter, isInsideProject } from '../file-writer.js';
 
 export class GameDevTools {
-  constructor(private projectPath: string) {}
+  constructor(
+    private projectPath: string,
+    private fileWriter: ProjectFileWriter = new ProjectFileWriter(projectPath),
+  ) {}
 
   async analyzeGameArchitecture(): Promise<McpToolResponse> {
     try {
@@ -26,9 +30,52 @@ export class GameDevTools {
     }
   }
 
-  async generateUIComponent(componentType: string, componentName: string, options: any = {}): Promise<McpToolResponse> {
+  async generateUIComponent(
+    componentType: string,
+    componentName: string,
+    options: any = {},
+    output: { outputPath?: string; overwrite?: boolean } = {}
+  ): Promise<McpToolResponse> {
     try {
-      const component = await this.createUIComponentTemplate(componentType, componentName, options);
+      const scriptPath = output.outputPath?.replace(/^res:\/\//, '');
+      if (scriptPath !== undefined && path.extname(scriptPath) !== '.gd') {
+        return {
+          success: false,
+          error: `Script path must end with .gd: ${output.outputPath}`,
+        };
+      }
+      if (scriptPath !== undefined && !isInsideProject(this.projectPath, path.join(this.projectPath, scriptPath))) {
+        return {
+          success: false,
+          error: `Path must be inside the project: ${output.outputPath}`,
+        };
+      }
+      
+      const scriptResPath = scriptPath ? `res://${scriptPath}` : `res://scripts/ui/${componentName}.gd`;
+      const component = await this.createUIComponentTemplate(componentType, componentName, options, scriptResPath);
+      const written: string[] = [];
+      
+      if (scriptPath) {
+        // The scene is written next to the script, with the script attached to its root
+        const files = [
+          { relativePath: scriptPath, content: component.script },
+          { relativePath: scriptPath.replace(/\.gd$/, '.tscn'), content: component.scene },
+        ];
+        
+        for (const file of files) {
+          if (await this.fileWriter.pathExists(path.join(this.projectPath, file.relativePath)) && !output.overwrite) {
+            return {
+              success: false,
+              error: `File already exists: ${file.relativePath}`,
+            };
+          }
+        }
+        
+        for (const file of files) {
+          await this.fileWriter.writeFile(path.join(this.projectPath, file.relativePath), `${file.content}\n`);
+          written.push(`res://${file.relativePath}`);
+        }
+      }
       
       return {
         success: true,
@@ -38,6 +85,7 @@ export class GameDevTools {
           script: component.script,
           scene: component.scene,
           usage: component.usage,
+          ...(written.length > 0 && { written }),
         },
       };
     } catch (error) {
@@ -282,8 +330,8 @@ export class GameDevTools {
     };
   }
 
-  private async createUIComponentTemplate(componentType: string, componentName: string, options: any): Promise<any> {
-    const templates: Record<string, (name: string, options: any) => any> = {
+  private async createUIComponentTemplate(componentType: string, componentName: string, options: any, scriptPath: string): Promise<any> {
+    const templates: Record<string, (name: string, options: any, scriptPath: string) => any> = {
       menu: this.createMenuTemplate,
       dialog: this.createDialogTemplate,
       hud: this.createHUDTemplate,
@@ -296,10 +344,10 @@ export class GameDevTools {
       throw new Error(`Unknown component type: ${componentType}`);
     }
 
-    return template.call(this, componentName, options);
+    return template.call(this, componentName, options, scriptPath);
   }
 
-  private createMenuTemplate(name: string, _options: any): any {
+  private createMenuTemplate(name: string, _options: any, scriptPath: string): any {
     return {
       script: `extends Control
 class_name ${name}
@@ -328,7 +376,7 @@ func _on_button_pressed(action: String) -> void:
 	menu_action.emit(action)`,
       scene: `[gd_scene load_steps=2 format=3]
 
-[ext_resource type="Script" path="res://scripts/ui/${name}.gd" id="1"]
+[ext_resource type="Script" path="${scriptPath}" id="1"]
 
 [node name="${name}" type="Control"]
 layout_mode = 3
@@ -351,7 +399,7 @@ func _on_menu_action(action: String):
     };
   }
 
-  private createDialogTemplate(name: string, _options: any): any {
+  private createDialogTemplate(name: string, _options: any, scriptPath: string): any {
     return {
       script: `extends AcceptDialog
 class_name ${name}
@@ -378,7 +426,7 @@ func show_dialog(title: String, message: String) -> void:
 	popup_centered()`,
       scene: `[gd_scene load_steps=2 format=3]
 
-[ext_resource type="Script" path="res://scripts/ui/${name}.gd" id="1"]
+[ext_resource type="Script" path="${scriptPath}" id="1"]
 
 [node name="${name}" type="AcceptDialog"]
 script = ExtResource("1")`,
@@ -389,7 +437,7 @@ dialog.show_dialog("Confirm", "Are you sure?")`
     };
   }
 
-  private createHUDTemplate(name: string, _options: any): any {
+  private createHUDTemplate(name: string, _options: any, scriptPath: string): any {
     return {
       script: `extends CanvasLayer
 class_name ${name}
@@ -430,7 +478,7 @@ func update_timer(time: float) -> void:
 		timer_label.text = "%02d:%02d" % [minutes, seconds]`,
       scene: `[gd_scene load_steps=2 format=3]
 
-[ext_resource type="Script" path="res://scripts/ui/${name}.gd" id="1"]
+[ext_resource type="Script" path="${scriptPath}" id="1"]
 
 [node name="${name}" type="CanvasLayer"]
 script = ExtResource("1")
@@ -462,7 +510,7 @@ func _ready():
     };
   }
 
-  private createCardTemplate(name: string, _options: any): any {
+  private createCardTemplate(name: string, _options: any, scriptPath: string): any {
     return {
       script: `extends Control
 class_name ${name}
@@ -515,7 +563,7 @@ func _on_gui_input(event: InputEvent) -> void:
 		card_selected.emit(self)`,
       scene: `[gd_scene load_steps=2 format=3]
 
-[ext_resource type="Script" path="res://scripts/ui/${name}.gd" id="1"]
+[ext_resource type="Script" path="${scriptPath}" id="1"]
 
 [node name="${name}" type="Control"]
 layout_mode = 3
@@ -541,7 +589,7 @@ func _on_card_selected(card: ${name}):
     };
   }
 
-  private createBoardTemplate(name: string, _options: any): any {
+  private createBoardTemplate(name: string, _options: any, scriptPath: string): any {
     return {
       script: `extends Control
 class_name ${name}
@@ -614,7 +662,7 @@ func clear_highlights() -> void:
 	queue_redraw()`,
       scene: `[gd_scene load_steps=2 format=3]
 
-[ext_resource type="Script" path="res://scripts/ui/${name}.gd" id="1"]
+[ext_resource type="Script" path="${scriptPath}" id="1"]
 
 [node name="${name}" type="Control"]
 layout_mode = 3
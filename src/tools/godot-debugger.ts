@@ -1,7 +1,13 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { glob } from 'glob';
 import { spawn, ChildProcess } from 'child_process';
-import { McpToolResponse } from '../types/index.js';
+import { McpToolResponse, GodotDependencyKind } from '../types/index.js';
+import { parseResource, ResourceSection, VariantNode, getResourceReferenceId, toPlainValue } from '../parsers/resource-parser.js';
+import { GodotResourceManager, GodotUidIndex, isPathTemplate } from './resource-manager.js';
+import { GodotScriptManager } from './script-manager.js';
+import { GodotSceneManager } from './scene-manager.js';
+import { GDScriptLintConfig, GDSCRIPT_LINT_RULES, lintGDScript } from '../parsers/gdscript-linter.js';
 
 export interface GodotError {
   type: 'error' | 'warning' | 'info';
@@ -24,12 +30,34 @@ export interface DebugSession {
   projectPath: string;
 }
 
+// How each kind of dependency edge is named in diagnostics
+const DEPENDENCY_LABELS: Record<GodotDependencyKind, string> = {
+  ext_resource: 'ext_resource',
+  preload: 'preloaded resource',
+  load: 'loaded resource',
+  extends: 'base script',
+  include: 'shader include',
+  autoload: 'autoload',
+  main_scene: 'main scene',
+};
+
+// Project-level linter settings, e.g. { "rules": { "max-line-length": { "max": 120 }, "unused-parameter": "off" } }
+const LINT_CONFIG_FILE = '.gdlint.json';
+
+// Text files whose res:// and uid:// strings are checked
+const REFERENCE_SOURCES = ['.tscn', '.tres', '.gd', '.cs', '.gdshader', '.gdshaderinc', '.godot'];
+
 export class GodotDebugger {
   private projectPath: string;
   private activeSessions: Map<string, DebugSession> = new Map();
   private godotProcesses: Map<string, ChildProcess> = new Map();
 
-  constructor(projectPath: string) {
+  constructor(
+    projectPath: string,
+    private resourceManager: GodotResourceManager = new GodotResourceManager(projectPath),
+    private scriptManager: GodotScriptManager = new GodotScriptManager(projectPath),
+    private sceneManager: GodotSceneManager = new GodotSceneManager(projectPath, scriptManager, resourceManager)
+  ) {
     this.projectPath = projectPath;
   }
 
@@ -214,6 +242,7 @@ export class GodotDebugger {
         sceneErrors: await this.checkSceneIntegrity(),
         dependencyIssues: await this.checkDependencies(),
         performanceIssues: await this.checkPerformanceIssues(),
+        signalConnections: await this.checkSignalConnections(),
       };
 
       const overallHealth = this.calculateProjectHealth(diagnostics);
@@ -308,6 +337,8 @@ export class GodotDebugger {
       /^WARNING:\s*(.+?)\s+at:\s+(.+):(\d+)/,
       // Script error pattern
       /^(.+\.gd):(\d+):\s*(.+)/,
+      // C# compiler error pattern: file.cs(line,column): error CS0000: message
+      /^(.+\.cs)\((\d+),\d+\):\s*(.+)/,
       // General error pattern
       /^(ERROR|WARNING|INFO):\s*(.+)/,
     ];
@@ -339,7 +370,7 @@ export class GodotDebugger {
       error.message = match[1];
       if (match[2]) error.file = match[2];
       if (match[3]) error.line = parseInt(match[3]);
-    } else if (match[1]?.endsWith('.gd')) {
+    } else if (/\.(gd|cs)$/.test(match[1] || '')) {
       error.type = 'error';
       error.file = match[1];
       error.line = parseInt(match[2]);
@@ -617,96 +648,306 @@ export class GodotDebugger {
 
   private async checkScriptSyntax(): Promise<any> {
     const issues: string[] = [];
+    const byRule: Record<string, number> = {};
+    // Problems with .gdlint.json and files that couldn't be checked aren't script issues
+    const configProblems: string[] = [];
+    const failures: string[] = [];
+    let errors = 0;
     
     try {
-      const scriptFiles = await this.getAllGDScripts();
+      const { config, problems } = await this.loadLintConfig();
+      configProblems.push(...problems);
       
-      for (const scriptFile of scriptFiles) {
-        const content = await fs.readFile(scriptFile, 'utf-8');
-        const syntaxIssues = this.checkGDScriptSyntax(content, scriptFile);
-        issues.push(...syntaxIssues);
+      let ignored = new Set<string>();
+      try {
+        ignored = new Set(
+          (config.ignore && config.ignore.length > 0 ? await glob(config.ignore, { cwd: this.projectPath, nodir: true }) : [])
+            .map(file => path.join(this.projectPath, file))
+        );
+      } catch (error) {
+        configProblems.push(`${path.join(this.projectPath, LINT_CONFIG_FILE)} - Invalid ignore patterns: ${error instanceof Error ? error.message : error}`);
+      }
+      
+      for (const scriptFile of await this.getAllScripts()) {
+        if (ignored.has(scriptFile)) continue;
+        
+        try {
+          const content = await fs.readFile(scriptFile, 'utf-8');
+          
+          if (scriptFile.endsWith('.cs')) {
+            const syntaxIssues = this.checkCSharpSyntax(content, scriptFile);
+            issues.push(...syntaxIssues);
+            errors += syntaxIssues.length;
+            continue;
+          }
+          
+          for (const issue of lintGDScript(content, config)) {
+            issues.push(`${scriptFile}:${issue.line} - [${issue.rule}] ${issue.message}`);
+            byRule[issue.rule] = (byRule[issue.rule] || 0) + 1;
+            if (issue.severity === 'error') errors++;
+          }
+        } catch (error) {
+          failures.push(`${scriptFile} - Failed to check script: ${error instanceof Error ? error.message : error}`);
+        }
       }
-    } catch (_error) {
-      issues.push('Failed to check script syntax');
+    } catch (error) {
+      failures.push(`Failed to check script syntax: ${error instanceof Error ? error.message : error}`);
     }
 
-    return { issues, count: issues.length };
+    return { issues, count: issues.length, errors, warnings: issues.length - errors, byRule, configProblems, failures };
   }
 
-  private checkGDScriptSyntax(content: string, filePath: string): string[] {
-    const issues: string[] = [];
-    const lines = content.split('\n');
+  private async loadLintConfig(): Promise<{ config: GDScriptLintConfig; problems: string[] }> {
+    const configPath = path.join(this.projectPath, LINT_CONFIG_FILE);
+    if (!await fs.pathExists(configPath)) {
+      return { config: {}, problems: [] };
+    }
+    
+    let config: GDScriptLintConfig;
+    try {
+      config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+    } catch (error) {
+      return { config: {}, problems: [`${configPath} - Invalid JSON, using the default lint rules: ${error instanceof Error ? error.message : error}`] };
+    }
+    
+    // Unknown rules and severities are reported and left out rather than failing the whole check
+    const problems: string[] = [];
+    const rules: NonNullable<GDScriptLintConfig['rules']> = {};
+    for (const [rule, setting] of Object.entries(config.rules || {})) {
+      const severity = typeof setting === 'object' && setting !== null ? setting.severity : setting;
+      if (!GDSCRIPT_LINT_RULES[rule]) {
+        problems.push(`${configPath} - Unknown lint rule: ${rule}`);
+      } else if (severity !== undefined && !['error', 'warning', 'off'].includes(severity)) {
+        problems.push(`${configPath} - Invalid severity for ${rule}: ${severity} (use error, warning or off)`);
+      } else if (typeof setting === 'object' && setting !== null) {
+        const options = GDSCRIPT_LINT_RULES[rule].options || {};
+        const valid: Record<string, any> = { severity };
+        for (const [option, value] of Object.entries(setting)) {
+          if (option === 'severity') continue;
+          if (!(option in options)) {
+            problems.push(`${configPath} - Unknown option for ${rule}: ${option}`);
+          } else if (typeof value !== typeof options[option] || (typeof value === 'string' && !this.isValidPattern(value))) {
+            problems.push(`${configPath} - Invalid value for ${rule}.${option}: ${JSON.stringify(value)}`);
+          } else {
+            valid[option] = value;
+          }
+        }
+        rules[rule] = valid;
+      } else {
+        rules[rule] = setting;
+      }
+    }
+    
+    return { config: { rules, ignore: config.ignore }, problems };
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNum = i + 1;
+  private checkCSharpSyntax(content: string, filePath: string): string[] {
+    const issues: string[] = [];
+    // Comments and literals may legitimately contain unbalanced braces
+    const code = content
+      .replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ''))
+      .replace(/\/\/.*$/gm, '')
+      .replace(/@"(?:[^"]|"")*"|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g, '""');
+
+    const opened = (code.match(/\{/g) || []).length;
+    const closed = (code.match(/\}/g) || []).length;
+    if (opened !== closed) {
+      issues.push(`${filePath} - Unbalanced braces (${opened} opening, ${closed} closing)`);
+    }
 
-      // Basic syntax checks
-      if (line.includes('func ') && !line.includes(':')) {
-        issues.push(`${filePath}:${lineNum} - Missing colon after function declaration`);
-      }
-      
-      if (line.trim().startsWith('if ') && !line.includes(':')) {
-        issues.push(`${filePath}:${lineNum} - Missing colon after if statement`);
-      }
+    // Godot only binds C# scripts to classes declared as partial
+    const className = path.basename(filePath, '.cs');
+    const classMatch = new RegExp(`\\b(partial\\s+)?class\\s+${className}\\b`).exec(code);
+    if (classMatch && !classMatch[1]) {
+      const lineNum = code.slice(0, classMatch.index).split('\n').length;
+      issues.push(`${filePath}:${lineNum} - Class ${className} must be declared partial to be used as a Godot script`);
     }
 
     return issues;
   }
 
+  private isValidPattern(pattern: string): boolean {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   private async checkSceneIntegrity(): Promise<any> {
     const issues: string[] = [];
+    const failures: string[] = [];
     
     try {
       const sceneFiles = await this.getAllScenes();
+      const index = await this.resourceManager.buildUidIndex();
       
       for (const sceneFile of sceneFiles) {
-        const content = await fs.readFile(sceneFile, 'utf-8');
-        const sceneIssues = this.validateScene(content, sceneFile);
-        issues.push(...sceneIssues);
+        try {
+          const content = await fs.readFile(sceneFile, 'utf-8');
+          const sceneIssues = await this.validateScene(content, sceneFile, index);
+          issues.push(...sceneIssues);
+        } catch (error) {
+          // Godot can't load a file it can't parse either, e.g. one left with merge conflict markers
+          const message = error instanceof Error ? error.message : String(error);
+          const line = /at line (\d+)/.exec(message)?.[1];
+          issues.push(`${sceneFile}${line ? `:${line}` : ''} - Cannot parse file: ${message}`);
+        }
       }
-    } catch (_error) {
-      issues.push('Failed to check scene integrity');
+    } catch (error) {
+      failures.push(`Failed to check scene integrity: ${error instanceof Error ? error.message : error}`);
     }
 
-    return { issues, count: issues.length };
+    return { issues, count: issues.length, failures };
   }
 
-  private validateScene(content: string, _filePath: string): string[] {
+  private async validateScene(content: string, filePath: string, index: GodotUidIndex): Promise<string[]> {
     const issues: string[] = [];
-
-    // Check for missing scripts
-    const scriptMatches = content.match(/script\s*=\s*ExtResource\([^)]+\)/g);
-    if (scriptMatches) {
-      for (const _match of scriptMatches) {
-        // Could check if script files exist (note: _match contains match info)
+    const lineAt = (offset: number) => content.slice(0, offset).split('\n').length;
+    const sections = parseResource(content).sections;
+    
+    // Godot loads an ext_resource by UID when it knows it and falls back to the text path otherwise
+    const declared = new Map<string, { section: ResourceSection; path?: string; missing: boolean; used: boolean }>();
+    for (const section of sections.filter(s => s.tag === 'ext_resource')) {
+      const { id, uid, path: textPath } = section.attributes;
+      const resourcePath = textPath ? String(toPlainValue(textPath)) : undefined;
+      const uidPath = uid ? this.resourceManager.resolveUid(index, String(toPlainValue(uid))) : undefined;
+      const resolved = uidPath || resourcePath;
+      const missing = !resolved || !await fs.pathExists(path.join(this.projectPath, resolved.replace(/^res:\/\//, '')));
+      
+      if (uid && !uidPath && !missing) {
+        issues.push(`${filePath}:${lineAt(section.offset)} - Unknown UID ${toPlainValue(uid)} for ${resourcePath}; Godot falls back to the path`);
+      }
+      declared.set(String(toPlainValue(id)), { section, path: resolved, missing, used: false });
+    }
+    
+    for (const section of sections.filter(s => s.tag !== 'ext_resource')) {
+      const values: { value: VariantNode; offset: number }[] = [
+        ...Object.values(section.attributes).map(value => ({ value, offset: section.offset })),
+        ...section.properties.map(property => ({ value: property.value, offset: property.offset })),
+      ];
+      
+      for (const { value, offset } of values) {
+        for (const id of this.collectExtResourceIds(value)) {
+          const resource = declared.get(id);
+          if (!resource) {
+            issues.push(`${filePath}:${lineAt(offset)} - ExtResource("${id}") is used but not declared`);
+            continue;
+          }
+          resource.used = true;
+          
+          // A missing instanced scene is reported on the node that instances it
+          if (resource.missing && getResourceReferenceId(section.attributes.instance, 'ExtResource') === id) {
+            const name = section.attributes.name ? toPlainValue(section.attributes.name) : '';
+            issues.push(`${filePath}:${lineAt(offset)} - Node ${name} instances missing scene ${resource.path}`);
+            resource.missing = false;
+          }
+        }
+      }
+    }
+    
+    for (const [id, resource] of declared) {
+      const line = lineAt(resource.section.offset);
+      if (resource.missing) {
+        issues.push(`${filePath}:${line} - ext_resource "${id}" points to missing file ${resource.path || '(no path)'}`);
+      }
+      if (!resource.used) {
+        issues.push(`${filePath}:${line} - ext_resource "${id}" (${resource.path}) is declared but never used`);
       }
     }
 
     return issues;
   }
 
+  private collectExtResourceIds(value: VariantNode): string[] {
+    const id = getResourceReferenceId(value, 'ExtResource');
+    if (id !== undefined) return [id];
+    switch (value.kind) {
+      case 'call':
+        return value.args.flatMap(arg => this.collectExtResourceIds(arg));
+      case 'array':
+        return value.items.flatMap(item => this.collectExtResourceIds(item));
+      case 'dictionary':
+        return value.entries.flatMap(entry => [...this.collectExtResourceIds(entry.key), ...this.collectExtResourceIds(entry.value)]);
+      case 'object':
+        return value.properties.flatMap(property => this.collectExtResourceIds(property.value));
+      default:
+        return [];
+    }
+  }
+
   private async checkDependencies(): Promise<any> {
     const issues: string[] = [];
     
-    // Check autoloads
     try {
-      const projectContent = await fs.readFile(path.join(this.projectPath, 'project.godot'), 'utf-8');
-      const autoloadMatches = projectContent.match(/\w+="[*]?res:\/\/[^"]+"/g) || [];
+      const index = await this.resourceManager.buildUidIndex();
+      const graph = await this.resourceManager.buildDependencyGraph(index);
+      const reported = new Set<string>();
+      const report = (file: string, line: number, target: string, message: string) => {
+        const key = `${file}:${line}:${target}`;
+        if (reported.has(key)) return;
+        reported.add(key);
+        issues.push(`${path.join(this.projectPath, file.replace(/^res:\/\//, ''))}:${line} - ${message}`);
+      };
+      
+      // Load calls with relative paths, extends, includes, autoloads and the main scene; ext_resources are checked with the scenes
+      for (const [file, edges] of graph.dependencies) {
+        for (const edge of edges) {
+          if (edge.missing && edge.kind !== 'ext_resource') {
+            report(file, edge.line || 1, edge.to, `Missing ${DEPENDENCY_LABELS[edge.kind]}: ${edge.to}`);
+          }
+        }
+      }
       
-      for (const autoload of autoloadMatches) {
-        const pathMatch = autoload.match(/"([^"]+)"/);
-        if (pathMatch) {
-          const scriptPath = pathMatch[1].replace('res://', '');
-          const fullPath = path.join(this.projectPath, scriptPath);
+      // Any other res:// or uid:// string, e.g. change_scene_to_file() targets, @export_file values or project settings
+      for (const file of graph.files.filter(file => REFERENCE_SOURCES.includes(path.extname(file)))) {
+        const lines = (await fs.readFile(path.join(this.projectPath, file.replace(/^res:\/\//, '')), 'utf-8')).split('\n');
+        const comment = file.endsWith('.gd') ? '#' : file.endsWith('.godot') ? ';' : '//';
+        
+        for (let i = 0; i < lines.length; i++) {
+          const line = lines[i];
+          if (line.trim().startsWith(comment) || line.startsWith('[ext_resource')) continue;
           
-          if (!await fs.pathExists(fullPath)) {
-            issues.push(`Missing autoload script: ${scriptPath}`);
+          for (const match of line.matchAll(/["']\*?((?:res|uid):\/\/[^"'\n]*)["']/g)) {
+            const reference = match[1];
+            if (isPathTemplate(reference, line.slice(match.index! + match[0].length))) continue;
+            if (reference.startsWith('uid://')) {
+              if (!this.resourceManager.resolveUid(index, reference)) {
+                report(file, i + 1, reference, `Unknown UID: ${reference}`);
+              }
+              continue;
+            }
+            
+            // "res://scene.tscn::Resource_id" points into a resource file
+            const target = reference.split('::')[0];
+            if (target !== 'res://' && !await fs.pathExists(path.join(this.projectPath, target.slice('res://'.length)))) {
+              report(file, i + 1, target, `Missing file: ${target}`);
+            }
           }
         }
       }
     } catch {
-      issues.push('Could not check autoload dependencies');
+      issues.push('Could not check dependencies');
+    }
+
+    return { issues, count: issues.length };
+  }
+
+  private async checkSignalConnections(): Promise<any> {
+    const issues: string[] = [];
+    
+    try {
+      for (const issue of await this.sceneManager.checkConnections()) {
+        const { signal, from, to, method } = issue.connection;
+        issues.push(`${path.join(this.projectPath, issue.scene)}:${issue.line} - ${issue.message} (${signal} from ${from} to ${method} on ${to})`);
+      }
+      
+      for (const call of await this.scriptManager.findUndeclaredSignalConnects()) {
+        issues.push(`${path.join(this.projectPath, call.script)}:${call.line} - connect() uses signal ${call.signal}, which is never declared: ${call.code}`);
+      }
+    } catch {
+      issues.push('Could not check signal connections');
     }
 
     return { issues, count: issues.length };
@@ -716,11 +957,13 @@ export class GodotDebugger {
     const issues: string[] = [];
     
     try {
-      const scriptFiles = await this.getAllGDScripts();
+      const scriptFiles = await this.getAllScripts();
       
       for (const scriptFile of scriptFiles) {
         const content = await fs.readFile(scriptFile, 'utf-8');
-        const perfIssues = this.analyzeScriptPerformance(content, scriptFile);
+        const perfIssues = scriptFile.endsWith('.cs')
+          ? this.analyzeCSharpPerformance(content, scriptFile)
+          : this.analyzeScriptPerformance(content, scriptFile);
         issues.push(...perfIssues);
       }
     } catch {
@@ -753,14 +996,39 @@ export class GodotDebugger {
     return issues;
   }
 
+  private analyzeCSharpPerformance(content: string, filePath: string): string[] {
+    const issues: string[] = [];
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      const lineNum = i + 1;
+
+      // Same checks as for GDScript, using the C# API names
+      if (content.includes('void _Process(') || content.includes('void _PhysicsProcess(')) {
+        if (/\b(GetNode|GetNodeOrNull|FindChild)\s*[<(]/.test(line)) {
+          issues.push(`${filePath}:${lineNum} - Node lookup in process function - cache the reference`);
+        }
+        
+        if (/\.Instantiate\s*[<(]/.test(line)) {
+          issues.push(`${filePath}:${lineNum} - Object instantiation in process function - use object pooling`);
+        }
+      }
+    }
+
+    return issues;
+  }
+
   private calculateProjectHealth(diagnostics: any): string {
     let score = 100;
     
     score -= diagnostics.projectStructure.issues.length * 5;
-    score -= diagnostics.scriptErrors.count * 3;
+    score -= diagnostics.scriptErrors.errors * 3;
+    score -= diagnostics.scriptErrors.warnings;
     score -= diagnostics.sceneErrors.count * 2;
     score -= diagnostics.dependencyIssues.count * 4;
     score -= diagnostics.performanceIssues.count * 2;
+    score -= diagnostics.signalConnections.count * 3;
 
     if (score >= 90) return 'Excellent';
     if (score >= 75) return 'Good';
@@ -771,10 +1039,18 @@ export class GodotDebugger {
   private generateHealthRecommendations(diagnostics: any): string[] {
     const recommendations: string[] = [];
     
-    if (diagnostics.scriptErrors.count > 0) {
+    if (diagnostics.scriptErrors.errors > 0) {
       recommendations.push('Fix script syntax errors to prevent runtime issues');
     }
     
+    if (diagnostics.scriptErrors.warnings > 0) {
+      recommendations.push(`Review GDScript lint warnings; rules can be configured or turned off in ${LINT_CONFIG_FILE}`);
+    }
+    
+    if (diagnostics.scriptErrors.configProblems.length > 0) {
+      recommendations.push(`Fix the problems in ${LINT_CONFIG_FILE}; settings that can't be used are ignored`);
+    }
+    
     if (diagnostics.performanceIssues.count > 5) {
       recommendations.push('Address performance issues to improve game responsiveness');
     }
@@ -782,6 +1058,10 @@ export class GodotDebugger {
     if (diagnostics.dependencyIssues.count > 0) {
       recommendations.push('Resolve missing dependencies to prevent crashes');
     }
+    
+    if (diagnostics.signalConnections.count > 0) {
+      recommendations.push('Fix broken signal connections; Godot reports them when the scene loads and the callbacks never run');
+    }
 
     return recommendations;
   }
@@ -794,10 +1074,14 @@ export class GodotDebugger {
       fixes.push('Missing dependencies (High Priority)');
     }
     
-    if (diagnostics.scriptErrors.count > 0) {
+    if (diagnostics.scriptErrors.errors > 0) {
       fixes.push('Script syntax errors (High Priority)');
     }
     
+    if (diagnostics.signalConnections.count > 0) {
+      fixes.push('Broken signal connections (High Priority)');
+    }
+    
     // Medium priority: performance and warnings
     if (diagnostics.performanceIssues.count > 3) {
       fixes.push('Performance optimizations (Medium Priority)');
@@ -874,10 +1158,14 @@ if scene:
     return suggestions;
   }
 
-  private async getAllGDScripts(): Promise<string[]> {
+  private async getAllScripts(): Promise<string[]> {
     const scripts: string[] = [];
     await this.walkDirectory(this.projectPath, (filePath) => {
-      if (filePath.endsWith('.gd')) {
+      // Skip C# build output (bin/, obj/) next to the .csproj
+      if (/(^|[\\/])(bin|obj)[\\/]/.test(path.relative(this.projectPath, filePath))) {
+        return;
+      }
+      if (filePath.endsWith('.gd') || filePath.endsWith('.cs')) {
         scripts.push(filePath);
       }
     });
@@ -887,7 +1175,7 @@ if scene:
   private async getAllScenes(): Promise<string[]> {
     const scenes: string[] = [];
     await this.walkDirectory(this.projectPath, (filePath) => {
-      if (filePath.endsWith('.tscn')) {
+      if (filePath.endsWith('.tscn') || filePath.endsWith('.tres')) {
         scenes.push(filePath);
       }
     });
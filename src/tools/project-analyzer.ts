@@ -1,7 +1,17 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { glob } from 'glob';
-import { GodotProject, McpToolResponse } from '../types/index.js';
+import {
+  GodotProject,
+  GodotInputAction,
+  GodotInputEvent,
+  GodotDisplaySettings,
+  GodotRenderingSettings,
+  GodotPhysicsSettings,
+  McpToolResponse,
+} from '../types/index.js';
+import { parseResource } from '../parsers/resource-parser.js';
+import { decodeVariant } from '../parsers/variant-decoder.js';
 
 export class GodotProjectAnalyzer {
   constructor(private projectPath: string) {}
@@ -39,95 +49,183 @@ export class GodotProjectAnalyzer {
     }
   }
 
-  private parseProjectFile(content: string): Partial<GodotProject> {
-    const lines = content.split('\n');
+  parseProjectFile(content: string): Partial<GodotProject> {
+    const document = parseResource(content);
     const project: Partial<GodotProject> = {
       autoloads: {},
+      autoloadDetails: [],
+      inputActions: [],
+      editorPlugins: [],
+      settings: {},
     };
 
-    let currentSection = '';
+    for (const property of document.globals) {
+      if (property.key === 'config_version') {
+        project.configVersion = decodeVariant(property.value);
+      }
+    }
     
-    for (const line of lines) {
-      const trimmed = line.trim();
+    for (const section of document.sections) {
+      const values: Record<string, any> = project.settings![section.tag] || {};
       
-      // Skip comments and empty lines
-      if (trimmed.startsWith(';') || trimmed === '') continue;
-      
-      // Section headers
-      if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
-        currentSection = trimmed.slice(1, -1);
-        continue;
+      for (const property of section.properties) {
+        const key = property.key;
+        const value = decodeVariant(property.value);
+        values[key] = value;
+        
+        switch (section.tag) {
+          case 'application':
+            this.parseApplicationSection(key, value, project);
+            break;
+          case 'autoload':
+            this.parseAutoloadSection(key, value, project);
+            break;
+          case 'input':
+            project.inputActions!.push(this.parseInputAction(key, value));
+            break;
+          case 'editor_plugins':
+            if (key === 'enabled') {
+              project.editorPlugins = this.toStringList(value);
+            }
+            break;
+        }
       }
       
-      // Key-value pairs
-      const equalIndex = trimmed.indexOf('=');
-      if (equalIndex === -1) continue;
-      
-      const key = trimmed.slice(0, equalIndex).trim();
-      const value = trimmed.slice(equalIndex + 1).trim();
-      
-      switch (currentSection) {
-        case 'application':
-          this.parseApplicationSection(key, value, project);
-          break;
-        case 'autoload':
-          this.parseAutoloadSection(key, value, project);
-          break;
-      }
+      project.settings![section.tag] = values;
     }
     
+    project.display = this.parseDisplaySettings(project.settings!.display || {});
+    project.rendering = this.parseRenderingSettings(project.settings!.rendering || {});
+    project.physics = this.parsePhysicsSettings(project.settings!.physics || {});
+    project.layerNames = this.parseLayerNames(project.settings!.layer_names || {});
+    
     return project;
   }
 
-  private parseApplicationSection(key: string, value: string, project: Partial<GodotProject>): void {
+  private parseApplicationSection(key: string, value: any, project: Partial<GodotProject>): void {
     switch (key) {
       case 'config/name':
-        project.name = this.parseStringValue(value);
+        project.name = String(value);
         break;
       case 'config/description':
-        project.description = this.parseStringValue(value);
+        project.description = String(value);
+        break;
+      case 'config/version':
+        project.version = String(value);
         break;
       case 'run/main_scene':
-        project.mainScene = this.parseStringValue(value);
+        project.mainScene = String(value);
         break;
       case 'config/icon':
-        project.icon = this.parseStringValue(value);
+        project.icon = String(value);
         break;
       case 'config/features':
-        project.features = this.parseArrayValue(value);
+        project.features = this.toStringList(value);
+        // The engine version the project was last saved with, e.g. "4.2"
+        project.engineVersion = project.features.find(feature => /^\d+\.\d+/.test(feature));
         break;
     }
   }
 
-  private parseAutoloadSection(key: string, value: string, project: Partial<GodotProject>): void {
-    if (project.autoloads) {
+  private parseAutoloadSection(key: string, value: any, project: Partial<GodotProject>): void {
+    if (project.autoloads && typeof value === 'string') {
       // Remove the "*" prefix if present (indicates singleton)
-      const scriptPath = value.startsWith('"*') 
-        ? this.parseStringValue(value.slice(1))
-        : this.parseStringValue(value);
+      const singleton = value.startsWith('*');
+      const scriptPath = singleton ? value.slice(1) : value;
       project.autoloads[key] = scriptPath;
+      project.autoloadDetails!.push({ name: key, path: scriptPath, singleton });
     }
   }
 
-  private parseStringValue(value: string): string {
-    // Remove quotes if present
-    if ((value.startsWith('"') && value.endsWith('"')) || 
-        (value.startsWith("'") && value.endsWith("'"))) {
-      return value.slice(1, -1);
+  private parseInputAction(name: string, value: any): GodotInputAction {
+    // Parse: action={ "deadzone": 0.5, "events": [Object(InputEventKey,...), ...] }
+    const events: any[] = Array.isArray(value?.events) ? value.events : [];
+    
+    return {
+      name,
+      deadzone: typeof value?.deadzone === 'number' ? value.deadzone : 0.5,
+      events: events
+        .filter(event => event?.type === 'Object')
+        .map(event => this.parseInputEvent(event.className, event.properties)),
+    };
+  }
+
+  private parseInputEvent(className: string, properties: Record<string, any>): GodotInputEvent {
+    const event: GodotInputEvent = { type: className };
+    const fields: Record<string, keyof GodotInputEvent> = {
+      device: 'device',
+      keycode: 'keycode',
+      physical_keycode: 'physicalKeycode',
+      key_label: 'keyLabel',
+      unicode: 'unicode',
+      button_index: 'buttonIndex',
+      axis: 'axis',
+      axis_value: 'axisValue',
+    };
+    
+    for (const [property, field] of Object.entries(fields)) {
+      if (typeof properties[property] === 'number') {
+        (event as any)[field] = properties[property];
+      }
     }
-    return value;
+    
+    const modifiers = ['alt', 'shift', 'ctrl', 'meta'].filter(modifier => properties[`${modifier}_pressed`] === true);
+    if (modifiers.length > 0) {
+      event.modifiers = modifiers;
+    }
+    
+    return event;
+  }
+
+  private parseDisplaySettings(values: Record<string, any>): GodotDisplaySettings {
+    return {
+      // Godot 4 defaults when the keys are absent
+      viewportWidth: values['window/size/viewport_width'] ?? 1152,
+      viewportHeight: values['window/size/viewport_height'] ?? 648,
+      windowWidthOverride: values['window/size/window_width_override'],
+      windowHeightOverride: values['window/size/window_height_override'],
+      windowMode: values['window/size/mode'],
+      stretchMode: values['window/stretch/mode'],
+      stretchAspect: values['window/stretch/aspect'],
+      vsyncMode: values['window/vsync/vsync_mode'],
+    };
+  }
+
+  private parseRenderingSettings(values: Record<string, any>): GodotRenderingSettings {
+    return {
+      renderingMethod: values['renderer/rendering_method'] ?? 'forward_plus',
+      renderingMethodMobile: values['renderer/rendering_method.mobile'],
+    };
   }
 
-  private parseArrayValue(value: string): string[] {
-    // Parse PackedStringArray format: PackedStringArray("value1", "value2")
-    const match = value.match(/PackedStringArray\((.*)\)/);
-    if (match) {
-      const content = match[1];
-      return content.split(',').map(item => 
-        this.parseStringValue(item.trim())
-      ).filter(item => item.length > 0);
+  private parsePhysicsSettings(values: Record<string, any>): GodotPhysicsSettings {
+    return {
+      ticksPerSecond: values['common/physics_ticks_per_second'] ?? 60,
+      maxStepsPerFrame: values['common/max_physics_steps_per_frame'],
+      gravity2d: values['2d/default_gravity'] ?? 980,
+      gravity3d: values['3d/default_gravity'] ?? 9.8,
+      physicsEngine2d: values['2d/physics_engine'],
+      physicsEngine3d: values['3d/physics_engine'],
+    };
+  }
+
+  private parseLayerNames(values: Record<string, any>): Record<string, Record<number, string>> {
+    // Parse: 2d_physics/layer_1="world"
+    const layers: Record<string, Record<number, string>> = {};
+    
+    for (const [key, value] of Object.entries(values)) {
+      const match = key.match(/^(.+)\/layer_(\d+)$/);
+      if (!match) continue;
+      (layers[match[1]] ||= {})[parseInt(match[2])] = String(value);
     }
-    return [];
+    
+    return layers;
+  }
+
+  private toStringList(value: any): string[] {
+    // PackedStringArray decodes to { type, values }, plain arrays stay arrays
+    const values = Array.isArray(value) ? value : value?.values;
+    return Array.isArray(values) ? values.map(item => String(item)).filter(item => item.length > 0) : [];
   }
 
   private async getProjectStatistics(): Promise<Record<string, any>> {
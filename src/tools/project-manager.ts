@@ -0,0 +1,740 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import {
+  GodotAutoload,
+  GodotInputEventSpec,
+  GodotInputUsage,
+  McpToolResponse,
+} from '../types/index.js';
+import { VariantNode, stringifyVariant, toPlainValue } from '../parsers/resource-parser.js';
+import {
+  EditableResource,
+  editResource,
+  renderResource,
+  findBlocks,
+  createBlock,
+  insertBlock,
+  removeBlock,
+  setBlockBody,
+} from '../parsers/resource-editor.js';
+import { encodeVariant } from '../parsers/variant-encoder.js';
+import { isEngineClass, getEngineAncestors } from '../parsers/engine-classes.js';
+import { ProjectFileWriter } from '../file-writer.js';
+import { GodotScriptManager } from './script-manager.js';
+import { GodotProjectAnalyzer } from './project-analyzer.js';
+
+interface EditableProject {
+  fullPath: string;
+  resource: EditableResource;
+}
+
+interface SectionEntry {
+  key: string;
+  value?: VariantNode;
+  // The setting as written in project.godot, kept for entries that are not changed
+  text: string;
+}
+
+interface AutoloadEntry extends GodotAutoload {
+  text: string;
+}
+
+const AUTOLOAD_EXTENSIONS = ['.gd', '.cs', '.tscn', '.scn'];
+
+const INPUT_EVENT_TYPES: Record<string, string> = {
+  key: 'InputEventKey',
+  mouse_button: 'InputEventMouseButton',
+  joypad_button: 'InputEventJoypadButton',
+  joypad_motion: 'InputEventJoypadMotion',
+};
+
+// Godot's Key enum: printable keys use their ASCII code, the rest are offset by KEY_SPECIAL
+const SPECIAL_KEYS = [
+  'escape', 'tab', 'backtab', 'backspace', 'enter', 'kp_enter', 'insert', 'delete', 'pause', 'print', 'sysreq',
+  'clear', 'home', 'end', 'left', 'up', 'right', 'down', 'pageup', 'pagedown', 'shift', 'ctrl', 'meta', 'alt',
+  'capslock', 'numlock', 'scrolllock', 'f1', 'f2', 'f3', 'f4', 'f5', 'f6', 'f7', 'f8', 'f9', 'f10', 'f11', 'f12',
+];
+
+const KEY_NAMES: Record<string, number> = {
+  space: 32,
+  apostrophe: 39,
+  comma: 44,
+  minus: 45,
+  period: 46,
+  slash: 47,
+  semicolon: 59,
+  equal: 61,
+  bracketleft: 91,
+  backslash: 92,
+  bracketright: 93,
+  quoteleft: 96,
+  ...Object.fromEntries(SPECIAL_KEYS.map((name, index) => [name, 0x400001 + index])),
+};
+
+const MOUSE_BUTTONS = ['', 'left', 'right', 'middle', 'wheel_up', 'wheel_down', 'wheel_left', 'wheel_right', 'xbutton1', 'xbutton2'];
+
+const JOY_BUTTONS = [
+  'a', 'b', 'x', 'y', 'back', 'guide', 'start', 'left_stick', 'right_stick', 'left_shoulder', 'right_shoulder',
+  'dpad_up', 'dpad_down', 'dpad_left', 'dpad_right',
+];
+
+const JOY_AXES = ['left_x', 'left_y', 'right_x', 'right_y', 'trigger_left', 'trigger_right'];
+
+// Input methods whose first argument is an action name; get_axis and get_vector take several
+const INPUT_ACTION_METHODS: Record<string, 'first' | 'all'> = {
+  is_action: 'first',
+  is_action_pressed: 'first',
+  is_action_released: 'first',
+  is_action_just_pressed: 'first',
+  is_action_just_released: 'first',
+  get_action_strength: 'first',
+  get_action_raw_strength: 'first',
+  action_press: 'first',
+  action_release: 'first',
+  has_action: 'first',
+  get_axis: 'all',
+  get_vector: 'all',
+  IsAction: 'first',
+  IsActionPressed: 'first',
+  IsActionReleased: 'first',
+  IsActionJustPressed: 'first',
+  IsActionJustReleased: 'first',
+  GetActionStrength: 'first',
+  GetActionRawStrength: 'first',
+  ActionPress: 'first',
+  ActionRelease: 'first',
+  HasAction: 'first',
+  GetAxis: 'all',
+  GetVector: 'all',
+};
+
+// Actions Godot defines for UI navigation unless the project overrides them
+const BUILTIN_UI_ACTIONS = new Set([
+  'ui_accept', 'ui_select', 'ui_cancel', 'ui_focus_next', 'ui_focus_prev', 'ui_left', 'ui_right', 'ui_up', 'ui_down',
+  'ui_page_up', 'ui_page_down', 'ui_home', 'ui_end', 'ui_cut', 'ui_copy', 'ui_paste', 'ui_undo', 'ui_redo', 'ui_menu',
+  'ui_swap_input_direction', 'ui_focus_mode', 'ui_unicode_start', 'ui_colorpicker_delete_preset',
+]);
+
+const INPUT_SCAN_IGNORE = ['**/node_modules/**', '**/dist/**', '**/.godot/**', '**/addons/**', '**/bin/**', '**/obj/**'];
+
+export class GodotProjectManager {
+  constructor(
+    private projectPath: string,
+    private scriptManager: GodotScriptManager = new GodotScriptManager(projectPath),
+    private projectAnalyzer: GodotProjectAnalyzer = new GodotProjectAnalyzer(projectPath),
+    private fileWriter: ProjectFileWriter = new ProjectFileWriter(projectPath),
+  ) {}
+
+  async addAutoload(name: string, autoloadPath: string, singleton: boolean = true): Promise<McpToolResponse> {
+    try {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        return {
+          success: false,
+          error: `Invalid autoload name: "${name}" (must be a valid identifier)`,
+        };
+      }
+      if (isEngineClass(name)) {
+        return {
+          success: false,
+          error: `Autoload name ${name} collides with an engine class`,
+        };
+      }
+
+      const project = await this.loadProjectFile();
+      const entries = this.getAutoloads(project);
+      if (entries.some(entry => entry.name === name)) {
+        return {
+          success: false,
+          error: `Autoload already exists: ${name}`,
+        };
+      }
+
+      const resPath = autoloadPath.startsWith('res://') ? autoloadPath : `res://${autoloadPath.replace(/^\/+/, '')}`;
+      const relativePath = resPath.slice('res://'.length);
+      if (!AUTOLOAD_EXTENSIONS.includes(path.extname(relativePath).toLowerCase())) {
+        return {
+          success: false,
+          error: `Autoloads must be a script or a scene: ${resPath}`,
+        };
+      }
+      if (!await fs.pathExists(path.join(this.projectPath, relativePath))) {
+        return {
+          success: false,
+          error: `Autoload target not found: ${resPath}`,
+        };
+      }
+
+      const warnings: string[] = [];
+      if (path.extname(relativePath) === '.gd' || path.extname(relativePath) === '.cs') {
+        const script = await this.scriptManager.getScriptInfo(resPath);
+        const base = script?.extends?.replace(/^Godot\./, '');
+        if (base && isEngineClass(base) && !getEngineAncestors(base).includes('Node')) {
+          return {
+            success: false,
+            error: `Autoload scripts must inherit from Node; ${resPath} extends ${base}`,
+          };
+        }
+      }
+
+      // Godot reports a global class with the same name as an autoload as an error
+      const classScripts = await this.findClassNameScripts(name);
+      if (classScripts.length > 0) {
+        warnings.push(`Autoload name ${name} clashes with the class_name declared in ${classScripts.join(', ')}`);
+      }
+
+      const value = singleton ? `*${resPath}` : resPath;
+      entries.push({ name, path: resPath, singleton, text: `${name}=${stringifyVariant(encodeVariant(value))}` });
+      this.setAutoloads(project, entries);
+      await this.saveProjectFile(project);
+
+      return {
+        success: true,
+        data: {
+          autoloads: entries.map(entry => this.toAutoload(entry)),
+          warnings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add autoload',
+      };
+    }
+  }
+
+  async removeAutoload(name: string): Promise<McpToolResponse> {
+    try {
+      const project = await this.loadProjectFile();
+      const entries = this.getAutoloads(project);
+      const removed = entries.find(entry => entry.name === name);
+
+      if (!removed) {
+        return {
+          success: false,
+          error: `Autoload not found: ${name}`,
+        };
+      }
+
+      const remaining = entries.filter(entry => entry !== removed);
+      this.setAutoloads(project, remaining);
+      await this.saveProjectFile(project);
+
+      return {
+        success: true,
+        data: {
+          removed: this.toAutoload(removed),
+          autoloads: remaining.map(entry => this.toAutoload(entry)),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove autoload',
+      };
+    }
+  }
+
+  async reorderAutoloads(order: string[]): Promise<McpToolResponse> {
+    try {
+      const project = await this.loadProjectFile();
+      const entries = this.getAutoloads(project);
+
+      const unknown = order.filter(name => !entries.some(entry => entry.name === name));
+      if (unknown.length > 0) {
+        return {
+          success: false,
+          error: `Autoload not found: ${unknown.join(', ')}`,
+        };
+      }
+
+      // Listed autoloads load first, in the given order; the rest keep their relative order
+      const reordered = [
+        ...order.filter((name, index) => order.indexOf(name) === index).map(name => entries.find(entry => entry.name === name)!),
+        ...entries.filter(entry => !order.includes(entry.name)),
+      ];
+      this.setAutoloads(project, reordered);
+      await this.saveProjectFile(project);
+
+      return {
+        success: true,
+        data: {
+          autoloads: reordered.map(entry => this.toAutoload(entry)),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reorder autoloads',
+      };
+    }
+  }
+
+  async listInputActions(): Promise<McpToolResponse> {
+    try {
+      const project = await this.loadProjectFile();
+      const actions = this.projectAnalyzer.parseProjectFile(project.resource.source).inputActions || [];
+      
+      return {
+        success: true,
+        data: {
+          actions,
+          totalCount: actions.length,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list input actions',
+      };
+    }
+  }
+
+  async addInputAction(name: string, deadzone: number = 0.5, events: GodotInputEventSpec[] = []): Promise<McpToolResponse> {
+    try {
+      if (!this.isValidActionName(name)) {
+        return {
+          success: false,
+          error: `Invalid input action name: "${name}"`,
+        };
+      }
+      
+      const project = await this.loadProjectFile();
+      const entries = this.getSectionEntries(project, 'input');
+      if (entries.some(entry => entry.key === name)) {
+        return {
+          success: false,
+          error: `Input action already exists: ${name}`,
+        };
+      }
+      
+      const eventTexts = events.map(event => stringifyVariant(this.encodeInputEvent(event)));
+      entries.push({ key: name, text: this.formatInputAction(name, this.formatFloat(deadzone), eventTexts) });
+      this.setSectionEntries(project, 'input', entries);
+      await this.saveProjectFile(project);
+      
+      return {
+        success: true,
+        data: {
+          action: this.findInputAction(project, name),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add input action',
+      };
+    }
+  }
+
+  async renameInputAction(name: string, newName: string): Promise<McpToolResponse> {
+    try {
+      if (!this.isValidActionName(newName)) {
+        return {
+          success: false,
+          error: `Invalid input action name: "${newName}"`,
+        };
+      }
+      
+      const project = await this.loadProjectFile();
+      const entries = this.getSectionEntries(project, 'input');
+      const entry = entries.find(e => e.key === name);
+      if (!entry) {
+        return {
+          success: false,
+          error: `Input action not found: ${name}`,
+        };
+      }
+      if (entries.some(e => e.key === newName)) {
+        return {
+          success: false,
+          error: `Input action already exists: ${newName}`,
+        };
+      }
+      
+      entry.text = newName + entry.text.slice(entry.key.length);
+      entry.key = newName;
+      this.setSectionEntries(project, 'input', entries);
+      await this.saveProjectFile(project);
+      
+      // Scripts are not rewritten; callers can use the usages to update them
+      const usages = (await this.scanInputUsages()).filter(usage => usage.action === name);
+      
+      return {
+        success: true,
+        data: {
+          action: this.findInputAction(project, newName),
+          usagesOfOldName: usages,
+          warnings: usages.length > 0 ? [`${usages.length} script usage(s) still refer to ${name}`] : [],
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to rename input action',
+      };
+    }
+  }
+
+  async removeInputAction(name: string): Promise<McpToolResponse> {
+    try {
+      const project = await this.loadProjectFile();
+      const entries = this.getSectionEntries(project, 'input');
+      if (!entries.some(entry => entry.key === name)) {
+        return {
+          success: false,
+          error: `Input action not found: ${name}`,
+        };
+      }
+      
+      this.setSectionEntries(project, 'input', entries.filter(entry => entry.key !== name));
+      await this.saveProjectFile(project);
+      
+      const usages = (await this.scanInputUsages()).filter(usage => usage.action === name);
+      
+      return {
+        success: true,
+        data: {
+          removed: name,
+          usages,
+          warnings: usages.length > 0 ? [`${name} is still used by ${usages.length} script call(s)`] : [],
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove input action',
+      };
+    }
+  }
+
+  async addInputEvent(action: string, event: GodotInputEventSpec): Promise<McpToolResponse> {
+    try {
+      const project = await this.loadProjectFile();
+      const entries = this.getSectionEntries(project, 'input');
+      const entry = entries.find(e => e.key === action);
+      if (!entry) {
+        return {
+          success: false,
+          error: `Input action not found: ${action}`,
+        };
+      }
+      
+      // Parse: action={ "deadzone": 0.5, "events": [Object(InputEventKey,...), ...] }
+      const fields = entry.value?.kind === 'dictionary' ? entry.value.entries : [];
+      const field = (key: string) => fields.find(f => f.key.kind === 'string' && f.key.value === key)?.value;
+      const deadzone = field('deadzone');
+      const events = field('events');
+      const eventTexts = events?.kind === 'array' ? events.items.map(item => stringifyVariant(item)) : [];
+      
+      const eventText = stringifyVariant(this.encodeInputEvent(event));
+      if (eventTexts.includes(eventText)) {
+        return {
+          success: false,
+          error: `${action} already has this event`,
+        };
+      }
+      
+      entry.text = this.formatInputAction(action, deadzone ? stringifyVariant(deadzone) : '0.5', [...eventTexts, eventText]);
+      this.setSectionEntries(project, 'input', entries);
+      await this.saveProjectFile(project);
+      
+      return {
+        success: true,
+        data: {
+          action: this.findInputAction(project, action),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add input event',
+      };
+    }
+  }
+
+  async analyzeInputUsage(): Promise<McpToolResponse> {
+    try {
+      const project = await this.loadProjectFile();
+      const defined = (this.projectAnalyzer.parseProjectFile(project.resource.source).inputActions || []).map(a => a.name);
+      const usages = await this.scanInputUsages();
+      const literal = usages.filter(usage => usage.action !== undefined);
+      
+      const undefinedActions = [...new Set(literal.map(usage => usage.action!))]
+        .filter(action => !defined.includes(action))
+        .map(action => ({
+          action,
+          // These work at runtime through Godot's default input map
+          builtin: this.isBuiltinAction(action),
+          usages: literal.filter(usage => usage.action === action).map(({ file, line, code }) => ({ file, line, code })),
+        }));
+      
+      return {
+        success: true,
+        data: {
+          defined: defined.map(name => ({ name, usageCount: literal.filter(usage => usage.action === name).length })),
+          undefined: undefinedActions,
+          unused: defined.filter(name => !literal.some(usage => usage.action === name)),
+          // Calls with computed action names can't be checked and may use "unused" actions
+          dynamicUsages: usages.filter(usage => usage.action === undefined),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to analyze input usage',
+      };
+    }
+  }
+
+  private async loadProjectFile(): Promise<EditableProject> {
+    const fullPath = path.join(this.projectPath, 'project.godot');
+
+    if (!await this.fileWriter.pathExists(fullPath)) {
+      throw new Error('project.godot not found');
+    }
+
+    return {
+      fullPath,
+      resource: editResource(await this.fileWriter.readFile(fullPath)),
+    };
+  }
+
+  private async saveProjectFile(project: EditableProject): Promise<void> {
+    await this.fileWriter.writeFile(project.fullPath, renderResource(project.resource));
+  }
+
+  private getSectionEntries(project: EditableProject, tag: string): SectionEntry[] {
+    const block = findBlocks(project.resource, tag)[0];
+    if (!block) return [];
+    
+    return block.section!.properties.map(property => ({
+      key: property.key,
+      value: property.value,
+      text: project.resource.source.slice(property.offset, property.endOffset),
+    }));
+  }
+
+  private setSectionEntries(project: EditableProject, tag: string, entries: SectionEntry[]): void {
+    const { resource } = project;
+    const block = findBlocks(resource, tag)[0];
+    const body = entries.map(entry => entry.text).join('\n');
+    
+    if (block && entries.length > 0) {
+      setBlockBody(block, body);
+    } else if (block) {
+      // Godot drops sections that have no settings left
+      removeBlock(resource, block);
+    } else if (entries.length > 0) {
+      // Sections are kept in alphabetical order
+      const next = resource.blocks.find(b => b.section && b.section.tag > tag);
+      const index = next ? resource.blocks.indexOf(next) : resource.blocks.length;
+      insertBlock(resource, index, createBlock(`[${tag}]\n\n${body}`));
+    }
+  }
+
+  private getAutoloads(project: EditableProject): AutoloadEntry[] {
+    return this.getSectionEntries(project, 'autoload').map(entry => {
+      // Parse: Global="*res://scripts/global.gd", where "*" enables the global variable
+      const value = String((entry.value && toPlainValue(entry.value)) ?? '');
+      return {
+        name: entry.key,
+        path: value.replace(/^\*/, ''),
+        singleton: value.startsWith('*'),
+        text: entry.text,
+      };
+    });
+  }
+
+  private setAutoloads(project: EditableProject, entries: AutoloadEntry[]): void {
+    this.setSectionEntries(project, 'autoload', entries.map(entry => ({ key: entry.name, text: entry.text })));
+  }
+
+  private findInputAction(project: EditableProject, name: string) {
+    // Read back from the rendered file so the response matches list_input_actions
+    const settings = this.projectAnalyzer.parseProjectFile(renderResource(project.resource));
+    return settings.inputActions?.find(action => action.name === name);
+  }
+
+  private isValidActionName(name: string): boolean {
+    // Action names are setting keys, so they can't contain separators used by the file format
+    return /^[^\s="[\]/]+$/.test(name || '');
+  }
+
+  private isBuiltinAction(action: string): boolean {
+    return BUILTIN_UI_ACTIONS.has(action) || /^ui_(text|graph|filedialog)_/.test(action);
+  }
+
+  private formatInputAction(name: string, deadzone: string, events: string[]): string {
+    // The layout Godot writes for input actions, one event per line
+    const eventList = events.length > 0 ? `[${events.join('\n, ')}\n]` : '[]';
+    return `${name}={\n"deadzone": ${deadzone},\n"events": ${eventList}\n}`;
+  }
+
+  private formatFloat(value: number): string {
+    return Number.isInteger(value) ? `${value}.0` : String(value);
+  }
+
+  private encodeInputEvent(spec: GodotInputEventSpec): VariantNode {
+    const className = INPUT_EVENT_TYPES[spec.type] || spec.type;
+    const float = (value: number) => ({ raw: this.formatFloat(value) });
+    const modifiers = spec.modifiers || [];
+    const common = {
+      resource_local_to_scene: false,
+      resource_name: '',
+      device: spec.device ?? -1,
+    };
+    const withModifiers = {
+      window_id: 0,
+      alt_pressed: modifiers.includes('alt'),
+      shift_pressed: modifiers.includes('shift'),
+      ctrl_pressed: modifiers.includes('ctrl'),
+      meta_pressed: modifiers.includes('meta'),
+    };
+    
+    // Properties in the order Godot serializes them
+    let properties: Record<string, any>;
+    switch (className) {
+      case 'InputEventKey': {
+        const code = this.resolveCode(spec.key, 'key', name => {
+          if (name.length === 1) return name.toUpperCase().charCodeAt(0);
+          return KEY_NAMES[name.toLowerCase()];
+        });
+        const physical = spec.physical !== false;
+        const unicode = code >= 32 && code < 127 ? String.fromCharCode(code).toLowerCase().charCodeAt(0) : 0;
+        properties = {
+          ...common,
+          ...withModifiers,
+          pressed: false,
+          keycode: physical ? 0 : code,
+          physical_keycode: physical ? code : 0,
+          key_label: 0,
+          unicode,
+          echo: false,
+        };
+        break;
+      }
+      case 'InputEventMouseButton':
+        properties = {
+          ...common,
+          ...withModifiers,
+          button_mask: 0,
+          position: { type: 'Vector2', x: 0, y: 0 },
+          global_position: { type: 'Vector2', x: 0, y: 0 },
+          factor: float(1),
+          button_index: this.resolveCode(spec.button, 'mouse button', name => this.indexOf(MOUSE_BUTTONS, name)),
+          canceled: false,
+          pressed: false,
+          double_click: false,
+        };
+        break;
+      case 'InputEventJoypadButton':
+        properties = {
+          ...common,
+          button_index: this.resolveCode(spec.button, 'joypad button', name => this.indexOf(JOY_BUTTONS, name)),
+          pressure: float(0),
+          pressed: false,
+        };
+        break;
+      case 'InputEventJoypadMotion':
+        properties = {
+          ...common,
+          axis: this.resolveCode(spec.axis, 'joypad axis', name => this.indexOf(JOY_AXES, name)),
+          axis_value: float(spec.axisValue ?? 1),
+        };
+        break;
+      default:
+        throw new Error(`Unsupported input event type: ${spec.type} (use key, mouse_button, joypad_button or joypad_motion)`);
+    }
+    
+    return encodeVariant({ type: 'Object', className, properties: { ...properties, script: null } });
+  }
+
+  private resolveCode(value: string | number | undefined, kind: string, lookup: (name: string) => number | undefined): number {
+    if (typeof value === 'number') return value;
+    const code = value !== undefined ? lookup(value) : undefined;
+    if (code === undefined) {
+      throw new Error(`Unknown ${kind}: ${value ?? '(missing)'}`);
+    }
+    return code;
+  }
+
+  private indexOf(names: string[], name: string): number | undefined {
+    const index = names.indexOf(name.toLowerCase());
+    return index > 0 || (index === 0 && names[0] !== '') ? index : undefined;
+  }
+
+  private async scanInputUsages(): Promise<GodotInputUsage[]> {
+    const files = await glob('**/*.{gd,cs}', {
+      cwd: this.projectPath,
+      ignore: INPUT_SCAN_IGNORE,
+    });
+    
+    const methods = Object.keys(INPUT_ACTION_METHODS).join('|');
+    const callPattern = new RegExp(`\\.(${methods})\\s*\\(([^)]*)\\)?`, 'g');
+    const usages: GodotInputUsage[] = [];
+    
+    for (const file of files.sort()) {
+      const lines = (await fs.readFile(path.join(this.projectPath, file), 'utf-8')).split('\n');
+      const comment = file.endsWith('.cs') ? '//' : '#';
+      
+      lines.forEach((text, index) => {
+        if (text.trim().startsWith(comment)) return;
+        
+        for (const match of text.matchAll(callPattern)) {
+          const args = this.splitArguments(match[2] || '');
+          const actionArgs = INPUT_ACTION_METHODS[match[1]] === 'all' ? args.slice(0, match[1].endsWith('xis') ? 2 : 4) : args.slice(0, 1);
+          
+          for (const arg of actionArgs) {
+            // Accepts "jump", 'jump', &"jump" and new StringName("jump")
+            const literal = /^(?:&|new\s+StringName\s*\(\s*)?["']([^"']*)["']\s*\)?$/.exec(arg);
+            usages.push({ action: literal?.[1], file, line: index + 1, code: text.trim() });
+          }
+        }
+      });
+    }
+    
+    return usages;
+  }
+
+  private splitArguments(args: string): string[] {
+    // Top-level commas only; action names are plain string literals
+    const result: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let current = '';
+    
+    for (const char of args) {
+      if (quote) {
+        if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '(' || char === '[') {
+        depth++;
+      } else if (char === ')' || char === ']') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        result.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    
+    if (current.trim()) result.push(current.trim());
+    return result;
+  }
+
+  private async findClassNameScripts(className: string): Promise<string[]> {
+    const result = await this.scriptManager.listScripts(true);
+    if (!result.success) return [];
+
+    return (result.data.scripts as { path: string; language?: string; className?: string }[])
+      .filter(script => script.language === 'gdscript' && script.className === className)
+      .map(script => script.path);
+  }
+
+  private toAutoload(entry: AutoloadEntry): GodotAutoload {
+    return { name: entry.name, path: entry.path, singleton: entry.singleton };
+  }
+}
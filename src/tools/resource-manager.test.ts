@@ -0,0 +1,119 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ProjectFileWriter } from '../file-writer.js';
+import { GodotResourceManager, isPathTemplate } from './resource-manager.js';
+
+const ICON_IMPORT = `[remap]
+
+importer="texture"
+type="CompressedTexture2D"
+uid="uid://c4icon"
+path="res://.godot/imported/icon.png-abc.ctex"
+
+[deps]
+
+source_file="res://art/icon.png"
+dest_files=["res://.godot/imported/icon.png-abc.ctex"]
+`;
+
+const PLAYER_SCENE = `[gd_scene load_steps=2 format=3]
+
+[ext_resource type="Texture2D" uid="uid://c4icon" path="res://art/icon.png" id="1_icon"]
+
+[node name="Player" type="Sprite2D"]
+texture = ExtResource("1_icon")
+`;
+
+describe('GodotResourceManager.moveResource', () => {
+  let projectPath: string;
+  let writer: ProjectFileWriter;
+  let manager: GodotResourceManager;
+  const file = (relativePath: string) => path.join(projectPath, relativePath);
+  const read = (relativePath: string) => fs.readFile(file(relativePath), 'utf-8');
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-mcp-'));
+    writer = new ProjectFileWriter(projectPath);
+    manager = new GodotResourceManager(projectPath, writer);
+    await fs.outputFile(file('project.godot'), 'config_version=5\n\n[application]\n\nconfig/icon="res://art/icon.png"\n');
+    await fs.outputFile(file('art/icon.png'), 'png');
+    await fs.outputFile(file('art/icon.png.import'), ICON_IMPORT);
+    await fs.outputFile(file('scenes/player.tscn'), PLAYER_SCENE);
+    await fs.outputFile(file('scripts/hud.gd'), 'extends Control\n\nconst ICON = preload("res://art/icon.png")\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('moves a file with its .import sidecar and rewrites every reference', async () => {
+    const response = await manager.moveResource('res://art/icon.png', 'res://sprites/player.png');
+
+    expect(response.success).toBe(true);
+    expect(response.data.moved).toEqual([
+      { from: 'res://art/icon.png', to: 'res://sprites/player.png' },
+      { from: 'res://art/icon.png.import', to: 'res://sprites/player.png.import' },
+    ]);
+    expect(response.data.changedFiles).toEqual([
+      'res://art/icon.png.import',
+      'res://project.godot',
+      'res://scenes/player.tscn',
+      'res://scripts/hud.gd',
+    ]);
+
+    expect(await fs.pathExists(file('art/icon.png'))).toBe(false);
+    expect(await read('sprites/player.png')).toBe('png');
+    expect(await read('sprites/player.png.import')).toBe(ICON_IMPORT.replace('source_file="res://art/icon.png"', 'source_file="res://sprites/player.png"'));
+    expect(await read('scenes/player.tscn')).toBe(PLAYER_SCENE.replace('res://art/icon.png', 'res://sprites/player.png'));
+    expect(await read('scripts/hud.gd')).toBe('extends Control\n\nconst ICON = preload("res://sprites/player.png")\n');
+    expect(await read('project.godot')).toContain('config/icon="res://sprites/player.png"\n');
+  });
+
+  it('moves a directory and undoes the move with its rewrites', async () => {
+    writer.begin();
+    const response = await manager.moveResource('res://art', 'res://assets/art');
+    await writer.finish('move_resource', response);
+
+    expect(response.data.moved).toEqual([
+      { from: 'res://art/icon.png', to: 'res://assets/art/icon.png' },
+      { from: 'res://art/icon.png.import', to: 'res://assets/art/icon.png.import' },
+    ]);
+    expect(await read('scenes/player.tscn')).toContain('path="res://assets/art/icon.png"');
+    expect(await read('assets/art/icon.png.import')).toContain('source_file="res://assets/art/icon.png"');
+
+    expect((await writer.undoLastChange()).success).toBe(true);
+    expect(await fs.pathExists(file('assets'))).toBe(false);
+    expect(await read('art/icon.png.import')).toBe(ICON_IMPORT);
+    expect(await read('scenes/player.tscn')).toBe(PLAYER_SCENE);
+  });
+
+  it('refuses moves that leave the project or overwrite a file', async () => {
+    expect(await manager.moveResource('res://art/icon.png', 'res://../icon.png')).toEqual({
+      success: false,
+      error: 'Path must be inside the project: res://../icon.png',
+    });
+    expect(await manager.moveResource('res://art/icon.png', 'res://scenes/player.tscn')).toEqual({
+      success: false,
+      error: 'Destination already exists: scenes/player.tscn',
+    });
+    expect(await manager.moveResource('res://art', 'res://art/nested')).toEqual({
+      success: false,
+      error: 'Cannot move a directory into itself: art/nested',
+    });
+    expect(await read('scenes/player.tscn')).toBe(PLAYER_SCENE);
+  });
+});
+
+describe('isPathTemplate', () => {
+  it('recognizes paths built with format strings or concatenation', () => {
+    expect(isPathTemplate('res://levels/level_%d.tscn')).toBe(true);
+    expect(isPathTemplate('res://levels/{0}.tscn')).toBe(true);
+    expect(isPathTemplate('res://levels/', ' % name)')).toBe(true);
+    expect(isPathTemplate('res://levels/', '.format([name]))')).toBe(true);
+    expect(isPathTemplate('res://levels/', ' + name + ".tscn")')).toBe(true);
+
+    expect(isPathTemplate('res://levels/level_1.tscn', ')')).toBe(false);
+    expect(isPathTemplate('res://100%_done.png')).toBe(false);
+  });
+});
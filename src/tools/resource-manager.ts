@@ -0,0 +1,879 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { glob } from 'glob';
+import {
+  GodotUidEntry,
+  GodotUidReference,
+  GodotImportInfo,
+  GodotReferenceChange,
+  GodotDependency,
+  GodotDependencyKind,
+  GodotDependencyEntry,
+  GodotAssetType,
+  GodotUnusedAsset,
+  McpToolResponse,
+} from '../types/index.js';
+import { parseResource, ResourceSection, toPlainValue } from '../parsers/resource-parser.js';
+import { decodeVariant } from '../parsers/variant-decoder.js';
+import { ProjectFileWriter } from '../file-writer.js';
+
+export interface GodotUidIndex {
+  entries: GodotUidEntry[];
+  byUid: Map<string, GodotUidEntry[]>;
+  references: GodotUidReference[];
+}
+
+export interface GodotDependencyGraph {
+  // res:// paths of every file Godot can see, without .import and .uid sidecars
+  files: string[];
+  dependencies: Map<string, GodotDependency[]>;
+  dependents: Map<string, GodotDependency[]>;
+}
+
+const RESOURCE_IGNORE = ['**/node_modules/**', '**/dist/**', '**/.godot/**'];
+
+// Text files that can hold res:// paths
+const REFERENCE_FILES = '**/*.{tscn,tres,gd,cs,gdshader,gdshaderinc,import,cfg,godot}';
+
+// Sidecars that belong to a file and move with it
+const SIDECAR_EXTENSIONS = ['.import', '.uid'];
+
+// Files whose references are followed by the dependency graph, besides project.godot
+const DEPENDENCY_SOURCES = ['.tscn', '.tres', '.gd', '.cs', '.gdshader', '.gdshaderinc'];
+
+// Files the unused asset report covers
+const ASSET_TYPES: Record<string, GodotAssetType> = {
+  '.png': 'image', '.jpg': 'image', '.jpeg': 'image', '.svg': 'image', '.webp': 'image', '.bmp': 'image', '.tga': 'image', '.exr': 'image', '.hdr': 'image',
+  '.wav': 'audio', '.ogg': 'audio', '.mp3': 'audio',
+  '.tscn': 'scene', '.scn': 'scene',
+  '.gd': 'script', '.cs': 'script',
+  '.tres': 'resource', '.res': 'resource',
+  '.gdshader': 'shader', '.gdshaderinc': 'shader',
+  '.ttf': 'font', '.otf': 'font', '.woff': 'font', '.woff2': 'font', '.fnt': 'font',
+  '.glb': 'model', '.gltf': 'model', '.obj': 'model', '.fbx': 'model', '.blend': 'model', '.dae': 'model',
+};
+
+// Loaded by Godot without being referenced anywhere
+const IMPLICIT_ROOTS = ['res://project.godot', 'res://default_bus_layout.tres'];
+
+// preload("..."), load("...") and ResourceLoader.load_threaded_request("...") with a literal path
+const GDSCRIPT_LOAD_CALL = /\b(preload|load|load_threaded_request)\s*\(\s*(["'])([^"'\n]+)\2/g;
+
+// GD.Load<T>("..."), ResourceLoader.Load("...") and friends
+const CSHARP_LOAD_CALL = /\b(?:GD\.Load|ResourceLoader\.Load|ResourceLoader\.LoadThreadedRequest)\s*(?:<[^>()]*>)?\s*\(\s*"([^"\n]+)"/g;
+
+export class GodotResourceManager {
+  constructor(
+    private projectPath: string,
+    private fileWriter: ProjectFileWriter = new ProjectFileWriter(projectPath),
+  ) {}
+
+  async getUidIndex(uid?: string): Promise<McpToolResponse> {
+    try {
+      const index = await this.buildUidIndex();
+
+      if (uid) {
+        const entries = index.byUid.get(uid) || [];
+        if (entries.length === 0) {
+          return {
+            success: false,
+            error: `Unknown UID: ${uid}`,
+          };
+        }
+
+        return {
+          success: true,
+          data: {
+            uid,
+            path: entries[0].path,
+            entries,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          entries: index.entries,
+          totalCount: index.byUid.size,
+          duplicates: this.findDuplicateUids(index),
+          missing: index.references.filter(ref => !index.byUid.has(ref.uid)),
+          mismatched: this.findMismatchedReferences(index),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to build UID index',
+      };
+    }
+  }
+
+  async getImportInfo(assetPath?: string): Promise<McpToolResponse> {
+    try {
+      if (assetPath) {
+        const relativePath = assetPath.replace(/^res:\/\//, '');
+        const importFile = path.join(this.projectPath, `${relativePath}.import`);
+
+        if (!await fs.pathExists(importFile)) {
+          return {
+            success: false,
+            error: `Import metadata not found: ${relativePath}.import`,
+          };
+        }
+
+        return {
+          success: true,
+          data: await this.parseImportFile(importFile),
+        };
+      }
+
+      const importFiles = await glob('**/*.import', {
+        cwd: this.projectPath,
+        ignore: RESOURCE_IGNORE,
+      });
+
+      const assets: GodotImportInfo[] = [];
+      for (const importFile of importFiles) {
+        assets.push(await this.parseImportFile(path.join(this.projectPath, importFile)));
+      }
+
+      const byImporter: Record<string, number> = {};
+      for (const asset of assets) {
+        const importer = asset.importer || 'unknown';
+        byImporter[importer] = (byImporter[importer] || 0) + 1;
+      }
+
+      return {
+        success: true,
+        data: {
+          assets,
+          totalCount: assets.length,
+          byImporter,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read import metadata',
+      };
+    }
+  }
+
+  async moveResource(from: string, to: string): Promise<McpToolResponse> {
+    try {
+      const fromPath = from.replace(/^res:\/\//, '').replace(/\/+$/, '');
+      const toPath = to.replace(/^res:\/\//, '').replace(/\/+$/, '');
+      const fromFull = path.join(this.projectPath, fromPath);
+      const toFull = path.join(this.projectPath, toPath);
+
+      for (const fullPath of [fromFull, toFull]) {
+        const relative = path.relative(this.projectPath, fullPath);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+          return {
+            success: false,
+            error: `Path must be inside the project: ${fullPath === fromFull ? from : to}`,
+          };
+        }
+      }
+
+      if (!await fs.pathExists(fromFull)) {
+        return {
+          success: false,
+          error: `Resource not found: ${fromPath}`,
+        };
+      }
+      if (await this.fileWriter.pathExists(toFull)) {
+        return {
+          success: false,
+          error: `Destination already exists: ${toPath}`,
+        };
+      }
+
+      const isDirectory = (await fs.stat(fromFull)).isDirectory();
+      if (isDirectory && toFull.startsWith(fromFull + path.sep)) {
+        return {
+          success: false,
+          error: `Cannot move a directory into itself: ${toPath}`,
+        };
+      }
+
+      const moves = await this.collectMoves(fromPath, toPath, isDirectory);
+      const oldRes = this.toResPath(fromPath);
+      const newRes = this.toResPath(toPath);
+      const mapPath = (resPath: string): string | undefined => {
+        if (resPath === oldRes) return newRes;
+        if (isDirectory && resPath.startsWith(`${oldRes}/`)) return newRes + resPath.slice(oldRes.length);
+        return undefined;
+      };
+
+      const files = await glob(REFERENCE_FILES, {
+        cwd: this.projectPath,
+        ignore: RESOURCE_IGNORE,
+      });
+
+      const changes: GodotReferenceChange[] = [];
+      const rewrites: { fullPath: string; content: string }[] = [];
+      const warnings: string[] = [];
+
+      for (const file of files.sort()) {
+        const fullPath = path.join(this.projectPath, file);
+        const content = await this.fileWriter.readFile(fullPath);
+        const lines = content.split('\n');
+        let changed = false;
+
+        lines.forEach((line, index) => {
+          // Parse: "res://path", 'res://path' and autoload values such as "*res://path"
+          const updated = line.replace(/(["'])(\*?)(res:\/\/[^"'\n]*)\1/g, (match, quote, prefix, resPath) => {
+            const mapped = mapPath(resPath);
+            return mapped ? `${quote}${prefix}${mapped}${quote}` : match;
+          });
+
+          if (updated !== line) {
+            changes.push({ file: this.toResPath(file), line: index + 1, before: line, after: updated });
+            lines[index] = updated;
+            changed = true;
+          }
+        });
+
+        if (changed) {
+          rewrites.push({ fullPath, content: lines.join('\n') });
+        }
+
+        // Relative load paths resolve against the script's directory, which changes when it moves
+        if (/\.(gd|cs)$/.test(file) && moves.some(move => move.from === this.toResPath(file))) {
+          if (/\b(pre)?load\s*\(\s*["'](?!res:\/\/|uid:\/\/)/.test(content)) {
+            warnings.push(`${this.toResPath(file)} loads resources by relative path; check them after the move`);
+          }
+        }
+      }
+
+      if (!isDirectory && path.extname(fromPath) !== path.extname(toPath)) {
+        warnings.push(`The file extension changes from "${path.extname(fromPath)}" to "${path.extname(toPath)}"; Godot picks the loader by extension`);
+      }
+
+      for (const rewrite of rewrites) {
+        await this.fileWriter.writeFile(rewrite.fullPath, rewrite.content);
+      }
+
+      if (isDirectory) {
+        await this.fileWriter.move(fromFull, toFull);
+      } else {
+        for (const move of moves) {
+          await this.fileWriter.move(
+            path.join(this.projectPath, move.from.replace(/^res:\/\//, '')),
+            path.join(this.projectPath, move.to.replace(/^res:\/\//, ''))
+          );
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          from: oldRes,
+          to: newRes,
+          moved: moves,
+          changes,
+          changedFiles: [...new Set(changes.map(change => change.file))],
+          warnings,
+          // Imported assets keep their UID; Godot re-imports them under the new path on the next editor scan
+          notes: moves.some(move => move.from.endsWith('.import'))
+            ? ['Godot re-imports moved assets on the next editor scan and updates their .import files']
+            : [],
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to move resource',
+      };
+    }
+  }
+
+  async getDependencies(resourcePath: string, depth: number = 1): Promise<McpToolResponse> {
+    return this.queryDependencyGraph(resourcePath, depth, 'dependencies');
+  }
+
+  async getDependents(resourcePath: string, depth: number = 1): Promise<McpToolResponse> {
+    return this.queryDependencyGraph(resourcePath, depth, 'dependents');
+  }
+
+  async findUnusedAssets(options: { allowlist?: string[]; includeAddons?: boolean } = {}): Promise<McpToolResponse> {
+    try {
+      const index = await this.buildUidIndex();
+      const graph = await this.buildDependencyGraph(index);
+      const reached = await this.findReachableFiles(graph, index);
+
+      const allowlist = (options.allowlist || []).map(pattern => pattern.replace(/^res:\/\//, ''));
+      if (!options.includeAddons) allowlist.push('addons/**');
+      const allowlisted = new Set(
+        (allowlist.length > 0 ? await glob(allowlist, { cwd: this.projectPath, ignore: RESOURCE_IGNORE, nodir: true }) : [])
+          .map(file => this.toResPath(file))
+      );
+
+      const unused: GodotUnusedAsset[] = [];
+      let skipped = 0;
+      for (const file of graph.files) {
+        const type = ASSET_TYPES[path.extname(file).toLowerCase()];
+        if (!type || reached.has(file)) continue;
+        if (allowlisted.has(file)) {
+          skipped++;
+          continue;
+        }
+        const stats = await fs.stat(path.join(this.projectPath, file.slice('res://'.length)));
+        unused.push({ path: file, type, size: stats.size });
+      }
+
+      const directories = new Map<string, GodotUnusedAsset[]>();
+      for (const asset of unused) {
+        const directory = path.posix.dirname(asset.path.slice('res://'.length));
+        const key = directory === '.' ? 'res://' : `res://${directory}`;
+        directories.set(key, [...(directories.get(key) || []), asset]);
+      }
+      const byDirectory = [...directories].map(([directory, assets]) => {
+        const size = assets.reduce((total, asset) => total + asset.size, 0);
+        return { directory, count: assets.length, size, formattedSize: this.formatSize(size), assets };
+      }).sort((a, b) => b.size - a.size || a.directory.localeCompare(b.directory));
+
+      const byType: Partial<Record<GodotAssetType, number>> = {};
+      for (const asset of unused) {
+        byType[asset.type] = (byType[asset.type] || 0) + 1;
+      }
+      const totalSize = unused.reduce((total, asset) => total + asset.size, 0);
+
+      return {
+        success: true,
+        data: {
+          byDirectory,
+          byType,
+          totalCount: unused.length,
+          totalSize,
+          formattedTotalSize: this.formatSize(totalSize),
+          reachableCount: reached.size,
+          allowlisted: skipped,
+          notes: [
+            'Files are reached from run/main_scene, autoloads and other project settings, following ext_resources, preload/load calls, res:// strings and class_name references',
+            'Resources loaded from paths built at runtime (e.g. "res://levels/%s.tscn" % name) cannot be followed; add them to the allowlist',
+          ],
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to find unused assets',
+      };
+    }
+  }
+
+  async buildUidIndex(): Promise<GodotUidIndex> {
+    const index: GodotUidIndex = {
+      entries: [],
+      byUid: new Map(),
+      references: [],
+    };
+
+    const files = await glob('**/*.{tscn,tres,import,uid}', {
+      cwd: this.projectPath,
+      ignore: RESOURCE_IGNORE,
+    });
+
+    for (const file of files.sort()) {
+      const fullPath = path.join(this.projectPath, file);
+      const extension = path.extname(file);
+
+      try {
+        if (extension === '.uid') {
+          // Godot 4.4+ sidecar for scripts and shaders: a single uid:// line
+          const uid = (await this.fileWriter.readFile(fullPath)).trim();
+          if (uid.startsWith('uid://')) {
+            this.addUidEntry(index, { uid, path: this.toResPath(file.slice(0, -extension.length)), source: 'uid_file' });
+          }
+          continue;
+        }
+
+        const document = parseResource(await this.fileWriter.readFile(fullPath));
+
+        if (extension === '.import') {
+          const remap = document.sections.find(section => section.tag === 'remap');
+          const uid = remap && this.getSectionValue(remap, 'uid');
+          if (typeof uid === 'string' && uid.startsWith('uid://')) {
+            this.addUidEntry(index, { uid, path: this.toResPath(file.slice(0, -extension.length)), source: 'import' });
+          }
+          continue;
+        }
+
+        this.indexResourceDocument(index, document.sections, file);
+      } catch {
+        // Unparseable files are reported by diagnostics, not by the index
+      }
+    }
+
+    await this.collectProjectReferences(index);
+
+    return index;
+  }
+
+  resolveUid(index: GodotUidIndex, uid: string): string | undefined {
+    return index.byUid.get(uid)?.[0].path;
+  }
+
+  findUidForPath(index: GodotUidIndex, resPath: string): string | undefined {
+    return index.entries.find(entry => entry.path === resPath)?.uid;
+  }
+
+  generateUid(index?: GodotUidIndex): string {
+    // Same text form as Godot's ResourceUID::id_to_text: a positive 63-bit id in base 36, letters first
+    for (;;) {
+      let id = crypto.randomBytes(8).readBigUInt64BE() & 0x7fffffffffffffffn;
+      let text = '';
+      do {
+        const digit = Number(id % 36n);
+        text = (digit < 26 ? String.fromCharCode(97 + digit) : String(digit - 26)) + text;
+        id /= 36n;
+      } while (id > 0n);
+
+      const uid = `uid://${text}`;
+      if (!index?.byUid.has(uid)) {
+        return uid;
+      }
+    }
+  }
+
+  async buildDependencyGraph(index?: GodotUidIndex): Promise<GodotDependencyGraph> {
+    const uidIndex = index || await this.buildUidIndex();
+    const graph: GodotDependencyGraph = {
+      files: await this.listProjectFiles(),
+      dependencies: new Map(),
+      dependents: new Map(),
+    };
+    const fileSet = new Set(graph.files);
+
+    const addEdge = (edge: GodotDependency): void => {
+      if (!fileSet.has(edge.to)) edge.missing = true;
+      const outgoing = graph.dependencies.get(edge.from) || [];
+      outgoing.push(edge);
+      graph.dependencies.set(edge.from, outgoing);
+      const incoming = graph.dependents.get(edge.to) || [];
+      incoming.push(edge);
+      graph.dependents.set(edge.to, incoming);
+    };
+
+    for (const from of graph.files) {
+      const file = from.slice('res://'.length);
+      const extension = path.extname(file);
+      if (!DEPENDENCY_SOURCES.includes(extension) && file !== 'project.godot') continue;
+
+      try {
+        const content = await this.fileWriter.readFile(path.join(this.projectPath, file));
+
+        if (extension === '.tscn' || extension === '.tres') {
+          for (const section of parseResource(content).sections) {
+            if (section.tag !== 'ext_resource') continue;
+            const { uid, path: resourcePath } = section.attributes;
+            // Godot loads by UID when it is known and only falls back to the text path otherwise
+            const to = (uid && this.resolveUid(uidIndex, toPlainValue(uid))) || (resourcePath && toPlainValue(resourcePath));
+            if (typeof to === 'string' && to) {
+              addEdge({ from, to, kind: 'ext_resource', line: this.lineAt(content, section.offset) });
+            }
+          }
+          continue;
+        }
+
+        if (file === 'project.godot') {
+          for (const section of parseResource(content).sections) {
+            for (const property of section.properties) {
+              let kind: GodotDependencyKind;
+              if (section.tag === 'autoload') kind = 'autoload';
+              else if (section.tag === 'application' && property.key === 'run/main_scene') kind = 'main_scene';
+              else continue;
+
+              const value = decodeVariant(property.value);
+              const to = typeof value === 'string' ? this.resolveReference(uidIndex, value.replace(/^\*/, ''), from) : undefined;
+              if (to) {
+                addEdge({ from, to, kind, line: this.lineAt(content, property.offset) });
+              }
+            }
+          }
+          continue;
+        }
+
+        const comment = extension === '.gd' ? '#' : '//';
+        content.split('\n').forEach((text, index) => {
+          if (text.trim().startsWith(comment)) return;
+
+          const references: { kind: GodotDependencyKind; value: string }[] = [];
+          if (extension === '.gd') {
+            for (const match of text.matchAll(GDSCRIPT_LOAD_CALL)) {
+              if (isPathTemplate(match[3], text.slice(match.index! + match[0].length))) continue;
+              references.push({ kind: match[1] === 'preload' ? 'preload' : 'load', value: match[3] });
+            }
+            const extendsPath = /^\s*extends\s+(["'])([^"']+)\1/.exec(text);
+            if (extendsPath) references.push({ kind: 'extends', value: extendsPath[2] });
+          } else if (extension === '.cs') {
+            for (const match of text.matchAll(CSHARP_LOAD_CALL)) {
+              if (isPathTemplate(match[1], text.slice(match.index! + match[0].length))) continue;
+              references.push({ kind: 'load', value: match[1] });
+            }
+          } else {
+            const include = /^\s*#include\s+"([^"]+)"/.exec(text);
+            if (include) references.push({ kind: 'include', value: include[1] });
+          }
+
+          for (const reference of references) {
+            const to = this.resolveReference(uidIndex, reference.value, from);
+            if (to) {
+              addEdge({ from, to, kind: reference.kind, line: index + 1 });
+            }
+          }
+        });
+      } catch {
+        // Unparseable files are reported by diagnostics, not by the graph
+      }
+    }
+
+    return graph;
+  }
+
+  private async collectMoves(fromPath: string, toPath: string, isDirectory: boolean): Promise<{ from: string; to: string }[]> {
+    if (isDirectory) {
+      const files = await glob('**/*', { cwd: path.join(this.projectPath, fromPath), nodir: true, dot: true });
+      return files.sort().map(file => ({
+        from: this.toResPath(path.join(fromPath, file)),
+        to: this.toResPath(path.join(toPath, file)),
+      }));
+    }
+
+    const moves = [{ from: this.toResPath(fromPath), to: this.toResPath(toPath) }];
+    for (const extension of SIDECAR_EXTENSIONS) {
+      if (await this.fileWriter.pathExists(path.join(this.projectPath, fromPath + extension))) {
+        moves.push({ from: this.toResPath(fromPath + extension), to: this.toResPath(toPath + extension) });
+      }
+    }
+    return moves;
+  }
+
+  private indexResourceDocument(index: GodotUidIndex, sections: ResourceSection[], file: string): void {
+    const resPath = this.toResPath(file);
+
+    for (const section of sections) {
+      const uid = section.attributes.uid ? toPlainValue(section.attributes.uid) : undefined;
+      if (typeof uid !== 'string' || !uid.startsWith('uid://')) continue;
+
+      if (section.tag === 'gd_scene' || section.tag === 'gd_resource') {
+        this.addUidEntry(index, { uid, path: resPath, source: section.tag === 'gd_scene' ? 'scene' : 'resource' });
+      } else if (section.tag === 'ext_resource') {
+        const reference: GodotUidReference = { uid, referencedBy: resPath };
+        if (section.attributes.path) {
+          reference.path = toPlainValue(section.attributes.path);
+        }
+        index.references.push(reference);
+      }
+    }
+  }
+
+  private async collectProjectReferences(index: GodotUidIndex): Promise<void> {
+    // Godot 4.4+ may store settings such as run/main_scene as uid:// strings
+    const projectFile = path.join(this.projectPath, 'project.godot');
+    if (!await this.fileWriter.pathExists(projectFile)) return;
+
+    const content = await this.fileWriter.readFile(projectFile);
+    for (const match of content.matchAll(/"(uid:\/\/[a-z0-9]+)"/g)) {
+      index.references.push({ uid: match[1], referencedBy: 'res://project.godot' });
+    }
+  }
+
+  private addUidEntry(index: GodotUidIndex, entry: GodotUidEntry): void {
+    index.entries.push(entry);
+    const entries = index.byUid.get(entry.uid) || [];
+    entries.push(entry);
+    index.byUid.set(entry.uid, entries);
+  }
+
+  private findDuplicateUids(index: GodotUidIndex): { uid: string; paths: string[] }[] {
+    const duplicates = [];
+    for (const [uid, entries] of index.byUid) {
+      const paths = [...new Set(entries.map(entry => entry.path))];
+      if (paths.length > 1) {
+        duplicates.push({ uid, paths });
+      }
+    }
+    return duplicates;
+  }
+
+  private findMismatchedReferences(index: GodotUidIndex): (GodotUidReference & { resolvedPath: string })[] {
+    // Godot loads by UID first, so a differing text path usually means the file was moved
+    const mismatched = [];
+    for (const reference of index.references) {
+      const resolvedPath = this.resolveUid(index, reference.uid);
+      if (resolvedPath && reference.path && resolvedPath !== reference.path) {
+        mismatched.push({ ...reference, resolvedPath });
+      }
+    }
+    return mismatched;
+  }
+
+  private async parseImportFile(importFile: string): Promise<GodotImportInfo> {
+    try {
+      const content = await this.fileWriter.readFile(importFile);
+      const document = parseResource(content);
+      const relativeImport = path.relative(this.projectPath, importFile);
+
+      const info: GodotImportInfo = {
+        path: this.toResPath(relativeImport.slice(0, -'.import'.length)),
+        importFile: this.toResPath(relativeImport),
+        valid: true,
+        importedPaths: [],
+        destFiles: [],
+        params: {},
+      };
+
+      for (const section of document.sections) {
+        switch (section.tag) {
+          case 'remap':
+            // Parse: importer="texture" type="CompressedTexture2D" uid="uid://..." path="res://.godot/imported/..."
+            for (const property of section.properties) {
+              const value = decodeVariant(property.value);
+              if (property.key === 'importer') info.importer = value;
+              else if (property.key === 'type') info.type = value;
+              else if (property.key === 'uid') info.uid = value;
+              else if (property.key === 'valid') info.valid = value !== false;
+              else if (property.key === 'metadata') info.metadata = value;
+              // Platform-specific variants are written as path.s3tc, path.etc2, ...
+              else if (property.key === 'path' || property.key.startsWith('path.')) info.importedPaths.push(value);
+            }
+            break;
+          case 'deps': {
+            const sourceFile = this.getSectionValue(section, 'source_file');
+            const destFiles = this.getSectionValue(section, 'dest_files');
+            if (sourceFile) info.sourceFile = sourceFile;
+            if (Array.isArray(destFiles)) info.destFiles = destFiles;
+            break;
+          }
+          case 'params':
+            for (const property of section.properties) {
+              info.params[property.key] = decodeVariant(property.value);
+            }
+            break;
+        }
+      }
+
+      return info;
+    } catch (error) {
+      throw new Error(`Failed to parse import file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async queryDependencyGraph(
+    resourcePath: string,
+    depth: number,
+    direction: 'dependencies' | 'dependents'
+  ): Promise<McpToolResponse> {
+    try {
+      const index = await this.buildUidIndex();
+      const start = resourcePath.startsWith('uid://')
+        ? this.resolveUid(index, resourcePath)
+        : this.toResPath(resourcePath.replace(/^res:\/\//, '').replace(/^\/+/, ''));
+      if (!start) {
+        return {
+          success: false,
+          error: `Unknown UID: ${resourcePath}`,
+        };
+      }
+
+      const graph = await this.buildDependencyGraph(index);
+      // A missing file can still be asked for its dependents, e.g. to find what breaks without it
+      if (!graph.files.includes(start) && !graph.dependents.has(start)) {
+        return {
+          success: false,
+          error: `Resource not found: ${start}`,
+        };
+      }
+
+      // Breadth first, so every file is reported at the shortest distance it is reached
+      const maxDepth = Math.max(0, Math.floor(depth));
+      const depths = new Map([[start, 0]]);
+      const queue = [start];
+      const entries: GodotDependencyEntry[] = [];
+      let truncated = false;
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        const currentDepth = depths.get(current)!;
+
+        for (const edge of graph[direction].get(current) || []) {
+          const next = direction === 'dependencies' ? edge.to : edge.from;
+          if (depths.has(next)) continue;
+          if (maxDepth > 0 && currentDepth >= maxDepth) {
+            truncated = true;
+            break;
+          }
+
+          depths.set(next, currentDepth + 1);
+          queue.push(next);
+          const entry: GodotDependencyEntry = { path: next, depth: currentDepth + 1, via: current, kind: edge.kind };
+          if (edge.line) entry.line = edge.line;
+          if (direction === 'dependencies' && edge.missing) entry.missing = true;
+          entries.push(entry);
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          path: start,
+          depth: maxDepth,
+          [direction]: entries,
+          count: entries.length,
+          ...(direction === 'dependencies' ? { missing: entries.filter(entry => entry.missing).map(entry => entry.path) } : {}),
+          cycles: this.findDependencyCycles(graph, new Set(depths.keys())),
+          truncated,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Failed to get ${direction}`,
+      };
+    }
+  }
+
+  private findDependencyCycles(graph: GodotDependencyGraph, files: Set<string>): string[][] {
+    // Cycles among the given files, each listed once in dependency order and closed with its first file
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, 'active' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (file: string): void => {
+      state.set(file, 'active');
+      stack.push(file);
+
+      for (const edge of graph.dependencies.get(file) || []) {
+        if (!files.has(edge.to)) continue;
+        if (state.get(edge.to) === 'active') {
+          const cycle = stack.slice(stack.indexOf(edge.to));
+          const first = cycle.indexOf([...cycle].sort()[0]);
+          const key = [...cycle.slice(first), ...cycle.slice(0, first)].join('\n');
+          if (!seen.has(key)) {
+            seen.add(key);
+            cycles.push([...cycle, edge.to]);
+          }
+        } else if (!state.has(edge.to)) {
+          visit(edge.to);
+        }
+      }
+
+      stack.pop();
+      state.set(file, 'done');
+    };
+
+    for (const file of [...files].sort()) {
+      if (!state.has(file)) visit(file);
+    }
+    return cycles;
+  }
+
+  private async findReachableFiles(graph: GodotDependencyGraph, index: GodotUidIndex): Promise<Set<string>> {
+    const fileSet = new Set(graph.files);
+    const reached = new Set<string>();
+    const queue: string[] = [];
+    const reach = (file: string | undefined): void => {
+      if (file && fileSet.has(file) && !reached.has(file)) {
+        reached.add(file);
+        queue.push(file);
+      }
+    };
+
+    // Global classes are used by name, without a path: class_name in GDScript, the file name in C#
+    const classScripts = new Map<string, string>();
+    for (const file of graph.files) {
+      if (file.endsWith('.cs')) {
+        classScripts.set(path.posix.basename(file, '.cs'), file);
+      } else if (file.endsWith('.gd')) {
+        const content = await this.fileWriter.readFile(path.join(this.projectPath, file.slice('res://'.length)));
+        const className = /^\s*(?:@\w+\s+)*class_name\s+(\w+)/m.exec(content);
+        if (className) classScripts.set(className[1], file);
+      }
+    }
+
+    IMPLICIT_ROOTS.forEach(reach);
+    while (queue.length > 0) {
+      const file = queue.shift()!;
+      for (const edge of graph.dependencies.get(file) || []) {
+        reach(edge.to);
+      }
+
+      if (!DEPENDENCY_SOURCES.includes(path.extname(file)) && file !== 'res://project.godot') continue;
+      const content = await this.fileWriter.readFile(path.join(this.projectPath, file.slice('res://'.length)));
+
+      // Any path string counts, e.g. change_scene_to_file("res://...") or @export_file values saved in scenes
+      for (const match of content.matchAll(/["'](?:\*)?((?:res|uid):\/\/[^"'\n]+)["']/g)) {
+        reach(this.resolveReference(index, match[1], file));
+      }
+      for (const [className, script] of classScripts) {
+        if (!reached.has(script) && new RegExp(`\\b${className}\\b`).test(content)) {
+          reach(script);
+        }
+      }
+    }
+
+    return reached;
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+
+  private async listProjectFiles(): Promise<string[]> {
+    // Godot skips directories that contain a .gdignore file
+    const ignoredDirectories = (await glob('**/.gdignore', { cwd: this.projectPath, ignore: RESOURCE_IGNORE, dot: true }))
+      .map(file => path.dirname(file));
+    const files = await glob('**/*', { cwd: this.projectPath, ignore: RESOURCE_IGNORE, nodir: true });
+
+    return files
+      .filter(file => !SIDECAR_EXTENSIONS.includes(path.extname(file)))
+      .filter(file => !ignoredDirectories.some(directory => directory === '.' || file.startsWith(directory + path.sep)))
+      .map(file => this.toResPath(file))
+      .sort();
+  }
+
+  private resolveReference(index: GodotUidIndex, value: string, from: string): string | undefined {
+    if (value.startsWith('uid://')) {
+      return this.resolveUid(index, value);
+    }
+    if (value.startsWith('res://')) {
+      return value;
+    }
+    if (/^[a-z]+:\/\//.test(value)) {
+      return undefined;
+    }
+    // Relative paths resolve against the directory of the file that loads them
+    const relative = path.posix.normalize(path.posix.join(path.posix.dirname(from.slice('res://'.length)), value));
+    return relative.startsWith('..') ? undefined : `res://${relative}`;
+  }
+
+  private lineAt(content: string, offset: number): number {
+    return content.slice(0, offset).split('\n').length;
+  }
+
+  private getSectionValue(section: ResourceSection, key: string): any {
+    const property = section.properties.find(p => p.key === key);
+    return property ? decodeVariant(property.value) : undefined;
+  }
+
+  private toResPath(relativePath: string): string {
+    return `res://${relativePath.split(path.sep).join('/')}`;
+  }
+}
+
+/**
+ * Whether a quoted path is a format template rather than a file, e.g. "res://levels/level_%d.tscn" % n,
+ * "res://levels/{0}.tscn".format([n]) or "res://levels/" + name. `following` is the source text after the closing quote.
+ */
+export function isPathTemplate(value: string, following: string = ''): boolean {
+  return /%[-+ 0#]*\d*(?:\.\d+)?[sdifxXoc]|\{[^{}]*\}/.test(value) || /^\s*(?:%|\+|\.format\s*\()/.test(following);
+}
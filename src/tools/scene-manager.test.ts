@@ -0,0 +1,251 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GodotSceneManager } from './scene-manager.js';
+
+const MAIN = `[gd_scene load_steps=3 format=3 uid="uid://b8x1main"]
+
+[ext_resource type="Script" path="res://scripts/main.gd" id="1_main"]
+[ext_resource type="Texture2D" path="res://icon.svg" id="2_icon"]
+
+[node name="Main" type="Node2D"]
+script = ExtResource("1_main")
+target = NodePath("UI/HUD/Label")
+
+[node name="UI" type="CanvasLayer" parent="."]
+
+[node name="HUD" type="Control" parent="UI"]
+
+[node name="Label" type="Label" parent="UI/HUD"]
+text = "Score"
+
+[node name="Icon" type="Sprite2D" parent="UI/HUD"]
+texture = ExtResource("2_icon")
+
+[node name="World" type="Node2D" parent="."]
+
+[connection signal="resized" from="UI/HUD" to="." method="_on_hud_resized"]
+`;
+
+describe('GodotSceneManager node edits', () => {
+  let projectPath: string;
+  let manager: GodotSceneManager;
+  const file = (relativePath: string) => path.join(projectPath, relativePath);
+  const readScene = () => fs.readFile(file('scenes/main.tscn'), 'utf-8');
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-mcp-'));
+    manager = new GodotSceneManager(projectPath);
+    await fs.outputFile(file('project.godot'), 'config_version=5\n');
+    await fs.outputFile(file('scripts/main.gd'), 'extends Node2D\n\nfunc _on_hud_resized():\n\tpass\n');
+    await fs.outputFile(file('icon.svg'), '<svg xmlns="http://www.w3.org/2000/svg"/>\n');
+    await fs.outputFile(file('scenes/main.tscn'), MAIN);
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('adds a node after its parent\'s last descendant and removes it again', async () => {
+    const added = await manager.addNode('scenes/main.tscn', 'UI/HUD', 'Health', {
+      type: 'ProgressBar',
+      properties: { value: 50 },
+    });
+
+    expect(added).toEqual({ success: true, data: { path: 'scenes/main.tscn', node: 'UI/HUD/Health', warnings: [] } });
+    expect(await readScene()).toBe(MAIN.replace(
+      '[node name="World"',
+      '[node name="Health" type="ProgressBar" parent="UI/HUD"]\nvalue = 50\n\n[node name="World"'
+    ));
+
+    expect((await manager.removeNode('scenes/main.tscn', 'UI/HUD/Health')).success).toBe(true);
+    expect(await readScene()).toBe(MAIN);
+  });
+
+  it('removes a subtree with its connections and the resources only it used', async () => {
+    const response = await manager.removeNode('scenes/main.tscn', 'UI/HUD');
+
+    expect(response).toEqual({
+      success: true,
+      data: {
+        path: 'scenes/main.tscn',
+        removedNodes: ['UI/HUD', 'UI/HUD/Label', 'UI/HUD/Icon'],
+        removedConnections: 1,
+        removedResources: ['ExtResource("2_icon")'],
+        warnings: ['. has a NodePath to removed node UI/HUD/Label'],
+      },
+    });
+    expect(await readScene()).toBe([
+      '[gd_scene load_steps=2 format=3 uid="uid://b8x1main"]',
+      '',
+      '[ext_resource type="Script" path="res://scripts/main.gd" id="1_main"]',
+      '',
+      '[node name="Main" type="Node2D"]',
+      'script = ExtResource("1_main")',
+      'target = NodePath("UI/HUD/Label")',
+      '',
+      '[node name="UI" type="CanvasLayer" parent="."]',
+      '',
+      '[node name="World" type="Node2D" parent="."]',
+      '',
+    ].join('\n'));
+  });
+
+  it('reparents a subtree and updates parent paths, connections and NodePaths', async () => {
+    const response = await manager.reparentNode('scenes/main.tscn', 'UI/HUD', 'World');
+
+    expect(response.success).toBe(true);
+    expect(response.data.node).toBe('World/HUD');
+    expect(await readScene()).toBe(MAIN
+      .replace('NodePath("UI/HUD/Label")', 'NodePath("World/HUD/Label")')
+      .replace(/\[node name="HUD"[\s\S]*?(?=\[node name="World")/, '')
+      .replace('[node name="World" type="Node2D" parent="."]\n', [
+        '[node name="World" type="Node2D" parent="."]',
+        '',
+        '[node name="HUD" type="Control" parent="World"]',
+        '',
+        '[node name="Label" type="Label" parent="World/HUD"]',
+        'text = "Score"',
+        '',
+        '[node name="Icon" type="Sprite2D" parent="World/HUD"]',
+        'texture = ExtResource("2_icon")',
+        '',
+      ].join('\n'))
+      .replace('from="UI/HUD"', 'from="World/HUD"'));
+
+    expect((await manager.reparentNode('scenes/main.tscn', 'World/HUD', 'UI')).success).toBe(true);
+    expect(await readScene()).toBe(MAIN);
+  });
+
+  it('renames a node and everything that refers to it', async () => {
+    expect((await manager.renameNode('scenes/main.tscn', 'UI/HUD', 'Overlay')).success).toBe(true);
+    expect(await readScene()).toBe(MAIN
+      .replace('[node name="HUD"', '[node name="Overlay"')
+      .replace(/parent="UI\/HUD"/g, 'parent="UI/Overlay"')
+      .replace('NodePath("UI/HUD/Label")', 'NodePath("UI/Overlay/Label")')
+      .replace('from="UI/HUD"', 'from="UI/Overlay"'));
+
+    expect((await manager.renameNode('scenes/main.tscn', 'UI/Overlay', 'HUD')).success).toBe(true);
+    expect(await readScene()).toBe(MAIN);
+  });
+
+  it('rejects edits that would break the tree', async () => {
+    expect(await manager.removeNode('scenes/main.tscn', '.')).toEqual({ success: false, error: 'Cannot remove the root node of a scene' });
+    expect(await manager.reparentNode('scenes/main.tscn', 'UI', 'UI/HUD')).toEqual({
+      success: false,
+      error: 'Cannot move UI under itself or one of its descendants',
+    });
+    expect(await manager.addNode('scenes/main.tscn', 'UI', 'HUD', { type: 'Control' })).toEqual({
+      success: false,
+      error: 'Node UI already has a child named HUD',
+    });
+    expect(await manager.renameNode('scenes/main.tscn', 'World', 'a/b')).toMatchObject({ success: false });
+    expect(await readScene()).toBe(MAIN);
+  });
+});
+
+describe('GodotSceneManager.extractSubtreeToScene', () => {
+  let projectPath: string;
+  let manager: GodotSceneManager;
+  const file = (relativePath: string) => path.join(projectPath, relativePath);
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-mcp-'));
+    manager = new GodotSceneManager(projectPath);
+    await fs.outputFile(file('project.godot'), 'config_version=5\n');
+    await fs.outputFile(file('scripts/main.gd'), 'extends Node2D\n');
+    await fs.outputFile(file('icon.svg'), '<svg xmlns="http://www.w3.org/2000/svg"/>\n');
+    await fs.outputFile(file('scenes/main.tscn'), MAIN
+      + '[connection signal="draw" from="UI/HUD/Icon" to="UI/HUD" method="_on_icon_draw"]\n'
+      + '[connection signal="draw" from="UI/HUD/Label" to="." method="_on_label_draw"]\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('saves a subtree as a new scene and instances it in its place', async () => {
+    const response = await manager.extractSubtreeToScene('scenes/main.tscn', 'UI/HUD', 'res://ui/hud.tscn');
+
+    expect(response.success).toBe(true);
+    const { uid } = response.data.scene;
+    expect(response.data).toMatchObject({
+      movedNodes: ['UI/HUD', 'UI/HUD/Label', 'UI/HUD/Icon'],
+      copiedResources: ['ExtResource("2_icon")'],
+      removedResources: ['ExtResource("2_icon")'],
+      movedConnections: [{ signal: 'draw', from: 'UI/HUD/Icon', to: 'UI/HUD', method: '_on_icon_draw' }],
+      keptConnections: [{ signal: 'resized', from: 'UI/HUD', to: '.', method: '_on_hud_resized' }],
+      droppedConnections: [{ signal: 'draw', from: 'UI/HUD/Label', to: '.', method: '_on_label_draw' }],
+      editableChildren: false,
+    });
+
+    expect(await fs.readFile(file('ui/hud.tscn'), 'utf-8')).toBe([
+      `[gd_scene load_steps=2 format=3 uid="${uid}"]`,
+      '',
+      '[ext_resource type="Texture2D" path="res://icon.svg" id="2_icon"]',
+      '',
+      '[node name="HUD" type="Control"]',
+      '',
+      '[node name="Label" type="Label" parent="."]',
+      'text = "Score"',
+      '',
+      '[node name="Icon" type="Sprite2D" parent="."]',
+      'texture = ExtResource("2_icon")',
+      '',
+      '[connection signal="draw" from="Icon" to="." method="_on_icon_draw"]',
+      '',
+    ].join('\n'));
+
+    const main = await fs.readFile(file('scenes/main.tscn'), 'utf-8');
+    const id = /path="res:\/\/ui\/hud.tscn" id="(\w+)"/.exec(main)![1];
+    expect(main).toBe([
+      '[gd_scene load_steps=3 format=3 uid="uid://b8x1main"]',
+      '',
+      '[ext_resource type="Script" path="res://scripts/main.gd" id="1_main"]',
+      `[ext_resource type="PackedScene" uid="${uid}" path="res://ui/hud.tscn" id="${id}"]`,
+      '',
+      '[node name="Main" type="Node2D"]',
+      'script = ExtResource("1_main")',
+      'target = NodePath("UI/HUD/Label")',
+      '',
+      '[node name="UI" type="CanvasLayer" parent="."]',
+      '',
+      `[node name="HUD" parent="UI" instance=ExtResource("${id}")]`,
+      '',
+      '[node name="World" type="Node2D" parent="."]',
+      '',
+      '[connection signal="resized" from="UI/HUD" to="." method="_on_hud_resized"]',
+      '',
+    ].join('\n'));
+  });
+
+  it('keeps connections from inside the instance with editable children', async () => {
+    const response = await manager.extractSubtreeToScene('scenes/main.tscn', 'UI/HUD', 'ui/hud.tscn', { editableChildren: true });
+
+    expect(response.data.droppedConnections).toEqual([]);
+    expect(response.data.editableChildren).toBe(true);
+    expect(await fs.readFile(file('scenes/main.tscn'), 'utf-8')).toContain(
+      '[connection signal="draw" from="UI/HUD/Label" to="." method="_on_label_draw"]\n\n[editable path="UI/HUD"]\n'
+    );
+  });
+
+  it('refuses new scene paths outside the project or over an existing file', async () => {
+    const before = await fs.readFile(file('scenes/main.tscn'), 'utf-8');
+
+    expect(await manager.extractSubtreeToScene('scenes/main.tscn', 'UI/HUD', 'res://../hud.tscn')).toEqual({
+      success: false,
+      error: 'Path must be inside the project: res://../hud.tscn',
+    });
+    expect(await manager.extractSubtreeToScene('scenes/main.tscn', 'UI/HUD', 'scenes/main.tscn')).toEqual({
+      success: false,
+      error: 'Scene file already exists: scenes/main.tscn',
+    });
+    expect(await manager.extractSubtreeToScene('scenes/main.tscn', '.', 'ui/main.tscn')).toEqual({
+      success: false,
+      error: 'Cannot extract the root node of a scene',
+    });
+
+    expect(await fs.pathExists(path.join(projectPath, '..', 'hud.tscn'))).toBe(false);
+    expect(await fs.readFile(file('scenes/main.tscn'), 'utf-8')).toBe(before);
+  });
+});
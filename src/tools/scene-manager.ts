@@ -1,10 +1,134 @@
 import fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
 import { glob } from 'glob';
-import { GodotScene, GodotNode, McpToolResponse } from '../types/index.js';
+import {
+  GodotScene,
+  GodotNode,
+  GodotNodeSpec,
+  GodotExtResource,
+  GodotSubResource,
+  GodotConnection,
+  GodotScript,
+  GodotProperty,
+  GodotParameter,
+  GodotMethod,
+  GodotConnectionIssue,
+  McpToolResponse,
+} from '../types/index.js';
+import {
+  parseResource,
+  ResourceSection,
+  VariantNode,
+  getResourceReferenceId,
+  stringifySection,
+  stringifyVariant,
+  toPlainValue,
+} from '../parsers/resource-parser.js';
+import {
+  EditableResource,
+  ResourceBlock,
+  editResource,
+  renderResource,
+  findBlocks,
+  createBlock,
+  insertBlock,
+  removeBlock,
+  setBlockAttributes,
+  setBlockProperty,
+  getBlockTag,
+} from '../parsers/resource-editor.js';
+import { decodeVariant, VariantDecodeContext, COMPONENT_TYPES } from '../parsers/variant-decoder.js';
+import { encodeVariant } from '../parsers/variant-encoder.js';
+import { isEngineClass, getEngineSignal, hasEngineMethod } from '../parsers/engine-classes.js';
+import { ProjectFileWriter, isInsideProject } from '../file-writer.js';
+import { GodotScriptManager } from './script-manager.js';
+import { GodotResourceManager, GodotUidIndex } from './resource-manager.js';
+
+interface SceneWriteContext {
+  uidIndex: GodotUidIndex;
+  extResources: GodotExtResource[];
+  subResources: { id: string; type: string; properties: { key: string; value: VariantNode }[] }[];
+  warnings: string[];
+}
+
+interface SceneTreePaths {
+  // Node paths relative to the root, including the nodes of instanced scenes
+  paths: Set<string>;
+  unique: Map<string, string>;
+  // Instanced nodes whose scene could not be loaded; anything below them is unknown
+  opaque: string[];
+}
+
+interface NodeClass {
+  type?: string;
+  script: Partial<GodotScript> | null;
+  // The script's extends, without the Godot. namespace of C# base classes
+  scriptBase?: string;
+}
+
+interface EditableScene {
+  relativePath: string;
+  fullPath: string;
+  resource: EditableResource;
+  nodes: { block: ResourceBlock; path: string }[];
+}
+
+// Characters Godot does not allow in node names
+const INVALID_NODE_NAME = /[.:@/"%]/;
+
+// Variant types whose values are written as a constructor of the same name
+const VALUE_TYPES = new Set([
+  ...Object.keys(COMPONENT_TYPES),
+  'Rect2', 'Rect2i', 'AABB', 'Plane', 'Transform2D', 'Basis', 'Transform3D', 'Projection', 'Callable', 'Signal', 'RID',
+]);
+
+const CSHARP_TYPES: Record<string, string> = {
+  float: 'float',
+  double: 'float',
+  int: 'int',
+  uint: 'int',
+  long: 'int',
+  ulong: 'int',
+  short: 'int',
+  ushort: 'int',
+  byte: 'int',
+  sbyte: 'int',
+  bool: 'bool',
+  string: 'String',
+};
+
+const RESOURCE_TYPES: Record<string, string> = {
+  '.gd': 'Script',
+  '.cs': 'Script',
+  '.tscn': 'PackedScene',
+  '.scn': 'PackedScene',
+  '.glb': 'PackedScene',
+  '.gltf': 'PackedScene',
+  '.png': 'Texture2D',
+  '.jpg': 'Texture2D',
+  '.jpeg': 'Texture2D',
+  '.webp': 'Texture2D',
+  '.svg': 'Texture2D',
+  '.bmp': 'Texture2D',
+  '.tga': 'Texture2D',
+  '.wav': 'AudioStream',
+  '.ogg': 'AudioStream',
+  '.mp3': 'AudioStream',
+  '.ttf': 'FontFile',
+  '.otf': 'FontFile',
+  '.woff': 'FontFile',
+  '.woff2': 'FontFile',
+  '.gdshader': 'Shader',
+};
 
 export class GodotSceneManager {
-  constructor(private projectPath: string) {}
+  constructor(
+    private projectPath: string,
+    private scriptManager: GodotScriptManager = new GodotScriptManager(projectPath),
+    private resourceManager: GodotResourceManager = new GodotResourceManager(projectPath),
+    private fileWriter: ProjectFileWriter = new ProjectFileWriter(projectPath),
+  ) {}
 
   async listScenes(includeDetails: boolean = false): Promise<McpToolResponse> {
     try {
@@ -14,18 +138,28 @@ export class GodotSceneManager {
       });
 
       const scenes = [];
+      const uidIndex = includeDetails ? await this.resourceManager.buildUidIndex() : undefined;
       
       for (const sceneFile of sceneFiles) {
         const scenePath = path.join(this.projectPath, sceneFile);
         const sceneName = path.basename(sceneFile, '.tscn');
         
         if (includeDetails) {
-          const sceneData = await this.parseSceneFile(scenePath);
-          scenes.push({
-            name: sceneName,
-            path: sceneFile,
-            ...sceneData,
-          });
+          try {
+            const sceneData = await this.parseSceneFile(scenePath, uidIndex);
+            scenes.push({
+              name: sceneName,
+              path: sceneFile,
+              ...sceneData,
+            });
+          } catch (error) {
+            // One broken scene, e.g. with merge conflict markers, shouldn't hide the rest
+            scenes.push({
+              name: sceneName,
+              path: sceneFile,
+              parseError: error instanceof Error ? error.message : String(error),
+            });
+          }
         } else {
           scenes.push({
             name: sceneName,
@@ -60,7 +194,8 @@ export class GodotSceneManager {
         };
       }
 
-      const sceneData = await this.parseSceneFile(fullPath);
+      const uidIndex = await this.resourceManager.buildUidIndex();
+      const sceneData = await this.parseSceneFile(fullPath, uidIndex);
       
       return {
         success: true,
@@ -78,117 +213,1979 @@ export class GodotSceneManager {
     }
   }
 
-  private async parseSceneFile(filePath: string): Promise<Partial<GodotScene>> {
+  async createScene(
+    scenePath: string,
+    rootType: string,
+    rootName: string,
+    options: Omit<GodotNodeSpec, 'name' | 'type' | 'instance'> & { overwrite?: boolean } = {}
+  ): Promise<McpToolResponse> {
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
+      const relativePath = scenePath.replace(/^res:\/\//, '');
       
-      let rootNode = '';
-      const nodes: GodotNode[] = [];
-      let currentNode: Partial<GodotNode> | null = null;
-      let currentSection = '';
+      if (path.extname(relativePath) !== '.tscn') {
+        return {
+          success: false,
+          error: `Scene path must end with .tscn: ${scenePath}`,
+        };
+      }
       
-      for (const line of lines) {
-        const trimmed = line.trim();
-        
-        if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
-          // Save previous node if exists
-          if (currentNode && currentNode.name) {
-            nodes.push(currentNode as GodotNode);
-          }
-          
-          currentSection = trimmed.slice(1, -1);
-          currentNode = null;
-          
-          // Parse node sections
-          if (currentSection.startsWith('node ')) {
-            currentNode = this.parseNodeSection(currentSection);
-            if (!rootNode && currentNode.name) {
-              rootNode = currentNode.name;
-            }
-          }
-          continue;
+      const fullPath = path.join(this.projectPath, relativePath);
+      if (!isInsideProject(this.projectPath, fullPath)) {
+        return {
+          success: false,
+          error: `Path must be inside the project: ${scenePath}`,
+        };
+      }
+      if (await this.fileWriter.pathExists(fullPath) && !options.overwrite) {
+        return {
+          success: false,
+          error: `Scene file already exists: ${relativePath}`,
+        };
+      }
+      
+      const root: GodotNodeSpec = {
+        name: rootName,
+        type: rootType,
+        script: options.script,
+        groups: options.groups,
+        properties: options.properties,
+        children: options.children,
+      };
+      this.validateNodeSpec(root);
+      
+      const context: SceneWriteContext = {
+        uidIndex: await this.resourceManager.buildUidIndex(),
+        extResources: [],
+        subResources: [],
+        warnings: [],
+      };
+      const nodeSections: string[] = [];
+      await this.serializeNodeSpec(root, undefined, context, nodeSections);
+      
+      const uid = this.resourceManager.generateUid(context.uidIndex);
+      await this.fileWriter.writeFile(fullPath, this.serializeScene(uid, context, nodeSections));
+      
+      // Read the file back so the response matches what analyze_scene reports
+      const sceneData = await this.parseSceneFile(fullPath, context.uidIndex);
+      
+      return {
+        success: true,
+        data: {
+          name: path.basename(relativePath, '.tscn'),
+          path: relativePath,
+          ...sceneData,
+          warnings: context.warnings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create scene',
+      };
+    }
+  }
+
+  async addNode(
+    scenePath: string,
+    parentPath: string,
+    name: string,
+    options: Omit<GodotNodeSpec, 'name'> = {}
+  ): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      const parent = this.resolveNodePath(scene, parentPath);
+      const spec: GodotNodeSpec = { name, ...options };
+      this.validateNodeSpec(spec);
+      
+      if (this.findNode(scene, this.joinNodePath(parent, name))) {
+        return {
+          success: false,
+          error: `Node ${parent} already has a child named ${name}`,
+        };
+      }
+      
+      const context = await this.createEditContext(scene);
+      const sections: string[] = [];
+      await this.serializeNodeSpec(spec, parent, context, sections);
+      
+      // New nodes go after the parent's last descendant so parents still precede children
+      const insertAt = this.getSubtreeEnd(scene, parent);
+      sections.forEach((section, index) => {
+        insertBlock(scene.resource, insertAt + index, createBlock(section));
+      });
+      this.insertNewResources(scene, context);
+      
+      await this.saveEditableScene(scene);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          node: this.joinNodePath(parent, name),
+          warnings: context.warnings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add node',
+      };
+    }
+  }
+
+  async removeNode(scenePath: string, nodePath: string): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      const target = this.resolveNodePath(scene, nodePath);
+      
+      if (target === '.') {
+        return {
+          success: false,
+          error: 'Cannot remove the root node of a scene',
+        };
+      }
+      
+      const removed = this.getSubtree(scene, target);
+      const removedPaths = new Set(removed.map(node => node.path));
+      const warnings: string[] = [];
+      const removedBlocks: ResourceBlock[] = removed.map(node => node.block);
+      
+      for (const block of findBlocks(scene.resource, 'connection')) {
+        const { from, to } = block.section!.attributes;
+        if (this.isInSubtree(this.connectionPath(from), target) || this.isInSubtree(this.connectionPath(to), target)) {
+          removedBlocks.push(block);
         }
-        
-        // Parse node properties
-        if (currentNode && trimmed.includes('=')) {
-          const [key, value] = trimmed.split('=', 2);
-          if (!currentNode.properties) {
-            currentNode.properties = {};
-          }
-          currentNode.properties[key.trim()] = value.trim();
+      }
+      for (const block of findBlocks(scene.resource, 'editable')) {
+        const editablePath = block.section!.attributes.path;
+        if (editablePath && this.isInSubtree(String(toPlainValue(editablePath)), target)) {
+          removedBlocks.push(block);
         }
       }
       
-      // Add last node
-      if (currentNode && currentNode.name) {
-        nodes.push(currentNode as GodotNode);
+      // Node paths elsewhere in the scene that now point at nothing
+      for (const node of scene.nodes) {
+        if (removedPaths.has(node.path)) continue;
+        this.rewriteNodePathProperties(node, scene, (resolved) => {
+          if (this.isInSubtree(resolved, target)) {
+            warnings.push(`${node.path} has a NodePath to removed node ${resolved}`);
+          }
+          return resolved;
+        });
+      }
+      
+      for (const block of removedBlocks) {
+        removeBlock(scene.resource, block);
       }
+      const removedResources = this.removeUnusedResources(scene, removedBlocks.flatMap(block => this.getSectionValues(block.section!)));
+      this.updateLoadSteps(scene);
       
-      // Build node hierarchy
-      const nodeHierarchy = this.buildNodeHierarchy(nodes);
+      await this.saveEditableScene(scene);
       
       return {
-        rootNode,
-        nodes: nodeHierarchy,
+        success: true,
+        data: {
+          path: scene.relativePath,
+          removedNodes: removed.map(node => node.path),
+          removedConnections: removedBlocks.filter(block => block.section!.tag === 'connection').length,
+          removedResources,
+          warnings,
+        },
       };
     } catch (error) {
-      throw new Error(`Failed to parse scene file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove node',
+      };
     }
   }
 
-  private parseNodeSection(section: string): Partial<GodotNode> {
-    // Parse: [node name="NodeName" type="NodeType" parent="ParentPath"]
-    const node: Partial<GodotNode> = {
-      properties: {},
-      children: [],
-    };
-    
-    const nameMatch = section.match(/name="([^"]+)"/);
-    if (nameMatch) {
-      node.name = nameMatch[1];
-    }
-    
-    const typeMatch = section.match(/type="([^"]+)"/);
-    if (typeMatch) {
-      node.type = typeMatch[1];
-    }
-    
-    const parentMatch = section.match(/parent="([^"]+)"/);
-    if (parentMatch) {
-      node.parent = parentMatch[1];
+  async reparentNode(scenePath: string, nodePath: string, newParentPath: string): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      const target = this.resolveNodePath(scene, nodePath);
+      const newParent = this.resolveNodePath(scene, newParentPath);
+      
+      if (target === '.') {
+        return {
+          success: false,
+          error: 'Cannot reparent the root node of a scene',
+        };
+      }
+      if (this.isInSubtree(newParent, target)) {
+        return {
+          success: false,
+          error: `Cannot move ${target} under itself or one of its descendants`,
+        };
+      }
+      
+      const name = target.split('/').pop()!;
+      const newPath = this.joinNodePath(newParent, name);
+      if (newPath === target) {
+        return {
+          success: true,
+          data: { path: scene.relativePath, node: target, changed: false },
+        };
+      }
+      if (this.findNode(scene, newPath)) {
+        return {
+          success: false,
+          error: `Node ${newParent} already has a child named ${name}`,
+        };
+      }
+      
+      const subtree = this.getSubtree(scene, target);
+      const changes = this.applyNodeMoves(scene, new Map([[target, newPath]]));
+      
+      // Move the subtree's sections after the new parent's last descendant
+      for (const node of subtree) {
+        scene.resource.blocks.splice(scene.resource.blocks.indexOf(node.block), 1);
+      }
+      scene.nodes = scene.nodes.filter(node => !subtree.includes(node));
+      const insertAt = this.getSubtreeEnd(scene, newParent);
+      scene.resource.blocks.splice(insertAt, 0, ...subtree.map(node => node.block));
+      
+      await this.saveEditableScene(scene);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          node: newPath,
+          ...changes,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reparent node',
+      };
     }
-    
-    return node;
   }
 
-  private buildNodeHierarchy(flatNodes: GodotNode[]): GodotNode[] {
-    const nodeMap = new Map<string, GodotNode>();
-    const rootNodes: GodotNode[] = [];
-    
-    // Create node map
-    for (const node of flatNodes) {
-      nodeMap.set(node.name, { ...node, children: [] });
+  async renameNode(scenePath: string, nodePath: string, newName: string): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      const target = this.resolveNodePath(scene, nodePath);
+      
+      if (!newName || INVALID_NODE_NAME.test(newName)) {
+        return {
+          success: false,
+          error: `Invalid node name: "${newName}" (names cannot be empty or contain . : @ / " %)`,
+        };
+      }
+      
+      if (target === '.') {
+        // Paths in a scene are relative to the root, so only its own header changes
+        const root = scene.nodes.find(node => node.path === '.')!;
+        setBlockAttributes(root.block, { ...root.block.section!.attributes, name: encodeVariant(newName) });
+        await this.saveEditableScene(scene);
+        return {
+          success: true,
+          data: { path: scene.relativePath, node: '.', name: newName },
+        };
+      }
+      
+      const parent = target.includes('/') ? target.slice(0, target.lastIndexOf('/')) : '.';
+      const newPath = this.joinNodePath(parent, newName);
+      if (newPath !== target && this.findNode(scene, newPath)) {
+        return {
+          success: false,
+          error: `Node ${parent} already has a child named ${newName}`,
+        };
+      }
+      
+      const changes = this.applyNodeMoves(scene, new Map([[target, newPath]]));
+      await this.saveEditableScene(scene);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          node: newPath,
+          ...changes,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to rename node',
+      };
     }
-    
-    // Build hierarchy
-    for (const node of flatNodes) {
-      const nodeInstance = nodeMap.get(node.name);
-      if (!nodeInstance) continue;
+  }
+
+  async extractSubtreeToScene(
+    scenePath: string,
+    nodePath: string,
+    newScenePath: string,
+    options: { editableChildren?: boolean } = {}
+  ): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      const target = this.resolveNodePath(scene, nodePath);
+      const newRelativePath = newScenePath.replace(/^res:\/\//, '');
+      const newFullPath = path.join(this.projectPath, newRelativePath);
+      
+      if (target === '.') {
+        return {
+          success: false,
+          error: 'Cannot extract the root node of a scene',
+        };
+      }
+      if (path.extname(newRelativePath) !== '.tscn') {
+        return {
+          success: false,
+          error: `Scene path must end with .tscn: ${newScenePath}`,
+        };
+      }
+      if (!isInsideProject(this.projectPath, newFullPath)) {
+        return {
+          success: false,
+          error: `Path must be inside the project: ${newScenePath}`,
+        };
+      }
+      if (await this.fileWriter.pathExists(newFullPath)) {
+        return {
+          success: false,
+          error: `Scene file already exists: ${newRelativePath}`,
+        };
+      }
       
-      if (node.parent) {
-        const parentNode = nodeMap.get(node.parent);
-        if (parentNode) {
-          parentNode.children.push(nodeInstance);
+      const subtree = this.getSubtree(scene, target);
+      const subtreePaths = new Set(subtree.map(node => node.path));
+      const rebase = (nodePath: string) => nodePath === target ? '.' : nodePath.slice(target.length + 1);
+      const warnings: string[] = [];
+      
+      // The new scene starts as a second copy of the file; everything outside the subtree is dropped
+      const extracted: EditableScene = {
+        relativePath: newRelativePath,
+        fullPath: newFullPath,
+        resource: editResource(scene.resource.source),
+        nodes: [],
+      };
+      const copiedNodes = findBlocks(extracted.resource, 'node');
+      scene.nodes.forEach((node, index) => {
+        const block = copiedNodes[index];
+        if (!subtreePaths.has(node.path)) {
+          removeBlock(extracted.resource, block);
+          return;
+        }
+        
+        const attributes = { ...block.section!.attributes };
+        if (node.path === target) {
+          // The root has no parent, and its unique name belongs to the scene it is instanced in
+          delete attributes.parent;
+          delete attributes.index;
+          setBlockProperty(block, 'unique_name_in_owner', undefined);
+        } else {
+          attributes.parent = encodeVariant(rebase(String(toPlainValue(attributes.parent))));
+          if (block.section!.properties.some(property => property.key === 'unique_name_in_owner')) {
+            warnings.push(`${node.path} has a unique name; %${node.path.split('/').pop()} only resolves inside ${newRelativePath} now`);
+          }
+        }
+        setBlockAttributes(block, attributes);
+        extracted.nodes.push({ block, path: rebase(node.path) });
+        
+        this.rewriteNodePathProperties(node, scene, (resolved) => {
+          if (!this.isInSubtree(resolved, target)) {
+            warnings.push(`${node.path} has a NodePath to ${resolved}, which is outside ${newRelativePath}`);
+          }
+          return resolved;
+        });
+      });
+      
+      // Connections inside the subtree move with it; ones crossing the boundary stay in this scene,
+      // where nodes of the instance are reachable by the same paths
+      const movedConnections: Record<string, string>[] = [];
+      const keptConnections: Record<string, string>[] = [];
+      const droppedConnections: Record<string, string>[] = [];
+      const removedBlocks: ResourceBlock[] = subtree.filter(node => node.path !== target).map(node => node.block);
+      let needsEditableChildren = false;
+      
+      const copiedConnections = findBlocks(extracted.resource, 'connection');
+      findBlocks(scene.resource, 'connection').forEach((block, index) => {
+        const copy = copiedConnections[index];
+        const attributes = block.section!.attributes;
+        const from = this.connectionPath(attributes.from);
+        const to = this.connectionPath(attributes.to);
+        const fromInside = this.isInSubtree(from, target);
+        const toInside = this.isInSubtree(to, target);
+        const summary = this.summarizeConnection(block.section!);
+        
+        if (fromInside && toInside) {
+          setBlockAttributes(copy, { ...copy.section!.attributes, from: encodeVariant(rebase(from!)), to: encodeVariant(rebase(to!)) });
+          removedBlocks.push(block);
+          movedConnections.push(summary);
+          return;
+        }
+        
+        removeBlock(extracted.resource, copy);
+        if (!fromInside && !toInside) return;
+        
+        // Godot only saves connections from nodes inside an instance when its children are editable
+        if (fromInside && from !== target && !options.editableChildren) {
+          removedBlocks.push(block);
+          droppedConnections.push(summary);
+          warnings.push(`Dropped connection ${summary.signal} from ${summary.from} to ${summary.to}::${summary.method}; its source is inside the new scene (pass editableChildren to keep it, or connect it in ${newRelativePath})`);
+          return;
+        }
+        needsEditableChildren ||= fromInside && from !== target;
+        keptConnections.push(summary);
+      });
+      
+      const copiedEditables = findBlocks(extracted.resource, 'editable');
+      findBlocks(scene.resource, 'editable').forEach((block, index) => {
+        const copy = copiedEditables[index];
+        const editablePath = String(toPlainValue(block.section!.attributes.path));
+        if (editablePath !== target && this.isInSubtree(editablePath, target)) {
+          setBlockAttributes(copy, { ...copy.section!.attributes, path: encodeVariant(rebase(editablePath)) });
+          removedBlocks.push(block);
         } else {
-          // Parent not found, treat as root
-          rootNodes.push(nodeInstance);
+          removeBlock(extracted.resource, copy);
+        }
+      });
+      
+      const copiedResources = this.removeUnreferencedResources(extracted);
+      const uidIndex = await this.resourceManager.buildUidIndex();
+      const uid = this.resourceManager.generateUid(uidIndex);
+      this.updateLoadSteps(extracted, { uid: encodeVariant(uid) });
+      await this.fileWriter.writeFile(newFullPath, renderResource(extracted.resource));
+      
+      // Replace the subtree with an instance of the new scene
+      const targetNode = this.findNode(scene, target)!;
+      const targetSection = targetNode.block.section!;
+      for (const block of removedBlocks) {
+        removeBlock(scene.resource, block);
+      }
+      
+      const context = await this.createEditContext(scene);
+      const extId = await this.addExtResource(newRelativePath, 'PackedScene', context);
+      context.extResources.find(resource => resource.id === extId)!.uid = uid;
+      
+      const instanceAttributes: Record<string, VariantNode> = { name: targetSection.attributes.name, parent: targetSection.attributes.parent };
+      if (targetSection.attributes.index) instanceAttributes.index = targetSection.attributes.index;
+      instanceAttributes.instance = encodeVariant({ type: 'ExtResource', id: extId });
+      const uniqueName = targetSection.properties.filter(property => property.key === 'unique_name_in_owner');
+      const instanceBlock = createBlock(stringifySection('node', instanceAttributes, uniqueName), targetNode.block.separator);
+      scene.resource.blocks.splice(scene.resource.blocks.indexOf(targetNode.block), 1, instanceBlock);
+      
+      const hasEditable = findBlocks(scene.resource, 'editable').some(block => toPlainValue(block.section!.attributes.path) === target);
+      if (needsEditableChildren && !hasEditable) {
+        // [editable] sections come last, after the connections
+        const last = scene.resource.blocks[scene.resource.blocks.length - 1];
+        insertBlock(scene.resource, scene.resource.blocks.length, createBlock(stringifySection('editable', { path: encodeVariant(target) }), last.separator));
+      }
+      
+      this.insertNewResources(scene, context);
+      const removedResources = this.removeUnusedResources(
+        scene,
+        [targetNode.block, ...removedBlocks].flatMap(block => this.getSectionValues(block.section!))
+      );
+      this.updateLoadSteps(scene);
+      await this.saveEditableScene(scene);
+      
+      // Read the new scene back so the response matches what analyze_scene reports
+      const sceneData = await this.parseSceneFile(newFullPath, uidIndex);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          node: target,
+          scene: {
+            path: newRelativePath,
+            uid,
+            nodes: sceneData.nodes,
+          },
+          movedNodes: subtree.map(node => node.path),
+          copiedResources,
+          removedResources,
+          movedConnections,
+          keptConnections,
+          droppedConnections,
+          editableChildren: needsEditableChildren,
+          warnings: [...warnings, ...context.warnings],
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to extract subtree',
+      };
+    }
+  }
+
+  async setNodeProperty(scenePath: string, nodePath: string, property: string, value?: any): Promise<McpToolResponse> {
+    try {
+      if (!property || /[\s=[\]"]/.test(property)) {
+        return {
+          success: false,
+          error: `Invalid property name: "${property}"`,
+        };
+      }
+      
+      const scene = await this.loadEditableScene(scenePath);
+      const target = this.resolveNodePath(scene, nodePath);
+      const node = this.findNode(scene, target)!;
+      const section = node.block.section!;
+      const previous = section.properties.find(p => p.key === property);
+      
+      if (value === undefined) {
+        // Without a value in the scene Godot falls back to the class or script default
+        if (!previous) {
+          return {
+            success: true,
+            data: { path: scene.relativePath, node: target, property, changed: false },
+          };
+        }
+        
+        setBlockProperty(node.block, property, undefined);
+        const removedResources = this.removeUnusedResources(scene, [previous.value]);
+        this.updateLoadSteps(scene);
+        await this.saveEditableScene(scene);
+        
+        return {
+          success: true,
+          data: {
+            path: scene.relativePath,
+            node: target,
+            property,
+            cleared: true,
+            previous: previous.raw,
+            removedResources,
+          },
+        };
+      }
+      
+      const context = await this.createEditContext(scene);
+      const script = property === 'script' ? null : await this.getNodeScript(scene, section, context.uidIndex);
+      const scriptProperty = script?.properties?.find(p => p.name === property && !p.constant);
+      
+      let newValue = value;
+      if (script && scriptProperty) {
+        if (!scriptProperty.exported) {
+          context.warnings.push(`${property} is not exported by ${script.path}; the editor will not keep it when it saves the scene`);
         }
+        newValue = this.checkPropertyValue(scriptProperty, value, script);
+      }
+      
+      const encoded = encodeVariant(await this.resolveResourceValues(newValue, context));
+      if (encoded.kind === 'number' && this.normalizePropertyType(scriptProperty?.type, script) === 'float' && Number.isInteger(encoded.value)) {
+        // Godot always writes floats with a decimal point
+        encoded.raw = `${encoded.value}.0`;
+      }
+      
+      // Godot writes built-in properties before the script and script variables after it
+      setBlockProperty(node.block, property, encoded, scriptProperty || property === 'script' ? undefined : 'script');
+      this.insertNewResources(scene, context);
+      const removedResources = previous ? this.removeUnusedResources(scene, [previous.value]) : [];
+      this.updateLoadSteps(scene);
+      
+      await this.saveEditableScene(scene);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          node: target,
+          property,
+          value: stringifyVariant(encoded),
+          previous: previous?.raw,
+          removedResources,
+          warnings: context.warnings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set node property',
+      };
+    }
+  }
+
+  async listConnections(scenePath: string, nodePath?: string): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      const node = nodePath ? this.resolveNodePath(scene, nodePath) : undefined;
+      
+      const connections = findBlocks(scene.resource, 'connection')
+        .map(block => this.parseConnectionSection(block.section!, {}))
+        .filter(connection => !node || connection.from === node || connection.to === node);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          connections,
+          totalCount: connections.length,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list connections',
+      };
+    }
+  }
+
+  async addConnection(
+    scenePath: string,
+    signal: string,
+    from: string,
+    to: string,
+    method?: string,
+    options: { flags?: number; binds?: any[]; unbinds?: number; createMethod?: boolean } = {}
+  ): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      const fromPath = this.resolveNodePath(scene, from);
+      const toPath = this.resolveNodePath(scene, to);
+      const uidIndex = await this.resourceManager.buildUidIndex();
+      const warnings: string[] = [];
+      
+      const source = await this.getNodeClass(scene, this.findNode(scene, fromPath)!, uidIndex);
+      const target = await this.getNodeClass(scene, this.findNode(scene, toPath)!, uidIndex);
+      
+      // The signal must exist on the source node's script or its engine class
+      const sourceSignal = this.findSignal(source, signal);
+      const signalParameters = sourceSignal?.parameters;
+      const parameterLanguage = sourceSignal?.language || 'gdscript';
+      
+      const sourceName = this.describeNodeClass(source);
+      if (!signalParameters) {
+        if (this.isKnownClass(source)) {
+          return {
+            success: false,
+            error: `Signal ${signal} not found on ${fromPath} (${sourceName})`,
+          };
+        }
+        warnings.push(`Could not verify that ${fromPath} (${sourceName || 'unknown type'}) has a signal ${signal}`);
+      }
+      
+      const rootName = String(toPlainValue(scene.nodes[0].block.section!.attributes.name));
+      const sourceNodeName = fromPath === '.' ? rootName : fromPath.split('/').pop()!;
+      const methodName = method || this.getDefaultCallbackName(sourceNodeName, signal, target.script?.language);
+      
+      const duplicate = findBlocks(scene.resource, 'connection')
+        .map(block => this.parseConnectionSection(block.section!, {}))
+        .some(c => c.signal === signal && c.from === fromPath && c.to === toPath && c.method === methodName);
+      if (duplicate) {
+        return {
+          success: false,
+          error: `${signal} of ${fromPath} is already connected to ${methodName} on ${toPath}`,
+        };
+      }
+      
+      // Arguments the method receives: the signal's, minus unbinds, plus binds
+      const binds = options.binds || [];
+      const unbinds = options.unbinds || 0;
+      const argumentCount = signalParameters ? Math.max(0, signalParameters.length - unbinds) + binds.length : undefined;
+      
+      let createdMethod: { path: string; line: number } | undefined;
+      const targetMethod = target.script?.methods?.find(m => m.name === methodName);
+      if (!target.script) {
+        if (options.createMethod) {
+          return {
+            success: false,
+            error: `Cannot create ${methodName}: ${toPath} has no script attached`,
+          };
+        }
+        warnings.push(`${toPath} has no script; ${methodName} must be a built-in method of ${target.type || 'the node'}`);
+      } else if (!targetMethod) {
+        if (!options.createMethod) {
+          return {
+            success: false,
+            error: `Method ${methodName} not found in ${target.script.path} (set createMethod to generate it)`,
+          };
+        }
+        const parameters = [
+          ...(signalParameters || []).slice(0, Math.max(0, (signalParameters || []).length - unbinds)),
+          ...binds.map((_, index) => ({ name: `extra_arg_${index}` })),
+        ];
+        createdMethod = await this.scriptManager.addMethodStub(target.script.path!, methodName, parameters, parameterLanguage);
+      } else if (argumentCount !== undefined) {
+        if (!this.acceptsArguments(targetMethod, argumentCount)) {
+          warnings.push(`${methodName} takes ${targetMethod.parameters.length} parameter(s) but ${signal} passes ${argumentCount}`);
+        }
+      }
+      
+      const connection: GodotConnection = { signal, from: fromPath, to: toPath, method: methodName };
+      if (options.flags !== undefined) connection.flags = options.flags;
+      if (unbinds > 0) connection.unbinds = unbinds;
+      if (binds.length > 0) connection.binds = binds;
+      
+      // Write: [connection signal="pressed" from="Button" to="." method="_on_button_pressed" flags=3 unbinds=1 binds=[2]]
+      const attributes: Record<string, VariantNode> = {};
+      for (const key of ['signal', 'from', 'to', 'method', 'flags', 'unbinds', 'binds'] as const) {
+        if (connection[key] !== undefined) attributes[key] = encodeVariant(connection[key]);
+      }
+      
+      // Connections follow the nodes, one per line, and precede [editable] entries
+      const { blocks } = scene.resource;
+      const lastConnection = findBlocks(scene.resource, 'connection').pop();
+      const block = createBlock(stringifySection('connection', attributes), lastConnection?.separator);
+      if (lastConnection) {
+        lastConnection.separator = '\n';
+        insertBlock(scene.resource, blocks.indexOf(lastConnection) + 1, block);
+      } else {
+        const firstEditable = findBlocks(scene.resource, 'editable')[0];
+        insertBlock(scene.resource, firstEditable ? blocks.indexOf(firstEditable) : blocks.length, block);
+      }
+      
+      await this.saveEditableScene(scene);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          connection,
+          createdMethod,
+          warnings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add connection',
+      };
+    }
+  }
+
+  async removeConnection(scenePath: string, signal: string, from: string, to: string, method?: string): Promise<McpToolResponse> {
+    try {
+      const scene = await this.loadEditableScene(scenePath);
+      // The nodes may already be gone, so the paths are only normalized
+      const fromPath = this.normalizeNodePath(scene, from);
+      const toPath = this.normalizeNodePath(scene, to);
+      
+      const removed = findBlocks(scene.resource, 'connection').filter(block => {
+        const connection = this.parseConnectionSection(block.section!, {});
+        return connection.signal === signal && connection.from === fromPath && connection.to === toPath
+          && (!method || connection.method === method);
+      });
+      
+      if (removed.length === 0) {
+        return {
+          success: false,
+          error: `No connection found: ${signal} from ${fromPath} to ${toPath}${method ? `.${method}` : ''}`,
+        };
+      }
+      
+      for (const block of removed) {
+        removeBlock(scene.resource, block);
+      }
+      const removedResources = this.removeUnusedResources(scene, removed.flatMap(block => this.getSectionValues(block.section!)));
+      this.updateLoadSteps(scene);
+      
+      await this.saveEditableScene(scene);
+      
+      return {
+        success: true,
+        data: {
+          path: scene.relativePath,
+          removed: removed.map(block => this.parseConnectionSection(block.section!, {})),
+          removedResources,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove connection',
+      };
+    }
+  }
+
+  async validateNodePaths(scenePath?: string): Promise<McpToolResponse> {
+    try {
+      const scenePaths = scenePath ? [scenePath.replace(/^res:\/\//, '')] : await this.findScenePaths();
+      
+      const uidIndex = await this.resourceManager.buildUidIndex();
+      const references = await this.scriptManager.findNodeReferences();
+      const trees = new Map<string, SceneTreePaths | null>();
+      const issues: Record<string, any>[] = [];
+      const skipped: Record<string, any>[] = [];
+      const unparseable: Record<string, any>[] = [];
+      let checkedReferences = 0;
+      
+      for (const relativePath of scenePaths) {
+        let scene: EditableScene;
+        try {
+          scene = await this.loadEditableScene(relativePath);
+        } catch (error) {
+          // A scene that was asked for by name is an error; one broken scene in a project-wide check shouldn't hide the rest
+          if (scenePath) throw error;
+          unparseable.push({ scene: relativePath, error: error instanceof Error ? error.message : String(error) });
+          continue;
+        }
+        const tree = (await this.getSceneTreePaths(relativePath, uidIndex, trees, []))!;
+        
+        for (const node of scene.nodes) {
+          const scriptPath = this.getExtResourcePath(scene, node.block.section!.properties.find(p => p.key === 'script')?.value, uidIndex);
+          if (!scriptPath) continue;
+          
+          for (const reference of references.get(scriptPath.replace(/^res:\/\//, '')) || []) {
+            checkedReferences++;
+            const result = this.checkNodeReference(reference.path, node.path, tree);
+            if (result.status === 'found') continue;
+            (result.status === 'missing' ? issues : skipped).push({ scene: relativePath, node: node.path, ...reference, reason: result.reason });
+          }
+        }
+      }
+      
+      return {
+        success: true,
+        data: {
+          scenes: scenePaths,
+          checkedReferences,
+          issues,
+          count: issues.length,
+          skipped,
+          unparseable,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to validate node paths',
+      };
+    }
+  }
+
+  /**
+   * Checks the [connection] entries of every scene: both endpoints must exist, the signal must be
+   * declared by the source node's script or engine class, and the target method must exist in the
+   * target node's script and accept the arguments the signal passes. Checks that depend on a class
+   * missing from the engine table, or on a script with a custom base, are skipped.
+   */
+  async checkConnections(): Promise<GodotConnectionIssue[]> {
+    const uidIndex = await this.resourceManager.buildUidIndex();
+    const trees = new Map<string, SceneTreePaths | null>();
+    const issues: GodotConnectionIssue[] = [];
+    
+    for (const relativePath of await this.findScenePaths()) {
+      const tree = await this.getSceneTreePaths(relativePath, uidIndex, trees, []);
+      if (!tree) continue;
+      const scene = await this.loadEditableScene(relativePath);
+      const classes = new Map<string, NodeClass>();
+      
+      const getClass = async (nodePath: string): Promise<NodeClass | undefined> => {
+        // Nodes inside instanced scenes have no section in this file
+        const node = this.findNode(scene, nodePath);
+        if (!node) return undefined;
+        if (!classes.has(nodePath)) classes.set(nodePath, await this.getNodeClass(scene, node, uidIndex));
+        return classes.get(nodePath);
+      };
+      
+      for (const block of findBlocks(scene.resource, 'connection')) {
+        const section = block.section!;
+        const connection = this.parseConnectionSection(section, {});
+        const report = (message: string) => issues.push({ scene: relativePath, line: section.line, connection, message });
+        
+        let endpointsExist = true;
+        for (const [role, nodePath] of [['source', connection.from], ['target', connection.to]]) {
+          const result = this.checkNodeReference(nodePath, '.', tree);
+          if (result.status === 'missing') {
+            report(`Connection ${role}: ${result.reason}`);
+            endpointsExist = false;
+          }
+        }
+        if (!endpointsExist) continue;
+        
+        const source = await getClass(this.connectionPath(section.attributes.from) || '');
+        const target = await getClass(this.connectionPath(section.attributes.to) || '');
+        
+        const sourceSignal = source ? this.findSignal(source, connection.signal) : undefined;
+        if (source && !sourceSignal && this.isKnownClass(source)) {
+          report(`Signal ${connection.signal} is not declared on ${connection.from} (${this.describeNodeClass(source)})`);
+          continue;
+        }
+        
+        if (!target) continue;
+        if (!target.script) {
+          // Only the built-in methods of the target's class can receive the signal
+          if (target.type && isEngineClass(target.type) && !hasEngineMethod(target.type, connection.method)) {
+            report(`Method ${connection.method} not found: ${connection.to} (${target.type}) has no script`);
+          }
+          continue;
+        }
+        const targetMethod = target.script.methods?.find(m => m.name === connection.method);
+        if (!targetMethod) {
+          // Methods of a custom base script are not part of the script info
+          if (!target.script.extends || isEngineClass(target.scriptBase)) {
+            report(`Method ${connection.method} not found in ${target.script.path}`);
+          }
+          continue;
+        }
+        
+        if (sourceSignal) {
+          const argumentCount = Math.max(0, sourceSignal.parameters.length - (connection.unbinds || 0)) + (connection.binds || []).length;
+          if (!this.acceptsArguments(targetMethod, argumentCount)) {
+            report(`${connection.method} takes ${targetMethod.parameters.length} parameter(s) but ${connection.signal} passes ${argumentCount}`);
+          }
+        }
+      }
+    }
+    
+    return issues;
+  }
+
+  private async parseSceneFile(filePath: string, uidIndex?: GodotUidIndex): Promise<Partial<GodotScene>> {
+    try {
+      const content = await this.fileWriter.readFile(filePath);
+      const document = parseResource(content);
+      
+      const scene: Partial<GodotScene> = {
+        rootNode: '',
+        extResources: [],
+        subResources: [],
+        connections: [],
+        instancedScenes: [],
+        groups: {},
+        editableInstances: [],
+      };
+      const nodes: GodotNode[] = [];
+      
+      for (const section of document.sections) {
+        switch (section.tag) {
+          case 'gd_scene':
+          case 'gd_resource':
+            this.parseHeaderSection(section, scene);
+            break;
+          case 'ext_resource':
+            scene.extResources!.push(this.parseExtResourceSection(section, uidIndex));
+            break;
+          case 'sub_resource':
+            scene.subResources!.push(this.parseSubResourceSection(section, scene));
+            break;
+          case 'node': {
+            const node = this.parseNodeSection(section, scene);
+            if (!node.name) break;
+            if (!scene.rootNode) {
+              scene.rootNode = node.name;
+            }
+            nodes.push(node as GodotNode);
+            break;
+          }
+          case 'connection':
+            scene.connections!.push(this.parseConnectionSection(section, scene));
+            break;
+          case 'editable':
+            if (section.attributes.path) {
+              scene.editableInstances!.push(toPlainValue(section.attributes.path));
+            }
+            break;
+        }
+      }
+      
+      // Collect instanced scenes and group membership
+      for (const node of nodes) {
+        const nodePath = this.getRelativeNodePath(node);
+        if (node.instance) {
+          scene.instancedScenes!.push({ node: nodePath, scene: node.instance });
+        }
+        for (const group of node.groups || []) {
+          (scene.groups![group] ||= []).push(nodePath);
+        }
+      }
+      
+      await this.linkScripts(nodes);
+      
+      // Build node hierarchy
+      scene.nodes = this.buildNodeHierarchy(nodes, scene.rootNode!);
+      
+      return scene;
+    } catch (error) {
+      throw new Error(`Failed to parse scene file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private parseHeaderSection(section: ResourceSection, scene: Partial<GodotScene>): void {
+    // Parse: [gd_scene load_steps=4 format=3 uid="uid://..."]
+    const { format, uid, load_steps } = section.attributes;
+    if (format) scene.format = toPlainValue(format);
+    if (uid) scene.uid = toPlainValue(uid);
+    if (load_steps) scene.loadSteps = toPlainValue(load_steps);
+  }
+
+  private parseExtResourceSection(section: ResourceSection, uidIndex?: GodotUidIndex): GodotExtResource {
+    // Parse: [ext_resource type="Script" uid="uid://..." path="res://player.gd" id="1_abc"]
+    const { id, type, path: resourcePath, uid } = section.attributes;
+    const resource: GodotExtResource = {
+      id: id ? String(toPlainValue(id)) : '',
+      type: type ? toPlainValue(type) : '',
+      path: resourcePath ? toPlainValue(resourcePath) : '',
+    };
+    if (uid) {
+      resource.uid = toPlainValue(uid);
+    }
+    
+    // Godot loads by UID when it is known and only falls back to the text path otherwise
+    resource.resolvedPath = resource.path;
+    if (resource.uid && uidIndex) {
+      const indexedPath = this.resourceManager.resolveUid(uidIndex, resource.uid);
+      if (!indexedPath) {
+        resource.uidStatus = 'unknown';
+      } else {
+        resource.resolvedPath = indexedPath;
+        resource.uidStatus = !resource.path || indexedPath === resource.path ? 'resolved' : 'mismatch';
+      }
+    }
+    return resource;
+  }
+
+  private parseSubResourceSection(section: ResourceSection, context: VariantDecodeContext): GodotSubResource {
+    // Parse: [sub_resource type="RectangleShape2D" id="RectangleShape2D_x"]
+    const { id, type } = section.attributes;
+    return {
+      id: id ? String(toPlainValue(id)) : '',
+      type: type ? toPlainValue(type) : '',
+      properties: this.collectProperties(section, context),
+    };
+  }
+
+  private parseNodeSection(section: ResourceSection, context: VariantDecodeContext): Partial<GodotNode> {
+    // Parse: [node name="NodeName" type="NodeType" parent="ParentPath" instance=ExtResource("2") groups=["a"]]
+    const { name, type, parent, instance, groups } = section.attributes;
+    const node: Partial<GodotNode> = {
+      properties: this.collectProperties(section, context),
+      children: [],
+    };
+    
+    if (name) node.name = toPlainValue(name);
+    if (type) node.type = toPlainValue(type);
+    if (parent) node.parent = toPlainValue(parent);
+    
+    if (instance) {
+      const instanceId = getResourceReferenceId(instance, 'ExtResource');
+      const resource = context.extResources?.find(r => r.id === instanceId);
+      node.instance = resource ? resource.resolvedPath || resource.path : stringifyVariant(instance);
+    }
+    
+    if (groups && groups.kind === 'array') {
+      node.groups = groups.items.map(item => String(toPlainValue(item)));
+    }
+    
+    const script = node.properties!.script;
+    if (script && script.type === 'ExtResource' && script.resolvedPath) {
+      node.script = script.resolvedPath;
+    }
+    
+    return node;
+  }
+
+  private async linkScripts(nodes: Partial<GodotNode>[]): Promise<void> {
+    // Resolve attached scripts (GDScript or C#) to the class they declare
+    const classes = new Map<string, string | undefined>();
+    
+    for (const node of nodes) {
+      if (!node.script) continue;
+      
+      if (!classes.has(node.script)) {
+        const info = await this.scriptManager.getScriptInfo(node.script).catch(() => null);
+        classes.set(node.script, info?.className);
+      }
+      
+      const className = classes.get(node.script);
+      if (className) {
+        node.scriptClass = className;
+      }
+    }
+  }
+
+  private parseConnectionSection(section: ResourceSection, context: VariantDecodeContext): GodotConnection {
+    // Parse: [connection signal="pressed" from="Button" to="." method="_on_pressed" flags=3 binds=[1]]
+    const { signal, from, to, method, flags, binds, unbinds } = section.attributes;
+    const connection: GodotConnection = {
+      signal: signal ? toPlainValue(signal) : '',
+      from: from ? toPlainValue(from) : '',
+      to: to ? toPlainValue(to) : '',
+      method: method ? toPlainValue(method) : '',
+    };
+    if (flags) connection.flags = toPlainValue(flags);
+    if (binds) connection.binds = decodeVariant(binds, context);
+    if (unbinds) connection.unbinds = toPlainValue(unbinds);
+    return connection;
+  }
+
+  private collectProperties(section: ResourceSection, context: VariantDecodeContext): Record<string, any> {
+    const properties: Record<string, any> = {};
+    for (const property of section.properties) {
+      properties[property.key] = decodeVariant(property.value, context);
+    }
+    return properties;
+  }
+
+  private getRelativeNodePath(node: Partial<GodotNode>): string {
+    // Scene files store parent paths relative to the root node; the root itself has no parent
+    if (node.parent === undefined) return '.';
+    const parent = node.parent.replace(/^\.\//, '');
+    if (parent === '.' || parent === '') return node.name!;
+    return `${parent}/${node.name}`;
+  }
+
+  private toAbsoluteNodePath(relativePath: string, rootNode: string): string {
+    return relativePath === '.' ? `/root/${rootNode}` : `/root/${rootNode}/${relativePath}`;
+  }
+
+  private validateNodeSpec(spec: GodotNodeSpec): void {
+    if (!spec.name || INVALID_NODE_NAME.test(spec.name)) {
+      throw new Error(`Invalid node name: "${spec.name ?? ''}" (names cannot be empty or contain . : @ / " %)`);
+    }
+    if (!spec.type && !spec.instance) {
+      throw new Error(`Node ${spec.name} needs a type or an instance`);
+    }
+    
+    const names = new Set<string>();
+    for (const child of spec.children || []) {
+      if (names.has(child.name)) {
+        throw new Error(`Duplicate node name under ${spec.name}: ${child.name}`);
+      }
+      names.add(child.name);
+      this.validateNodeSpec(child);
+    }
+  }
+
+  private async serializeNodeSpec(
+    spec: GodotNodeSpec,
+    parentPath: string | undefined,
+    context: SceneWriteContext,
+    sections: string[]
+  ): Promise<void> {
+    // Write: [node name="NodeName" type="NodeType" parent="ParentPath" instance=ExtResource("2") groups=["a"]]
+    const attributes: Record<string, VariantNode> = { name: encodeVariant(spec.name) };
+    if (spec.type && !spec.instance) attributes.type = encodeVariant(spec.type);
+    if (parentPath !== undefined) attributes.parent = encodeVariant(parentPath);
+    if (spec.instance) {
+      const id = await this.addExtResource(spec.instance, 'PackedScene', context);
+      attributes.instance = encodeVariant({ type: 'ExtResource', id });
+    }
+    if (spec.groups && spec.groups.length > 0) {
+      attributes.groups = encodeVariant(spec.groups);
+    }
+    
+    const properties: { key: string; value: VariantNode }[] = [];
+    for (const [key, value] of Object.entries(spec.properties || {})) {
+      if (key === 'script' && spec.script) continue;
+      properties.push({ key, value: encodeVariant(await this.resolveResourceValues(value, context)) });
+    }
+    // Godot writes the script after the other properties
+    if (spec.script) {
+      const id = await this.addExtResource(spec.script, 'Script', context);
+      properties.push({ key: 'script', value: encodeVariant({ type: 'ExtResource', id }) });
+    }
+    
+    sections.push(stringifySection('node', attributes, properties));
+    
+    const childParent = parentPath === undefined ? '.' : parentPath === '.' ? spec.name : `${parentPath}/${spec.name}`;
+    for (const child of spec.children || []) {
+      await this.serializeNodeSpec(child, childParent, context, sections);
+    }
+  }
+
+  private async resolveResourceValues(value: any, context: SceneWriteContext): Promise<any> {
+    // Turn resource references given by path into ExtResource/SubResource ids
+    if (Array.isArray(value)) {
+      const items = [];
+      for (const item of value) {
+        items.push(await this.resolveResourceValues(item, context));
+      }
+      return items;
+    }
+    
+    if (!value || typeof value !== 'object' || typeof value.raw === 'string') {
+      return value;
+    }
+    
+    if ((value.type === 'ExtResource' && value.id === undefined) || value.type === 'Resource') {
+      const resourcePath = value.resolvedPath || value.path;
+      if (!resourcePath) {
+        throw new Error(`${value.type} value needs a path`);
+      }
+      return { type: 'ExtResource', id: await this.addExtResource(resourcePath, value.resourceType, context) };
+    }
+    
+    if (value.type === 'SubResource' && value.id === undefined) {
+      if (!value.resourceType) {
+        throw new Error('SubResource value needs a resourceType');
+      }
+      const properties = [];
+      for (const [key, property] of Object.entries(value.properties || {})) {
+        properties.push({ key, value: encodeVariant(await this.resolveResourceValues(property, context)) });
+      }
+      const id = `${value.resourceType}_${this.generateSceneUniqueId()}`;
+      context.subResources.push({ id, type: value.resourceType, properties });
+      return { type: 'SubResource', id };
+    }
+    
+    const resolved: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      resolved[key] = await this.resolveResourceValues(entry, context);
+    }
+    return resolved;
+  }
+
+  private async addExtResource(resourcePath: string, type: string | undefined, context: SceneWriteContext): Promise<string> {
+    const resPath = resourcePath.startsWith('res://') ? resourcePath : `res://${resourcePath.replace(/^\/+/, '')}`;
+    const existing = context.extResources.find(r => r.path === resPath);
+    if (existing) return existing.id;
+    
+    if (!await this.fileWriter.pathExists(path.join(this.projectPath, resPath.slice('res://'.length)))) {
+      context.warnings.push(`Resource not found: ${resPath}`);
+    }
+    
+    // Godot 4 ext_resource ids are "<index>_<5 random characters>"
+    const resource: GodotExtResource = {
+      id: `${context.extResources.length + 1}_${this.generateSceneUniqueId()}`,
+      type: type || RESOURCE_TYPES[path.extname(resPath).toLowerCase()] || 'Resource',
+      path: resPath,
+    };
+    const uid = this.resourceManager.findUidForPath(context.uidIndex, resPath);
+    if (uid) {
+      resource.uid = uid;
+    }
+    context.extResources.push(resource);
+    return resource.id;
+  }
+
+  private serializeScene(uid: string, context: SceneWriteContext, nodeSections: string[]): string {
+    // Like Godot, load_steps is only written when the scene has resources to load
+    const loadSteps = context.extResources.length + context.subResources.length + 1;
+    const header: Record<string, VariantNode> = {};
+    if (loadSteps > 1) header.load_steps = encodeVariant(loadSteps);
+    header.format = encodeVariant(3);
+    header.uid = encodeVariant(uid);
+    
+    const parts = [stringifySection('gd_scene', header)];
+    
+    if (context.extResources.length > 0) {
+      parts.push(context.extResources.map(resource => {
+        const attributes: Record<string, VariantNode> = { type: encodeVariant(resource.type) };
+        if (resource.uid) attributes.uid = encodeVariant(resource.uid);
+        attributes.path = encodeVariant(resource.path);
+        attributes.id = encodeVariant(resource.id);
+        return stringifySection('ext_resource', attributes);
+      }).join(''));
+    }
+    
+    for (const resource of context.subResources) {
+      parts.push(stringifySection('sub_resource', {
+        type: encodeVariant(resource.type),
+        id: encodeVariant(resource.id),
+      }, resource.properties));
+    }
+    
+    parts.push(...nodeSections);
+    return parts.join('\n');
+  }
+
+  private generateSceneUniqueId(): string {
+    const characters = 'abcdefghijklmnopqrstuvwxyz0123456789';
+    let id = '';
+    for (let i = 0; i < 5; i++) {
+      id += characters[crypto.randomInt(characters.length)];
+    }
+    return id;
+  }
+
+  private async loadEditableScene(scenePath: string): Promise<EditableScene> {
+    const relativePath = scenePath.replace(/^res:\/\//, '');
+    const fullPath = path.join(this.projectPath, relativePath);
+    
+    if (!await this.fileWriter.pathExists(fullPath)) {
+      throw new Error(`Scene file not found: ${relativePath}`);
+    }
+    
+    const resource = editResource(await this.fileWriter.readFile(fullPath));
+    const nodes = findBlocks(resource, 'node').map(block => {
+      const { name, parent } = block.section!.attributes;
+      return {
+        block,
+        path: this.getRelativeNodePath({
+          name: name ? String(toPlainValue(name)) : '',
+          parent: parent ? String(toPlainValue(parent)) : undefined,
+        }),
+      };
+    });
+    
+    if (nodes.length === 0) {
+      throw new Error(`Scene has no nodes: ${relativePath}`);
+    }
+    
+    return { relativePath, fullPath, resource, nodes };
+  }
+
+  private async findScenePaths(): Promise<string[]> {
+    const files = await glob('**/*.tscn', { cwd: this.projectPath, ignore: ['**/node_modules/**', '**/dist/**', '**/.godot/**'] });
+    return files.map(file => file.split(path.sep).join('/')).sort();
+  }
+
+  private async saveEditableScene(scene: EditableScene): Promise<void> {
+    await this.fileWriter.writeFile(scene.fullPath, renderResource(scene.resource));
+  }
+
+  private resolveNodePath(scene: EditableScene, nodePath: string): string {
+    const relative = this.normalizeNodePath(scene, nodePath);
+    if (!this.findNode(scene, relative)) {
+      throw new Error(`Node not found: ${nodePath}`);
+    }
+    return relative;
+  }
+
+  private normalizeNodePath(scene: EditableScene, nodePath: string): string {
+    // Accepts scene-relative paths ("UI/HUD", ".") and the absolute form analyze_scene reports ("/root/Main/UI/HUD")
+    const rootName = toPlainValue(scene.nodes[0].block.section!.attributes.name);
+    let relative = nodePath.trim();
+    
+    if (relative.startsWith('/root/')) {
+      const segments = relative.slice('/root/'.length).split('/');
+      if (segments[0] !== rootName) {
+        throw new Error(`Node path ${nodePath} is not in this scene (root is ${rootName})`);
+      }
+      relative = segments.slice(1).join('/');
+    }
+    relative = relative.replace(/^\.\//, '').replace(/\/+$/, '');
+    if (relative === '' || relative === '.') relative = '.';
+    return relative;
+  }
+
+  private findNode(scene: EditableScene, nodePath: string): EditableScene['nodes'][number] | undefined {
+    return scene.nodes.find(node => node.path === nodePath);
+  }
+
+  private joinNodePath(parent: string, name: string): string {
+    return parent === '.' ? name : `${parent}/${name}`;
+  }
+
+  private isInSubtree(nodePath: string | undefined, root: string): boolean {
+    if (nodePath === undefined) return false;
+    return root === '.' || nodePath === root || nodePath.startsWith(`${root}/`);
+  }
+
+  private getSubtree(scene: EditableScene, root: string): EditableScene['nodes'] {
+    return scene.nodes.filter(node => this.isInSubtree(node.path, root));
+  }
+
+  private getSubtreeEnd(scene: EditableScene, root: string): number {
+    const subtree = this.getSubtree(scene, root);
+    const last = subtree[subtree.length - 1];
+    return scene.resource.blocks.indexOf(last.block) + 1;
+  }
+
+  private connectionPath(value: VariantNode | undefined): string | undefined {
+    // Connection endpoints are relative to the scene root
+    if (!value) return undefined;
+    return this.resolveRelativeNodePath(String(toPlainValue(value)), '.');
+  }
+
+  private resolveRelativeNodePath(nodePath: string, from: string): string | undefined {
+    // Absolute paths and unique names (%Name) don't depend on the node's position
+    if (nodePath === '' || nodePath.startsWith('/') || nodePath.startsWith('%')) return undefined;
+    
+    const segments = from === '.' ? [] : from.split('/');
+    for (const segment of nodePath.split('/')) {
+      if (segment === '.' || segment === '') continue;
+      if (segment === '..') {
+        if (segments.length === 0) return undefined;
+        segments.pop();
+      } else {
+        segments.push(segment);
+      }
+    }
+    return segments.length === 0 ? '.' : segments.join('/');
+  }
+
+  private toRelativeNodePath(from: string, to: string): string {
+    const fromSegments = from === '.' ? [] : from.split('/');
+    const toSegments = to === '.' ? [] : to.split('/');
+    let common = 0;
+    while (common < fromSegments.length && common < toSegments.length && fromSegments[common] === toSegments[common]) {
+      common++;
+    }
+    const segments = [...Array(fromSegments.length - common).fill('..'), ...toSegments.slice(common)];
+    return segments.length === 0 ? '.' : segments.join('/');
+  }
+
+  private mapNodePath(nodePath: string, moves: Map<string, string>): string {
+    for (const [from, to] of moves) {
+      if (nodePath === from) return to;
+      if (nodePath.startsWith(`${from}/`)) return to + nodePath.slice(from.length);
+    }
+    return nodePath;
+  }
+
+  private applyNodeMoves(scene: EditableScene, moves: Map<string, string>): { updatedNodes: number; updatedConnections: number; updatedNodePaths: number } {
+    let updatedNodes = 0;
+    let updatedConnections = 0;
+    let updatedNodePaths = 0;
+    
+    // NodePath properties are relative to their owner, so every node is checked, moved or not
+    for (const node of scene.nodes) {
+      const ownerPath = this.mapNodePath(node.path, moves);
+      updatedNodePaths += this.rewriteNodePathProperties(node, scene, resolved => this.mapNodePath(resolved, moves), ownerPath);
+    }
+    
+    for (const node of scene.nodes) {
+      const newPath = this.mapNodePath(node.path, moves);
+      if (newPath === node.path) continue;
+      
+      const segments = newPath.split('/');
+      const attributes = { ...node.block.section!.attributes };
+      attributes.name = encodeVariant(segments.pop()!);
+      attributes.parent = encodeVariant(segments.length === 0 ? '.' : segments.join('/'));
+      setBlockAttributes(node.block, attributes);
+      node.path = newPath;
+      updatedNodes++;
+    }
+    
+    for (const block of findBlocks(scene.resource, 'connection')) {
+      const attributes = { ...block.section!.attributes };
+      let changed = false;
+      for (const key of ['from', 'to']) {
+        const endpoint = this.connectionPath(attributes[key]);
+        if (endpoint === undefined) continue;
+        const mapped = this.mapNodePath(endpoint, moves);
+        if (mapped !== endpoint) {
+          attributes[key] = encodeVariant(mapped);
+          changed = true;
+        }
+      }
+      if (changed) {
+        setBlockAttributes(block, attributes);
+        updatedConnections++;
+      }
+    }
+    
+    for (const block of findBlocks(scene.resource, 'editable')) {
+      const editablePath = block.section!.attributes.path;
+      if (!editablePath) continue;
+      const current = String(toPlainValue(editablePath));
+      const mapped = this.mapNodePath(current, moves);
+      if (mapped !== current) {
+        setBlockAttributes(block, { ...block.section!.attributes, path: encodeVariant(mapped) });
+      }
+    }
+    
+    return { updatedNodes, updatedConnections, updatedNodePaths };
+  }
+
+  private rewriteNodePathProperties(
+    node: EditableScene['nodes'][number],
+    scene: EditableScene,
+    mapTarget: (resolved: string) => string,
+    ownerPath: string = node.path
+  ): number {
+    let changed = 0;
+    
+    for (const property of node.block.section!.properties) {
+      const rewritten = this.rewriteNodePaths(property.value, (value) => {
+        // Subnames (Sprite:modulate) stay as they are
+        const [nodePart, ...subnames] = value.split(':');
+        const resolved = this.resolveRelativeNodePath(nodePart, node.path);
+        if (resolved === undefined) return value;
+        
+        const target = mapTarget(resolved);
+        const relative = this.toRelativeNodePath(ownerPath, target);
+        if (relative === this.toRelativeNodePath(node.path, resolved)) return value;
+        
+        return [relative, ...subnames].join(':');
+      });
+      
+      if (rewritten) {
+        setBlockProperty(node.block, property.key, rewritten);
+        changed++;
+      }
+    }
+    
+    return changed;
+  }
+
+  private rewriteNodePaths(value: VariantNode, rewrite: (nodePath: string) => string): VariantNode | undefined {
+    // Returns a new value if any NodePath inside it changed
+    switch (value.kind) {
+      case 'nodePath': {
+        const rewritten = rewrite(value.value);
+        return rewritten !== value.value ? { kind: 'nodePath', value: rewritten } : undefined;
+      }
+      case 'call': {
+        if (value.name === 'NodePath' && value.args[0]?.kind === 'string') {
+          const rewritten = rewrite(value.args[0].value);
+          return rewritten !== value.args[0].value
+            ? { kind: 'call', name: 'NodePath', args: [{ kind: 'string', value: rewritten }] }
+            : undefined;
+        }
+        const args = value.args.map(arg => this.rewriteNodePaths(arg, rewrite));
+        return args.some(Boolean) ? { ...value, args: args.map((arg, i) => arg || value.args[i]) } : undefined;
+      }
+      case 'array': {
+        const items = value.items.map(item => this.rewriteNodePaths(item, rewrite));
+        return items.some(Boolean) ? { ...value, items: items.map((item, i) => item || value.items[i]) } : undefined;
+      }
+      case 'dictionary': {
+        const entries = value.entries.map(entry => this.rewriteNodePaths(entry.value, rewrite));
+        return entries.some(Boolean)
+          ? { ...value, entries: value.entries.map((entry, i) => ({ key: entry.key, value: entries[i] || entry.value })) }
+          : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private async getNodeScript(
+    scene: EditableScene,
+    section: ResourceSection,
+    uidIndex: GodotUidIndex
+  ): Promise<Partial<GodotScript> | null> {
+    const scriptPath = this.getExtResourcePath(scene, section.properties.find(p => p.key === 'script')?.value, uidIndex);
+    return scriptPath ? this.scriptManager.getScriptInfo(scriptPath) : null;
+  }
+
+  private getExtResourcePath(scene: EditableScene, value: VariantNode | undefined, uidIndex: GodotUidIndex): string | undefined {
+    // The res:// path behind an ExtResource("id") value, resolved by UID first
+    const id = getResourceReferenceId(value, 'ExtResource');
+    if (id === undefined) return undefined;
+    
+    const block = findBlocks(scene.resource, 'ext_resource').find(b => String(toPlainValue(b.section!.attributes.id)) === id);
+    if (!block) return undefined;
+    
+    const resource = this.parseExtResourceSection(block.section!, uidIndex);
+    return resource.resolvedPath || resource.path;
+  }
+
+  private async getSceneTreePaths(
+    scenePath: string,
+    uidIndex: GodotUidIndex,
+    cache: Map<string, SceneTreePaths | null>,
+    stack: string[]
+  ): Promise<SceneTreePaths | null> {
+    const relativePath = scenePath.replace(/^res:\/\//, '');
+    if (cache.has(relativePath)) return cache.get(relativePath)!;
+    if (stack.includes(relativePath)) return null;
+    
+    let scene: EditableScene;
+    try {
+      scene = await this.loadEditableScene(relativePath);
+    } catch {
+      cache.set(relativePath, null);
+      return null;
+    }
+    
+    const tree: SceneTreePaths = { paths: new Set(), unique: new Map(), opaque: [] };
+    for (const node of scene.nodes) {
+      const section = node.block.section!;
+      tree.paths.add(node.path);
+      
+      // Unique names are scoped to the scene that owns the node, so those of instanced scenes are not visible here
+      const unique = section.properties.find(p => p.key === 'unique_name_in_owner');
+      if (unique && toPlainValue(unique.value) === true) {
+        tree.unique.set(node.path.split('/').pop()!, node.path);
+      }
+      
+      const instancePath = this.getExtResourcePath(scene, section.attributes.instance, uidIndex);
+      if (!instancePath) continue;
+      const instanced = await this.getSceneTreePaths(instancePath, uidIndex, cache, [...stack, relativePath]);
+      if (!instanced) {
+        tree.opaque.push(node.path);
+        continue;
+      }
+      for (const childPath of instanced.paths) {
+        if (childPath !== '.') tree.paths.add(this.joinNodePath(node.path, childPath));
+      }
+      tree.opaque.push(...instanced.opaque.filter(opaque => opaque !== '.').map(opaque => this.joinNodePath(node.path, opaque)));
+    }
+    
+    cache.set(relativePath, tree);
+    return tree;
+  }
+
+  private checkNodeReference(
+    reference: string,
+    from: string,
+    tree: SceneTreePaths
+  ): { status: 'found' | 'missing' | 'unknown'; reason?: string } {
+    // Subnames (Sprite:modulate) name a property, not a node
+    const nodePath = reference.split(':')[0];
+    if (nodePath === '' || nodePath === '.') return { status: 'found' };
+    if (nodePath.startsWith('/')) {
+      return { status: 'unknown', reason: 'Absolute paths depend on the scene tree at runtime' };
+    }
+    
+    let base = from;
+    let rest = nodePath;
+    if (nodePath.startsWith('%')) {
+      const [name, ...segments] = nodePath.slice(1).split('/');
+      const unique = tree.unique.get(name);
+      if (!unique) {
+        return { status: 'missing', reason: `No node in the scene has the unique name %${name}` };
+      }
+      base = unique;
+      rest = segments.join('/') || '.';
+    }
+    
+    const resolved = this.resolveRelativeNodePath(rest, base);
+    if (resolved === undefined) {
+      return { status: 'unknown', reason: 'The path leaves the scene, so it depends on where the scene is instanced' };
+    }
+    if (tree.paths.has(resolved)) return { status: 'found' };
+    
+    const opaque = tree.opaque.find(instance => this.isInSubtree(resolved, instance));
+    if (opaque) {
+      return { status: 'unknown', reason: `${opaque} instances a scene that could not be loaded` };
+    }
+    
+    const segments = resolved.split('/');
+    let nearest = '.';
+    for (let i = segments.length - 1; i > 0; i--) {
+      const ancestor = segments.slice(0, i).join('/');
+      if (tree.paths.has(ancestor)) {
+        nearest = ancestor;
+        break;
+      }
+    }
+    return { status: 'missing', reason: `Node ${resolved} does not exist in the scene (nearest existing node: ${nearest})` };
+  }
+
+  private async getNodeClass(
+    scene: EditableScene,
+    node: EditableScene['nodes'][number],
+    uidIndex: GodotUidIndex
+  ): Promise<NodeClass> {
+    const section = node.block.section!;
+    let type = section.attributes.type ? String(toPlainValue(section.attributes.type)) : undefined;
+    let script = await this.getNodeScript(scene, section, uidIndex);
+    
+    // Instanced scenes take their type, and unless overridden their script, from the instanced root
+    const instanceId = getResourceReferenceId(section.attributes.instance, 'ExtResource');
+    const instance = instanceId !== undefined
+      ? findBlocks(scene.resource, 'ext_resource').find(b => String(toPlainValue(b.section!.attributes.id)) === instanceId)
+      : undefined;
+    if (instance && !type) {
+      const resource = this.parseExtResourceSection(instance.section!, uidIndex);
+      try {
+        const instanced = await this.loadEditableScene(resource.resolvedPath || resource.path);
+        const root = await this.getNodeClass(instanced, instanced.nodes[0], uidIndex);
+        type = root.type;
+        script = script || root.script;
+      } catch {
+        // A missing instanced scene leaves the type unknown
+      }
+    }
+    
+    const scriptBase = script?.extends?.replace(/^Godot\./, '');
+    return { type, script, scriptBase };
+  }
+
+  private findSignal(node: NodeClass, signal: string): { parameters: GodotParameter[]; language: GodotScript['language'] } | undefined {
+    const scriptSignal = node.script?.signals?.find(s => s.name === signal);
+    if (scriptSignal) {
+      return { parameters: scriptSignal.parameters, language: node.script!.language || 'gdscript' };
+    }
+    
+    for (const className of [node.type, node.scriptBase]) {
+      const engineSignal = className ? getEngineSignal(className, signal) : undefined;
+      if (engineSignal) {
+        const parameters = engineSignal.map(parameter => {
+          const [name, type] = parameter.split(':').map(part => part.trim());
+          return { name, type };
+        });
+        return { parameters, language: 'gdscript' };
+      }
+    }
+    return undefined;
+  }
+
+  private isKnownClass(node: NodeClass): boolean {
+    // Only engine classes in the table and scripts without a custom base are known completely
+    return isEngineClass(node.type || node.scriptBase) && (!node.script || !node.script.extends || isEngineClass(node.scriptBase));
+  }
+
+  private describeNodeClass(node: NodeClass): string {
+    return [node.type, node.script?.path].filter(Boolean).join(', ');
+  }
+
+  private acceptsArguments(method: GodotMethod, argumentCount: number): boolean {
+    const required = method.parameters.filter(p => p.defaultValue === undefined).length;
+    return argumentCount >= required && argumentCount <= method.parameters.length;
+  }
+
+  private getDefaultCallbackName(nodeName: string, signal: string, language?: GodotScript['language']): string {
+    // The editor's default: _on_<node_name>_<signal_name>, PascalCase for C#
+    const toSnakeCase = (text: string) => text
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+      .replace(/[^A-Za-z0-9_]+/g, '_')
+      .toLowerCase();
+    const name = `_on_${toSnakeCase(nodeName)}_${toSnakeCase(signal)}`;
+    if (language !== 'csharp') return name;
+    return name.split('_').filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+  }
+
+  private checkPropertyValue(property: GodotProperty, value: any, script: Partial<GodotScript>): any {
+    // Returns the value to write, or throws when it can't be stored in the declared type
+    let expected = this.normalizePropertyType(property.type, script);
+    const actual = this.getValueType(value);
+    if (!expected || expected === 'Variant' || !actual) {
+      return value;
+    }
+    
+    const enums = (script.enums || []).map(e => e.name);
+    if (enums.includes(expected) || enums.includes(expected.split('.').pop()!)) {
+      expected = 'int';
+    }
+    
+    let valid: boolean;
+    switch (expected) {
+      case 'float':
+        valid = actual === 'int' || actual === 'float';
+        break;
+      case 'int':
+      case 'bool':
+      case 'Dictionary':
+        valid = actual === expected;
+        break;
+      case 'String':
+      case 'StringName':
+        if (expected === 'StringName' && actual === 'String') return { type: 'StringName', value };
+        valid = actual === 'String' || actual === 'StringName';
+        break;
+      case 'NodePath':
+        if (actual === 'String') return { type: 'NodePath', path: value };
+        valid = actual === 'NodePath';
+        break;
+      case 'Array':
+        valid = actual === 'Array' || actual.startsWith('Packed');
+        break;
+      default:
+        if (expected.startsWith('Packed')) {
+          valid = actual === 'Array' || actual === expected;
+        } else if (VALUE_TYPES.has(expected)) {
+          valid = actual === expected;
+        } else {
+          // Classes: resources are stored as references, exported nodes as NodePaths
+          if (actual === 'String' && value.startsWith('res://')) return { type: 'ExtResource', path: value, resourceType: expected };
+          valid = ['Resource', 'NodePath', 'Object', 'null'].includes(actual);
+        }
+    }
+    
+    if (!valid) {
+      throw new Error(`${property.name} is declared as ${property.type} in ${script.path}; cannot assign a value of type ${actual}`);
+    }
+    return value;
+  }
+
+  private normalizePropertyType(type: string | undefined, script: Partial<GodotScript> | null | undefined): string | undefined {
+    if (!type) return undefined;
+    
+    let normalized = type.replace(/\?$/, '').replace(/^Godot\.(Collections\.)?/, '');
+    if (script?.language === 'csharp') {
+      if (normalized.endsWith('[]')) return 'Array';
+      normalized = CSHARP_TYPES[normalized] || normalized;
+    }
+    // Typed collections: Array[int], Array<int>, Dictionary[String, int]
+    return normalized.replace(/[[<].*$/, '');
+  }
+
+  private getValueType(value: any): string | undefined {
+    if (value === null) return 'null';
+    if (typeof value === 'boolean') return 'bool';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float';
+    if (typeof value === 'string') return 'String';
+    if (Array.isArray(value)) return 'Array';
+    if (typeof value !== 'object' || typeof value.raw === 'string') return undefined;
+    if (['ExtResource', 'SubResource', 'Resource'].includes(value.type)) return 'Resource';
+    return typeof value.type === 'string' ? value.type : 'Dictionary';
+  }
+
+  private async createEditContext(scene: EditableScene): Promise<SceneWriteContext> {
+    // Existing ext_resources are reused by path; anything added later is new
+    const extResources = findBlocks(scene.resource, 'ext_resource').map(block => this.parseExtResourceSection(block.section!));
+    return {
+      uidIndex: await this.resourceManager.buildUidIndex(),
+      extResources,
+      subResources: [],
+      warnings: [],
+    };
+  }
+
+  private insertNewResources(scene: EditableScene, context: SceneWriteContext): void {
+    const { resource } = scene;
+    const existingIds = new Set(findBlocks(resource, 'ext_resource').map(block => String(toPlainValue(block.section!.attributes.id))));
+    const added = context.extResources.filter(r => !existingIds.has(r.id));
+    
+    // ext_resource lines are written without blank lines between them
+    let lastExt = findBlocks(resource, 'ext_resource').pop() || resource.blocks[0];
+    for (const extResource of added) {
+      const attributes: Record<string, VariantNode> = { type: encodeVariant(extResource.type) };
+      if (extResource.uid) attributes.uid = encodeVariant(extResource.uid);
+      attributes.path = encodeVariant(extResource.path);
+      attributes.id = encodeVariant(extResource.id);
+      
+      const block = createBlock(stringifySection('ext_resource', attributes), lastExt.separator);
+      if (getBlockTag(lastExt) === 'ext_resource') {
+        lastExt.separator = '\n';
+      }
+      insertBlock(resource, resource.blocks.indexOf(lastExt) + 1, block);
+      lastExt = block;
+    }
+    
+    let lastResource = findBlocks(resource, 'sub_resource').pop() || lastExt;
+    for (const subResource of context.subResources) {
+      const block = createBlock(stringifySection('sub_resource', {
+        type: encodeVariant(subResource.type),
+        id: encodeVariant(subResource.id),
+      }, subResource.properties));
+      insertBlock(resource, resource.blocks.indexOf(lastResource) + 1, block);
+      lastResource = block;
+    }
+    
+    this.updateLoadSteps(scene);
+  }
+
+  private removeUnusedResources(scene: EditableScene, removedValues: VariantNode[]): string[] {
+    // Drop resources that only the removed values used, the way Godot does when it saves the scene
+    const removed: string[] = [];
+    const candidateValues = [...removedValues];
+    
+    for (const [tag, callName] of [['sub_resource', 'SubResource'], ['ext_resource', 'ExtResource']]) {
+      const candidates = new Set<string>();
+      this.collectResourceIds(candidateValues, callName, candidates);
+      if (candidates.size === 0) continue;
+      
+      // Pending edits are not reflected in the parsed sections, so check the scene as it will be written
+      const stillUsed = new Set<string>();
+      for (const section of parseResource(renderResource(scene.resource)).sections) {
+        if (section.tag !== tag) {
+          this.collectResourceIds(this.getSectionValues(section), callName, stillUsed);
+        }
+      }
+      
+      for (const block of findBlocks(scene.resource, tag)) {
+        const id = String(toPlainValue(block.section!.attributes.id));
+        if (candidates.has(id) && !stillUsed.has(id)) {
+          removeBlock(scene.resource, block);
+          // A removed sub_resource may hold the last reference to an ext_resource
+          candidateValues.push(...this.getSectionValues(block.section!));
+          removed.push(`${callName}("${id}")`);
+        }
+      }
+    }
+    
+    return removed;
+  }
+
+  private getSectionValues(section: ResourceSection): VariantNode[] {
+    return [...Object.values(section.attributes), ...section.properties.map(property => property.value)];
+  }
+
+  private collectResourceIds(values: VariantNode[], callName: string, ids: Set<string>): void {
+    const visit = (value: VariantNode): void => {
+      const id = getResourceReferenceId(value, callName);
+      if (id !== undefined) ids.add(id);
+      if (value.kind === 'call') value.args.forEach(visit);
+      if (value.kind === 'array') value.items.forEach(visit);
+      if (value.kind === 'dictionary') value.entries.forEach(entry => { visit(entry.key); visit(entry.value); });
+      if (value.kind === 'object') value.properties.forEach(property => visit(property.value));
+    };
+    
+    values.forEach(visit);
+  }
+
+  private updateLoadSteps(scene: EditableScene, headerOverrides: Record<string, VariantNode> = {}): void {
+    const header = scene.resource.blocks[0];
+    if (!header.section || header.section.tag !== 'gd_scene') {
+      return;
+    }
+    
+    const attributes = { ...header.section.attributes, ...headerOverrides };
+    if (attributes.load_steps) {
+      const resourceCount = scene.resource.blocks.filter(block => {
+        const tag = getBlockTag(block);
+        return tag === 'ext_resource' || tag === 'sub_resource';
+      }).length;
+      
+      if (resourceCount === 0) {
+        delete attributes.load_steps;
+      } else {
+        attributes.load_steps = encodeVariant(resourceCount + 1);
+      }
+    }
+    setBlockAttributes(header, attributes);
+  }
+
+  private removeUnreferencedResources(scene: EditableScene): string[] {
+    // Keeps the resources the nodes and connections use, following sub_resources into what they use
+    const used = { ExtResource: new Set<string>(), SubResource: new Set<string>() };
+    const pending: ResourceSection[] = scene.resource.blocks
+      .filter(block => !['ext_resource', 'sub_resource'].includes(getBlockTag(block)))
+      .map(block => block.section!);
+    const subResources = findBlocks(scene.resource, 'sub_resource');
+    
+    while (pending.length > 0) {
+      const values = this.getSectionValues(pending.pop()!);
+      this.collectResourceIds(values, 'ExtResource', used.ExtResource);
+      const before = new Set(used.SubResource);
+      this.collectResourceIds(values, 'SubResource', used.SubResource);
+      for (const block of subResources) {
+        const id = String(toPlainValue(block.section!.attributes.id));
+        if (used.SubResource.has(id) && !before.has(id)) pending.push(block.section!);
+      }
+    }
+    
+    const kept: string[] = [];
+    for (const [tag, callName] of [['ext_resource', 'ExtResource'], ['sub_resource', 'SubResource']] as const) {
+      for (const block of findBlocks(scene.resource, tag)) {
+        const id = String(toPlainValue(block.section!.attributes.id));
+        if (used[callName].has(id)) {
+          kept.push(`${callName}("${id}")`);
+        } else {
+          removeBlock(scene.resource, block);
+        }
+      }
+    }
+    return kept;
+  }
+
+  private summarizeConnection(section: ResourceSection): Record<string, string> {
+    const { signal, from, to, method } = section.attributes;
+    return {
+      signal: signal ? String(toPlainValue(signal)) : '',
+      from: from ? String(toPlainValue(from)) : '',
+      to: to ? String(toPlainValue(to)) : '',
+      method: method ? String(toPlainValue(method)) : '',
+    };
+  }
+
+  private buildNodeHierarchy(flatNodes: GodotNode[], rootNode: string): GodotNode[] {
+    const nodeMap = new Map<string, GodotNode>();
+    const rootNodes: GodotNode[] = [];
+    
+    // Nodes are keyed by their path relative to the scene root, so siblings
+    // with the same name in different branches stay distinct
+    for (const node of flatNodes) {
+      const relativePath = this.getRelativeNodePath(node);
+      const nodeInstance: GodotNode = {
+        ...node,
+        path: this.toAbsoluteNodePath(relativePath, rootNode),
+        depth: relativePath === '.' ? 0 : relativePath.split('/').length,
+        children: [],
+      };
+      nodeMap.set(relativePath, nodeInstance);
+      
+      if (node.parent === undefined) {
+        rootNodes.push(nodeInstance);
+        continue;
+      }
+      
+      const parentPath = node.parent.replace(/^\.\//, '');
+      const parentNode = nodeMap.get(parentPath === '' ? '.' : parentPath);
+      if (parentNode) {
+        parentNode.children.push(nodeInstance);
       } else {
+        // Parent not found (e.g. a node inside an instanced scene), treat as root
         rootNodes.push(nodeInstance);
       }
     }
     
     return rootNodes;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,155 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GodotScriptManager } from './script-manager.js';
+
+const PLAYER = [
+  'class_name Player',
+  'extends CharacterBody2D',
+  '',
+  'signal health_changed(value)',
+  '',
+  'var health = 10',
+  '',
+  'func take_damage(amount):',
+  '\thealth -= amount',
+  '\thealth_changed.emit(health)',
+  '\temit_signal("health_changed", health)',
+  '',
+].join('\n');
+
+const BOSS = [
+  'extends Player',
+  '',
+  'func take_damage(amount):',
+  '\tsuper.take_damage(amount * 2)',
+  '',
+].join('\n');
+
+const HUD = [
+  'extends Control',
+  '',
+  'var player: Player',
+  '',
+  'func _ready():',
+  '\tplayer.health_changed.connect(_on_health_changed)',
+  '\tplayer.take_damage(1)',
+  '',
+  'func _on_health_changed(value):',
+  '\tprint(value)',
+  '',
+].join('\n');
+
+const MAIN = `[gd_scene load_steps=3 format=3]
+
+[ext_resource type="Script" path="res://scripts/player.gd" id="1_player"]
+[ext_resource type="Script" path="res://scripts/hud.gd" id="2_hud"]
+
+[node name="Main" type="Node"]
+
+[node name="Player" type="CharacterBody2D" parent="."]
+script = ExtResource("1_player")
+health = 5
+
+[node name="HUD" type="Control" parent="."]
+script = ExtResource("2_hud")
+
+[connection signal="health_changed" from="Player" to="HUD" method="_on_health_changed"]
+`;
+
+describe('GodotScriptManager.renameSymbol', () => {
+  let projectPath: string;
+  let manager: GodotScriptManager;
+  const file = (relativePath: string) => path.join(projectPath, relativePath);
+  const read = (relativePath: string) => fs.readFile(file(relativePath), 'utf-8');
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-mcp-'));
+    manager = new GodotScriptManager(projectPath);
+    await fs.outputFile(file('project.godot'), 'config_version=5\n');
+    await fs.outputFile(file('scripts/player.gd'), PLAYER);
+    await fs.outputFile(file('scripts/boss.gd'), BOSS);
+    await fs.outputFile(file('scripts/hud.gd'), HUD);
+    await fs.outputFile(file('scenes/main.tscn'), MAIN);
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('renames a method with its overrides and call sites', async () => {
+    const response = await manager.renameSymbol('method', 'take_damage', 'apply_damage', 'res://scripts/player.gd');
+
+    expect(response.success).toBe(true);
+    expect(response.data.changedFiles).toEqual(['res://scripts/boss.gd', 'res://scripts/hud.gd', 'res://scripts/player.gd']);
+    expect(response.data.skipped).toEqual([]);
+    expect(await read('scripts/player.gd')).toBe(PLAYER.replace('func take_damage', 'func apply_damage'));
+    expect(await read('scripts/boss.gd')).toBe(BOSS.replace(/take_damage/g, 'apply_damage'));
+    expect(await read('scripts/hud.gd')).toBe(HUD.replace('player.take_damage', 'player.apply_damage'));
+  });
+
+  it('renames a signal in emits, connects, strings and scene connections', async () => {
+    const response = await manager.renameSymbol('signal', 'health_changed', 'hp_changed', 'scripts/player.gd');
+
+    expect(response.success).toBe(true);
+    expect(await read('scripts/player.gd')).toBe(PLAYER.replace(/health_changed/g, 'hp_changed'));
+    expect(await read('scripts/hud.gd')).toBe(HUD.replace('player.health_changed', 'player.hp_changed'));
+    expect(await read('scenes/main.tscn')).toBe(MAIN.replace('signal="health_changed"', 'signal="hp_changed"'));
+  });
+
+  it('renames a property together with the values stored on scene nodes', async () => {
+    const response = await manager.renameSymbol('property', 'health', 'hit_points', 'scripts/player.gd');
+
+    expect(response.success).toBe(true);
+    expect(await read('scripts/player.gd')).toBe(PLAYER
+      .replace('var health', 'var hit_points')
+      .replace('\thealth -=', '\thit_points -=')
+      .replace('emit(health)', 'emit(hit_points)')
+      .replace('"health_changed", health)', '"health_changed", hit_points)'));
+    expect(await read('scenes/main.tscn')).toBe(MAIN.replace('health = 5', 'hit_points = 5'));
+  });
+
+  it('renames a class_name in extends and type hints', async () => {
+    const response = await manager.renameSymbol('class_name', 'Player', 'Hero');
+
+    expect(response.success).toBe(true);
+    expect(await read('scripts/player.gd')).toBe(PLAYER.replace('class_name Player', 'class_name Hero'));
+    expect(await read('scripts/boss.gd')).toBe(BOSS.replace('extends Player', 'extends Hero'));
+    expect(await read('scripts/hud.gd')).toBe(HUD.replace('var player: Player', 'var player: Hero'));
+  });
+
+  it('skips references it cannot attribute when another script declares the same name', async () => {
+    const turret = 'extends Node2D\n\nfunc take_damage(amount):\n\tprint(amount)\n';
+    await fs.outputFile(file('scripts/turret.gd'), turret);
+
+    const response = await manager.renameSymbol('method', 'take_damage', 'apply_damage', 'scripts/player.gd');
+
+    expect(response.success).toBe(true);
+    expect(response.data.warnings[0]).toContain('take_damage is also declared by scripts/turret.gd');
+    expect(response.data.skipped).toEqual([{
+      file: 'res://scripts/hud.gd',
+      line: 7,
+      code: 'player.take_damage(1)',
+      reason: 'Member access on an object whose class is not known',
+    }]);
+    expect(await read('scripts/hud.gd')).toBe(HUD);
+    expect(await read('scripts/turret.gd')).toBe(turret);
+    expect(await read('scripts/boss.gd')).toBe(BOSS.replace(/take_damage/g, 'apply_damage'));
+  });
+
+  it('rejects names that would clash or are not identifiers', async () => {
+    expect(await manager.renameSymbol('method', 'take_damage', 'health', 'scripts/player.gd')).toEqual({
+      success: false,
+      error: 'scripts/player.gd already declares health',
+    });
+    expect(await manager.renameSymbol('class_name', 'Player', 'Node2D')).toEqual({
+      success: false,
+      error: 'Node2D is a built-in Godot class',
+    });
+    expect(await manager.renameSymbol('signal', 'health_changed', 'func', 'scripts/player.gd')).toEqual({
+      success: false,
+      error: 'Invalid identifier: "func"',
+    });
+    expect(await read('scripts/player.gd')).toBe(PLAYER);
+  });
+});
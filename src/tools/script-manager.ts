@@ -1,23 +1,140 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { glob } from 'glob';
-import { GodotScript, GodotMethod, GodotProperty, GodotSignal, McpToolResponse } from '../types/index.js';
+import {
+  GodotScript,
+  GodotInnerClass,
+  GodotMethod,
+  GodotParameter,
+  GodotProperty,
+  GodotSignal,
+  GodotReferenceChange,
+  GodotSymbolKind,
+  GodotNodeReference,
+  GodotSignalConnect,
+  GodotClassInfo,
+  McpToolResponse,
+} from '../types/index.js';
+import {
+  parseGDScript,
+  findLambdas,
+  GDScriptAST,
+  GDScriptClassNode,
+  GDScriptFunctionNode,
+  GDScriptParameterNode,
+  GDScriptStatement,
+  GDScriptSignalNode,
+  GDScriptVariableNode,
+  walkStatements,
+} from '../parsers/gdscript-parser.js';
+import { GDScriptToken, GDSCRIPT_KEYWORDS } from '../parsers/gdscript-lexer.js';
+import { parseCSharpScript, findCSharpClassBody } from '../parsers/csharp-parser.js';
+import { ResourceSection, getResourceReferenceId, toPlainValue } from '../parsers/resource-parser.js';
+import {
+  EditableResource,
+  ResourceBlock,
+  TextEdit,
+  editResource,
+  renderResource,
+  findBlocks,
+  setBlockAttributes,
+  renameBlockProperty,
+} from '../parsers/resource-editor.js';
+import { isEngineClass, getEngineSignal, getEngineAncestors, ENGINE_CLASSES } from '../parsers/engine-classes.js';
+import { ProjectFileWriter, isInsideProject } from '../file-writer.js';
+
+const SCRIPT_IGNORE = ['**/node_modules/**', '**/dist/**', '**/.godot/**', '**/bin/**', '**/obj/**'];
+
+// How signal argument types are spelled in each language
+const GDSCRIPT_TO_CSHARP_TYPES: Record<string, string> = {
+  int: 'long',
+  float: 'double',
+  String: 'string',
+  Array: 'Godot.Collections.Array',
+  Dictionary: 'Godot.Collections.Dictionary',
+  PackedByteArray: 'byte[]',
+  PackedInt32Array: 'int[]',
+  PackedInt64Array: 'long[]',
+  PackedFloat32Array: 'float[]',
+  PackedFloat64Array: 'double[]',
+  PackedStringArray: 'string[]',
+  PackedVector2Array: 'Vector2[]',
+  PackedVector3Array: 'Vector3[]',
+  PackedColorArray: 'Color[]',
+};
+
+const CSHARP_TO_GDSCRIPT_TYPES: Record<string, string> = {
+  int: 'int',
+  long: 'int',
+  float: 'float',
+  double: 'float',
+  string: 'String',
+};
+
+const SYMBOL_MEMBER_KINDS: Record<Exclude<GodotSymbolKind, 'class_name'>, string> = {
+  method: 'func',
+  signal: 'signal',
+  property: 'var',
+};
+
+// Calls that name a member in a string argument, and which argument that is
+const STRING_REFERENCE_CALLS: Record<Exclude<GodotSymbolKind, 'class_name'>, Record<string, number>> = {
+  method: { call: 0, call_deferred: 0, callv: 0, has_method: 0, rpc: 0, rpc_id: 1, Callable: 1 },
+  signal: { emit_signal: 0, connect: 0, disconnect: 0, is_connected: 0, has_signal: 0 },
+  property: { get: 0, set: 0, set_deferred: 0, tween_property: 1 },
+};
+
+// Calls whose first argument, not the call receiver, is the object the string refers to
+const OBJECT_ARGUMENT_CALLS = new Set(['Callable', 'tween_property']);
+
+interface ParsedGDScript {
+  path: string;
+  source: string;
+  ast: GDScriptAST;
+}
+
+interface ClassEntry extends GodotClassInfo {
+  script: ParsedGDScript;
+  node: GDScriptClassNode;
+  // Names of the enclosing inner classes and the class itself; empty for the script's own class
+  innerPath: string[];
+}
+
+interface ClassRegistry {
+  classes: Map<string, ClassEntry>;
+  byClassName: Map<string, ClassEntry[]>;
+  unresolved: { id: string; line: number; extends: string; reason: string }[];
+  // Names that are neither project classes nor in the engine class table
+  unknownBases: { id: string; line: number; extends: string }[];
+}
+
+const INHERITED_MEMBER_KINDS = ['methods', 'properties', 'signals', 'enums'] as const;
+
+interface SkippedReference {
+  file: string;
+  line: number;
+  code: string;
+  reason: string;
+}
 
 export class GodotScriptManager {
-  constructor(private projectPath: string) {}
+  constructor(
+    private projectPath: string,
+    private fileWriter: ProjectFileWriter = new ProjectFileWriter(projectPath),
+  ) {}
 
   async listScripts(includeAnalysis: boolean = false): Promise<McpToolResponse> {
     try {
-      const scriptFiles = await glob('**/*.gd', {
+      const scriptFiles = await glob('**/*.{gd,cs}', {
         cwd: this.projectPath,
-        ignore: ['**/node_modules/**', '**/dist/**'],
+        ignore: SCRIPT_IGNORE,
       });
 
       const scripts = [];
       
       for (const scriptFile of scriptFiles) {
         const scriptPath = path.join(this.projectPath, scriptFile);
-        const scriptName = path.basename(scriptFile, '.gd');
+        const scriptName = path.basename(scriptFile, path.extname(scriptFile));
         
         if (includeAnalysis) {
           const scriptData = await this.parseScriptFile(scriptPath);
@@ -30,6 +147,7 @@ export class GodotScriptManager {
           scripts.push({
             name: scriptName,
             path: scriptFile,
+            language: this.getScriptLanguage(scriptFile),
           });
         }
       }
@@ -39,6 +157,7 @@ export class GodotScriptManager {
         data: {
           scripts,
           totalCount: scripts.length,
+          csharpProjects: await this.findCSharpProjects(),
         },
       };
     } catch (error) {
@@ -77,9 +196,42 @@ export class GodotScriptManager {
     }
   }
 
-  async generateTemplate(templateType: string, className: string, extendsClass: string = 'Node'): Promise<McpToolResponse> {
+  async generateTemplate(
+    templateType: string,
+    className: string,
+    extendsClass: string = 'Node',
+    options: { outputPath?: string; overwrite?: boolean } = {}
+  ): Promise<McpToolResponse> {
     try {
       const template = this.getScriptTemplate(templateType, className, extendsClass);
+      const written: string[] = [];
+      
+      if (options.outputPath) {
+        const relativePath = options.outputPath.replace(/^res:\/\//, '');
+        if (path.extname(relativePath) !== '.gd') {
+          return {
+            success: false,
+            error: `Script path must end with .gd: ${options.outputPath}`,
+          };
+        }
+        
+        const fullPath = path.join(this.projectPath, relativePath);
+        if (!isInsideProject(this.projectPath, fullPath)) {
+          return {
+            success: false,
+            error: `Path must be inside the project: ${options.outputPath}`,
+          };
+        }
+        if (await this.fileWriter.pathExists(fullPath) && !options.overwrite) {
+          return {
+            success: false,
+            error: `Script file already exists: ${relativePath}`,
+          };
+        }
+        
+        await this.fileWriter.writeFile(fullPath, template.endsWith('\n') ? template : `${template}\n`);
+        written.push(`res://${relativePath}`);
+      }
       
       return {
         success: true,
@@ -88,6 +240,7 @@ export class GodotScriptManager {
           className,
           extendsClass,
           code: template,
+          ...(written.length > 0 && { written }),
         },
       };
     } catch (error) {
@@ -98,144 +251,1167 @@ export class GodotScriptManager {
     }
   }
 
-  private async parseScriptFile(filePath: string): Promise<Partial<GodotScript>> {
+  async getScriptInfo(scriptPath: string): Promise<Partial<GodotScript> | null> {
+    // Accepts res:// paths as written in scenes as well as project-relative paths
+    const fullPath = path.join(this.projectPath, scriptPath.replace(/^res:\/\//, ''));
+    
+    if (!await fs.pathExists(fullPath)) {
+      return null;
+    }
+    
+    return {
+      path: path.relative(this.projectPath, fullPath).split(path.sep).join('/'),
+      ...await this.parseScriptFile(fullPath),
+    };
+  }
+
+  /**
+   * Appends an empty method to a script, as the editor does when a signal is connected to a missing callback.
+   * Parameter types are given in the syntax of `parameterLanguage` and converted for the target script.
+   */
+  async addMethodStub(
+    scriptPath: string,
+    methodName: string,
+    parameters: GodotParameter[],
+    parameterLanguage: GodotScript['language'] = 'gdscript'
+  ): Promise<{ path: string; line: number }> {
+    const relativePath = scriptPath.replace(/^res:\/\//, '');
+    const fullPath = path.join(this.projectPath, relativePath);
+    const content = await this.fileWriter.readFile(fullPath);
+    const language = this.getScriptLanguage(fullPath);
+    const indent = /^([ \t]+)\S/m.exec(content)?.[1] || '\t';
+    
+    let updated: string;
+    let offset: number;
+    
+    if (language === 'csharp') {
+      const body = findCSharpClassBody(content, path.basename(fullPath, '.cs'));
+      if (!body) {
+        throw new Error(`No class found in ${relativePath}`);
+      }
+      
+      const classIndent = /[ \t]*$/.exec(content.slice(0, body.end))![0];
+      const memberIndent = /\n([ \t]*)\S/.exec(content.slice(body.start, body.end))?.[1] ?? classIndent + indent;
+      const parameterList = parameters.map(p => {
+        const name = parameterLanguage === 'csharp' ? p.name : p.name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+        return `${this.convertParameterType(p.type, parameterLanguage, 'csharp') || 'Variant'} ${name}`;
+      }).join(', ');
+      const stub = `${memberIndent}private void ${methodName}(${parameterList})\n${memberIndent}{\n${memberIndent}}\n`;
+      
+      // Insert on its own lines before the class's closing brace
+      const lineStart = content.lastIndexOf('\n', body.end - 1) + 1;
+      if (content.slice(lineStart, body.end).trim() === '') {
+        offset = lineStart + 1;
+        updated = content.slice(0, lineStart) + '\n' + stub + content.slice(lineStart);
+      } else {
+        offset = body.end + 1;
+        updated = content.slice(0, body.end) + '\n' + stub + content.slice(body.end);
+      }
+    } else {
+      const parameterList = parameters.map(p => {
+        const name = parameterLanguage === 'gdscript' ? p.name : p.name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+        const type = this.convertParameterType(p.type, parameterLanguage, 'gdscript');
+        return type ? `${name}: ${type}` : name;
+      }).join(', ');
+      const base = content.replace(/\s*$/, '\n');
+      offset = base.length + 2;
+      updated = `${base}\n\nfunc ${methodName}(${parameterList}) -> void:\n${indent}pass # Replace with function body.\n`;
+    }
+    
+    await this.fileWriter.writeFile(fullPath, updated);
+    
+    return {
+      path: relativePath,
+      line: updated.slice(0, offset).split('\n').length,
+    };
+  }
+
+  /**
+   * Collects the static node paths each script looks up: `$Path`, `%Unique` and `get_node("...")`
+   * in GDScript, `GetNode("...")` in C#. Keyed by project-relative script path; GDScript entries
+   * include the references of the scripts they extend, since those run on the same node.
+   */
+  async findNodeReferences(): Promise<Map<string, GodotNodeReference[]>> {
+    const scripts = await this.loadGDScripts();
+    const parents = this.resolveScriptParents(scripts);
+    const own = new Map<string, GodotNodeReference[]>();
+    for (const script of scripts.values()) {
+      own.set(script.path, this.collectNodeReferences(script));
+    }
+    
+    const references = new Map<string, GodotNodeReference[]>();
+    for (const script of scripts.values()) {
+      const chain = [script.path];
+      for (let parent = parents.get(script.path); parent && !chain.includes(parent); parent = parents.get(parent)) {
+        chain.push(parent);
+      }
+      references.set(script.path, chain.flatMap(file => own.get(file) || []));
+    }
+    
+    const csharpFiles = await glob('**/*.cs', {
+      cwd: this.projectPath,
+      ignore: SCRIPT_IGNORE,
+    });
+    for (const file of csharpFiles) {
+      const relativePath = file.split(path.sep).join('/');
+      const lines = (await this.fileWriter.readFile(path.join(this.projectPath, file))).split('\n');
+      const found: GodotNodeReference[] = [];
+      lines.forEach((text, index) => {
+        if (text.trim().startsWith('//')) return;
+        // GetNode<T>("Path") and GetNode("Path") on the script's own node
+        for (const match of text.matchAll(/(?<![\w.])(?:this\.)?GetNode\s*(?:<[^>()]*>)?\s*\(\s*"([^"]*)"/g)) {
+          found.push({ path: match[1], script: relativePath, line: index + 1, code: text.trim(), onready: false });
+        }
+      });
+      references.set(relativePath, found);
+    }
+    
+    return references;
+  }
+
+  /**
+   * Finds connect("name", ...) calls whose signal no script in the project declares and that is not
+   * a signal of an engine class in the table. The receiver's class is usually not known, so any
+   * declaration counts.
+   */
+  async findUndeclaredSignalConnects(): Promise<GodotSignalConnect[]> {
+    const scripts = await this.loadGDScripts();
+    const declared = new Set<string>();
+    const collectSignals = (members: GDScriptClassNode['members']): void => {
+      for (const member of members) {
+        if (member.kind === 'signal') declared.add(member.name);
+        if (member.kind === 'class') collectSignals(member.members);
+      }
+    };
+    for (const script of scripts.values()) {
+      collectSignals(script.ast.root.members);
+    }
+    
+    const csharpFiles = (await glob('**/*.cs', {
+      cwd: this.projectPath,
+      ignore: SCRIPT_IGNORE,
+    })).map(file => file.split(path.sep).join('/')).sort();
+    const csharpSources = new Map<string, string>();
+    for (const file of csharpFiles) {
+      const source = await this.fileWriter.readFile(path.join(this.projectPath, file));
+      csharpSources.set(file, source);
+      for (const signal of parseCSharpScript(source, path.basename(file, '.cs')).signals || []) {
+        declared.add(signal.name);
+      }
+    }
+    
+    const isDeclared = (signal: string) =>
+      declared.has(signal) || Object.keys(ENGINE_CLASSES).some(className => getEngineSignal(className, signal));
+    const calls: GodotSignalConnect[] = [];
+    
+    for (const script of [...scripts.values()].sort((a, b) => a.path.localeCompare(b.path))) {
+      const { tokens } = script.ast;
+      const lines = script.source.split('\n');
+      tokens.forEach((token, index) => {
+        if (token.type !== 'string' && token.type !== 'stringName') return;
+        const reference = this.findStringReference(tokens, index);
+        if (reference?.call !== 'connect' || reference.argument !== 0 || isDeclared(token.value)) return;
+        calls.push({ signal: token.value, script: script.path, line: token.line, code: lines[token.line - 1].trim() });
+      });
+    }
+    
+    for (const [file, source] of csharpSources) {
+      source.split('\n').forEach((text, index) => {
+        if (text.trim().startsWith('//')) return;
+        // Connect("name", ...); Connect(SignalName.Name, ...) is checked by the compiler
+        for (const match of text.matchAll(/(?<![\w])Connect\s*\(\s*"([^"]*)"/g)) {
+          if (!isDeclared(match[1])) {
+            calls.push({ signal: match[1], script: file, line: index + 1, code: text.trim() });
+          }
+        }
+      });
+    }
+    
+    return calls;
+  }
+
+  /**
+   * Renames a class_name, or a method, signal or property declared by a script, and updates
+   * references in scripts and scenes. Bare references are renamed in the declaring script and its
+   * subclasses; `obj.name` accesses elsewhere only when no other script declares the same name.
+   */
+  async renameSymbol(
+    kind: GodotSymbolKind,
+    name: string,
+    newName: string,
+    scriptPath?: string
+  ): Promise<McpToolResponse> {
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
+      if (!SYMBOL_MEMBER_KINDS[kind as Exclude<GodotSymbolKind, 'class_name'>] && kind !== 'class_name') {
+        return {
+          success: false,
+          error: `Unknown symbol kind: ${kind} (use class_name, method, signal or property)`,
+        };
+      }
+      if (kind !== 'class_name' && !scriptPath) {
+        return {
+          success: false,
+          error: `scriptPath is required to rename a ${kind}: give the script that declares ${name}`,
+        };
+      }
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName || '') || GDSCRIPT_KEYWORDS.has(newName)) {
+        return {
+          success: false,
+          error: `Invalid identifier: "${newName}"`,
+        };
+      }
       
-      const script: Partial<GodotScript> = {
-        methods: [],
-        properties: [],
-        signals: [],
-      };
+      const scripts = await this.loadGDScripts();
+      const declaringPath = scriptPath
+        ? path.normalize(scriptPath.replace(/^res:\/\//, '')).split(path.sep).join('/')
+        : [...scripts.values()].find(script => script.ast.root.className === name)?.path;
+      const declaring = declaringPath ? scripts.get(declaringPath) : undefined;
+      if (!declaring) {
+        return {
+          success: false,
+          error: scriptPath ? `GDScript file not found: ${scriptPath}` : `No script declares class_name ${name}`,
+        };
+      }
       
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        
-        // Parse class definition
-        if (line.startsWith('class_name ')) {
-          script.className = line.split(' ')[1];
+      const parents = this.resolveScriptParents(scripts);
+      const ancestors: string[] = [];
+      for (let parent = parents.get(declaring.path); parent && !ancestors.includes(parent); parent = parents.get(parent)) {
+        ancestors.push(parent);
+      }
+      const affected = new Set([...scripts.keys()].filter(file => {
+        const seen = new Set<string>();
+        for (let current: string | undefined = file; current && !seen.has(current); current = parents.get(current)) {
+          if (current === declaring.path) return true;
+          seen.add(current);
         }
-        
-        // Parse extends
-        if (line.startsWith('extends ')) {
-          script.extends = line.split(' ')[1];
+        return false;
+      }));
+      
+      const warnings: string[] = [];
+      let ambiguous = false;
+      
+      if (kind === 'class_name') {
+        if (declaring.ast.root.className !== name) {
+          return {
+            success: false,
+            error: `${declaring.path} does not declare class_name ${name}`,
+          };
+        }
+        if (isEngineClass(newName)) {
+          return {
+            success: false,
+            error: `${newName} is a built-in Godot class`,
+          };
+        }
+        const existing = [...scripts.values()].find(script => script.ast.root.className === newName);
+        if (existing) {
+          return {
+            success: false,
+            error: `class_name ${newName} is already declared in ${existing.path}`,
+          };
+        }
+      } else {
+        const memberKind = SYMBOL_MEMBER_KINDS[kind];
+        if (!declaring.ast.root.members.some(member => member.kind === memberKind && member.name === name)) {
+          return {
+            success: false,
+            error: `No ${kind} named ${name} in ${declaring.path}`,
+          };
         }
         
-        // Parse signals
-        if (line.startsWith('signal ')) {
-          const signal = this.parseSignal(line);
-          if (signal) {
-            script.signals!.push(signal);
-          }
+        const inherited = ancestors.find(file => this.declaresMember(scripts.get(file), name));
+        if (inherited) {
+          return {
+            success: false,
+            error: `${name} overrides a member of ${inherited}; rename it there`,
+          };
+        }
+        const conflict = [...affected, ...ancestors].find(file => this.declaresMember(scripts.get(file), newName));
+        if (conflict) {
+          return {
+            success: false,
+            error: `${conflict} already declares ${newName}`,
+          };
         }
         
-        // Parse properties/variables
-        if (line.startsWith('@export') || line.startsWith('var ') || line.startsWith('const ')) {
-          const property = this.parseProperty(line, lines[i - 1]);
-          if (property) {
-            script.properties!.push(property);
-          }
+        // Without static types, obj.name can't be attributed to a class if others use the name too
+        const others = [...scripts.keys()].filter(file =>
+          !affected.has(file) && !ancestors.includes(file) && this.declaresMember(scripts.get(file), name)
+        );
+        const engineSignal = Object.keys(ENGINE_CLASSES).some(className => getEngineSignal(className, name));
+        ambiguous = others.length > 0 || engineSignal;
+        if (ambiguous) {
+          warnings.push(`${name} is also declared by ${others.length > 0 ? others.join(', ') : 'built-in classes'}; references through other objects were left unchanged (see skipped)`);
         }
+      }
+      
+      const changes: GodotReferenceChange[] = [];
+      const skipped: SkippedReference[] = [];
+      
+      for (const script of [...scripts.values()].sort((a, b) => a.path.localeCompare(b.path))) {
+        const edits = kind === 'class_name'
+          ? this.findClassNameReferences(script, name, newName)
+          : this.findMemberReferences(script, kind, name, newName, affected.has(script.path), ambiguous, skipped);
+        if (edits.length === 0) continue;
         
-        // Parse functions
-        if (line.startsWith('func ')) {
-          const method = this.parseMethod(line);
-          if (method) {
-            script.methods!.push(method);
+        const updated = this.applyTextEdits(script.source, edits);
+        this.recordLineChanges(script.path, script.source, updated, edits.map(edit => this.lineAt(script.source, edit.start)), changes);
+        await this.fileWriter.writeFile(path.join(this.projectPath, script.path), updated);
+      }
+      
+      await this.renameInResources(kind, name, newName, affected, changes, skipped);
+      
+      if (kind !== 'class_name') {
+        const csharpFiles = await this.findCSharpMentions(name);
+        if (csharpFiles.length > 0) {
+          warnings.push(`C# scripts mention ${name} and were not updated: ${csharpFiles.join(', ')}`);
+        }
+      }
+      
+      return {
+        success: true,
+        data: {
+          kind,
+          name,
+          newName,
+          script: `res://${declaring.path}`,
+          changes,
+          changedFiles: [...new Set(changes.map(change => change.file))],
+          skipped,
+          warnings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to rename symbol',
+      };
+    }
+  }
+
+  /**
+   * Builds the global class registry from class_name declarations and follows the extends chain of
+   * every GDScript class, including inner classes and `extends "res://path.gd"`. For a class given by
+   * name or script path, also lists its ancestors, all subclasses and the members it inherits.
+   */
+  async getClassHierarchy(className?: string): Promise<McpToolResponse> {
+    try {
+      const scripts = await this.loadGDScripts();
+      const registry = this.buildClassRegistry(scripts);
+      const classes = [...registry.classes.values()];
+      const displayName = (entry: ClassEntry) => entry.name || entry.id;
+      
+      const duplicates = [...registry.byClassName]
+        .filter(([, entries]) => entries.length > 1)
+        .map(([name, entries]) => ({ className: name, paths: entries.map(entry => entry.path) }));
+      // Godot refuses to register these
+      const shadowing = classes
+        .filter(entry => entry.innerPath.length === 0 && isEngineClass(entry.name))
+        .map(entry => ({ className: entry.name, path: entry.path, line: entry.line }));
+      const cycles = this.findInheritanceCycles(registry.classes)
+        .map(cycle => cycle.map(id => displayName(registry.classes.get(id)!)));
+      
+      if (!className) {
+        return {
+          success: true,
+          data: {
+            classes: classes.map(entry => this.toClassInfo(entry)),
+            count: classes.length,
+            globalClasses: registry.byClassName.size,
+            duplicates,
+            shadowing,
+            cycles,
+            unresolved: registry.unresolved,
+            unknownBases: registry.unknownBases,
+          },
+        };
+      }
+      
+      const target = this.findClassEntry(registry, className);
+      if (!target) {
+        return {
+          success: false,
+          error: `Class not found: ${className}`,
+        };
+      }
+      
+      const ancestors: ClassEntry[] = [];
+      let current = target;
+      while (current.parent) {
+        const parent = registry.classes.get(current.parent)!;
+        if (parent === target || ancestors.includes(parent)) break;
+        ancestors.push(parent);
+        current = parent;
+      }
+      // A chain that ends in a cycle never reaches an engine class
+      const engineBase = current.parent ? undefined : current.engineBase;
+      const engineAncestors = engineBase ? (isEngineClass(engineBase) ? getEngineAncestors(engineBase) : [engineBase]) : [];
+      
+      const children = new Map<string, ClassEntry[]>();
+      for (const entry of classes) {
+        if (entry.parent) children.set(entry.parent, [...(children.get(entry.parent) || []), entry]);
+      }
+      const subclasses: (GodotClassInfo & { depth: number })[] = [];
+      const queue = [{ entry: target, depth: 0 }];
+      const seen = new Set([target.id]);
+      for (let i = 0; i < queue.length; i++) {
+        for (const child of children.get(queue[i].entry.id) || []) {
+          if (seen.has(child.id)) continue;
+          seen.add(child.id);
+          queue.push({ entry: child, depth: queue[i].depth + 1 });
+          subclasses.push({ ...this.toClassInfo(child), depth: queue[i].depth + 1 });
+        }
+      }
+      
+      // Members declared by the class itself or a nearer ancestor hide those further up
+      const own = this.collectMembers(target.script.ast, target.node);
+      const declared = Object.fromEntries(INHERITED_MEMBER_KINDS.map(kind => [
+        kind,
+        new Set((own[kind] as { name?: string }[]).map(member => member.name).filter(Boolean)),
+      ])) as Record<typeof INHERITED_MEMBER_KINDS[number], Set<string | undefined>>;
+      const inheritedMembers = Object.fromEntries(INHERITED_MEMBER_KINDS.map(kind => [kind, [] as Record<string, any>[]]));
+      const overrides: { method: string; from: string }[] = [];
+      
+      for (const ancestor of ancestors) {
+        const members = this.collectMembers(ancestor.script.ast, ancestor.node);
+        const from = displayName(ancestor);
+        for (const kind of INHERITED_MEMBER_KINDS) {
+          for (const member of members[kind] as { name?: string }[]) {
+            // Unnamed enums only declare constants, so they never hide each other
+            if (member.name !== undefined && declared[kind].has(member.name)) {
+              const isOwn = kind === 'methods' && own.methods.some(method => method.name === member.name);
+              if (isOwn && !overrides.some(override => override.method === member.name)) {
+                overrides.push({ method: member.name, from });
+              }
+              continue;
+            }
+            if (member.name !== undefined) declared[kind].add(member.name);
+            inheritedMembers[kind].push({ ...member, from });
           }
         }
       }
       
+      const warnings: string[] = [];
+      if (target.name && (registry.byClassName.get(target.name)?.length || 0) > 1) {
+        warnings.push(`class_name ${target.name} is declared by ${registry.byClassName.get(target.name)!.map(entry => entry.path).join(', ')}; using ${target.path}`);
+      }
+      if (current.parent) {
+        warnings.push(`The extends chain of ${displayName(target)} is cyclic`);
+      }
+      const problem = registry.unresolved.find(entry => entry.id === current.id);
+      if (problem) {
+        warnings.push(`${displayName(current)} extends ${problem.extends}, which cannot be resolved: ${problem.reason}`);
+      }
+      
+      return {
+        success: true,
+        data: {
+          class: this.toClassInfo(target),
+          ancestors: ancestors.map(entry => this.toClassInfo(entry)),
+          engineAncestors,
+          subclasses,
+          inheritedMembers,
+          overrides,
+          warnings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get class hierarchy',
+      };
+    }
+  }
+
+  private convertParameterType(
+    type: string | undefined,
+    from: GodotScript['language'],
+    to: GodotScript['language']
+  ): string | undefined {
+    if (!type || from === to) return type;
+    if (to === 'csharp') return GDSCRIPT_TO_CSHARP_TYPES[type] || type;
+    return CSHARP_TO_GDSCRIPT_TYPES[type] || type.replace(/^Godot\./, '');
+  }
+
+  private getScriptLanguage(filePath: string): GodotScript['language'] {
+    return path.extname(filePath).toLowerCase() === '.cs' ? 'csharp' : 'gdscript';
+  }
+
+  private async findCSharpProjects(): Promise<Record<string, any>[]> {
+    const projectFiles = await glob('**/*.csproj', {
+      cwd: this.projectPath,
+      ignore: SCRIPT_IGNORE,
+    });
+
+    const projects = [];
+    
+    for (const projectFile of projectFiles) {
+      const content = await fs.readFile(path.join(this.projectPath, projectFile), 'utf-8');
+      const readElement = (name: string) => new RegExp(`<${name}>([^<]*)</${name}>`).exec(content)?.[1].trim();
+      
+      projects.push({
+        path: projectFile,
+        sdk: /<Project\s+Sdk="([^"]+)"/.exec(content)?.[1],
+        targetFramework: readElement('TargetFramework') || readElement('TargetFrameworks'),
+        assemblyName: readElement('AssemblyName') || path.basename(projectFile, '.csproj'),
+        rootNamespace: readElement('RootNamespace'),
+      });
+    }
+    
+    return projects;
+  }
+
+  private async parseScriptFile(filePath: string): Promise<Partial<GodotScript>> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      
+      if (this.getScriptLanguage(filePath) === 'csharp') {
+        return {
+          language: 'csharp',
+          ...parseCSharpScript(content, path.basename(filePath, path.extname(filePath))),
+        };
+      }
+      
+      const ast = parseGDScript(content);
+      const root = ast.root;
+      
+      const script: Partial<GodotScript> = {
+        language: 'gdscript',
+        className: root.className,
+        extends: root.extends,
+        ...this.collectMembers(ast, root),
+      };
+      
+      if (root.annotations.some(a => a.name === 'tool')) {
+        script.tool = true;
+      }
+      
+      const icon = root.annotations.find(a => a.name === 'icon');
+      if (icon && icon.args[0]) {
+        script.icon = icon.args[0].replace(/^["']|["']$/g, '');
+      }
+      
+      if (root.doc) {
+        script.description = root.doc;
+      }
+      
       return script;
     } catch (error) {
       throw new Error(`Failed to parse script file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private parseSignal(line: string): GodotSignal | null {
-    // Parse: signal signal_name(param1: Type, param2: Type)
-    const match = line.match(/signal\s+(\w+)(\(([^)]*)\))?/);
-    if (!match) return null;
+  private collectMembers(ast: GDScriptAST, classNode: GDScriptClassNode): Omit<GodotInnerClass, 'name' | 'line' | 'endLine'> {
+    const members: Omit<GodotInnerClass, 'name' | 'line' | 'endLine'> = {
+      methods: [],
+      properties: [],
+      signals: [],
+      enums: [],
+      innerClasses: [],
+    };
     
-    const name = match[1];
-    const paramString = match[3] || '';
-    const parameters = this.parseParameters(paramString);
+    for (const member of classNode.members) {
+      switch (member.kind) {
+        case 'signal':
+          members.signals.push(this.toSignal(member));
+          break;
+        case 'var':
+        case 'const':
+          members.properties.push(this.toProperty(member));
+          break;
+        case 'func':
+          members.methods.push(this.toMethod(ast, member));
+          break;
+        case 'enum':
+          members.enums.push({
+            name: member.name,
+            values: member.values,
+            description: member.doc,
+            line: member.line,
+            endLine: member.endLine,
+          });
+          break;
+        case 'class':
+          members.innerClasses.push({
+            name: member.name || '',
+            extends: member.extends,
+            description: member.doc,
+            line: member.line,
+            endLine: member.endLine,
+            ...this.collectMembers(ast, member),
+          });
+          break;
+      }
+    }
     
-    return { name, parameters };
+    return members;
   }
 
-  private parseProperty(line: string, previousLine?: string): GodotProperty | null {
-    let exported = false;
-    const actualLine = line;
+  private toSignal(signal: GDScriptSignalNode): GodotSignal {
+    return {
+      name: signal.name,
+      parameters: signal.parameters.map(p => this.toParameter(p)),
+      description: signal.doc,
+      line: signal.line,
+    };
+  }
+
+  private toProperty(variable: GDScriptVariableNode): GodotProperty {
+    const annotationNames = variable.annotations.map(a => a.name);
     
-    // Check if previous line has @export
-    if (previousLine && previousLine.trim().startsWith('@export')) {
-      exported = true;
-    }
+    return {
+      name: variable.name,
+      type: variable.type,
+      value: variable.value,
+      exported: annotationNames.some(name => name.startsWith('export')),
+      constant: variable.kind === 'const',
+      onready: annotationNames.includes('onready'),
+      static: variable.isStatic,
+      annotations: variable.annotations.map(a => a.text),
+      setter: variable.setter,
+      getter: variable.getter,
+      description: variable.doc,
+      line: variable.line,
+      endLine: variable.endLine,
+    };
+  }
+
+  private toMethod(ast: GDScriptAST, func: GDScriptFunctionNode): GodotMethod {
+    // Determine visibility (GDScript doesn't have explicit visibility, but convention)
+    const visibility = func.name.startsWith('_') ? 'private' : 'public';
+    const lambdas = findLambdas(ast.source, func.body);
     
-    // Parse variable declaration
-    const varMatch = actualLine.match(/(var|const)\s+(\w+)(\s*:\s*(\w+))?(\s*=\s*(.+))?/);
-    if (!varMatch) return null;
+    const method: GodotMethod = {
+      name: func.name,
+      parameters: func.parameters.map(p => this.toParameter(p)),
+      returnType: func.returnType,
+      visibility,
+      static: func.isStatic,
+      annotations: func.annotations.map(a => a.text),
+      description: func.doc,
+      line: func.line,
+      endLine: func.endLine,
+    };
     
-    const name = varMatch[2];
-    const type = varMatch[4];
-    const value = varMatch[6];
+    if (lambdas.length > 0) {
+      method.lambdas = lambdas.map(lambda => ({
+        name: lambda.name,
+        parameters: lambda.parameters.map(p => this.toParameter(p)),
+        line: lambda.line,
+      }));
+    }
     
+    return method;
+  }
+
+  private toParameter(parameter: GDScriptParameterNode): GodotParameter {
     return {
-      name,
-      type,
-      value,
-      exported,
+      name: parameter.name,
+      type: parameter.type,
+      defaultValue: parameter.defaultValue,
     };
   }
 
-  private parseMethod(line: string): GodotMethod | null {
-    // Parse: func method_name(param1: Type, param2: Type) -> ReturnType:
-    const match = line.match(/func\s+(\w+)\(([^)]*)\)(\s*->\s*(\w+))?:/);
-    if (!match) return null;
+  private collectNodeReferences(script: ParsedGDScript): GodotNodeReference[] {
+    const references: GodotNodeReference[] = [];
+    const lines = script.source.split('\n');
     
-    const name = match[1];
-    const paramString = match[2] || '';
-    const returnType = match[4];
-    const parameters = this.parseParameters(paramString);
+    const visit = (statements: GDScriptStatement[]): void => {
+      for (const statement of statements) {
+        // Inner classes are not the node the script is attached to
+        if (statement.kind === 'class') continue;
+        const onready = statement.kind === 'var' && statement.annotations.some(a => a.name === 'onready');
+        const tokens = statement.tokens;
+        
+        tokens.forEach((token, i) => {
+          let nodePath: string | undefined;
+          if (token.type === 'nodeRef') {
+            nodePath = token.value;
+          } else if (token.type === 'identifier' && token.value === 'get_node' && tokens[i + 1]?.value === '(') {
+            // Only lookups on the node itself: get_node(...) or self.get_node(...)
+            const receiver = tokens[i - 1]?.value === '.' ? tokens[i - 2] : undefined;
+            const argument = tokens[i + 2];
+            const literal = argument && (argument.type === 'string' || argument.type === 'nodePath');
+            if ((tokens[i - 1]?.value !== '.' || receiver?.value === 'self') && literal && [')', ','].includes(tokens[i + 3]?.value)) {
+              nodePath = argument.value;
+            }
+          }
+          
+          if (nodePath !== undefined) {
+            references.push({ path: nodePath, script: script.path, line: token.line, code: lines[token.line - 1].trim(), onready });
+          }
+        });
+        
+        visit(statement.body);
+      }
+    };
     
-    // Determine visibility (GDScript doesn't have explicit visibility, but convention)
-    const visibility = name.startsWith('_') ? 'private' : 'public';
+    visit(script.ast.statements);
+    return references;
+  }
+
+  private async loadGDScripts(): Promise<Map<string, ParsedGDScript>> {
+    const files = await glob('**/*.gd', {
+      cwd: this.projectPath,
+      ignore: SCRIPT_IGNORE,
+    });
+    
+    const scripts = new Map<string, ParsedGDScript>();
+    for (const file of files) {
+      const relativePath = file.split(path.sep).join('/');
+      const source = await this.fileWriter.readFile(path.join(this.projectPath, file));
+      scripts.set(relativePath, { path: relativePath, source, ast: parseGDScript(source) });
+    }
+    return scripts;
+  }
+
+  private resolveScriptParents(scripts: Map<string, ParsedGDScript>): Map<string, string> {
+    const byClassName = new Map<string, string>();
+    for (const script of scripts.values()) {
+      if (script.ast.root.className) byClassName.set(script.ast.root.className, script.path);
+    }
+    
+    // Parse: extends "res://path/to/base.gd", extends BaseClass or extends BaseClass.Inner
+    const parents = new Map<string, string>();
+    for (const script of scripts.values()) {
+      const base = script.ast.root.extends?.replace(/^["']|["']$/g, '');
+      if (!base) continue;
+      const parent = base.startsWith('res://') ? base.slice('res://'.length) : byClassName.get(base.split('.')[0]);
+      if (parent && scripts.has(parent)) parents.set(script.path, parent);
+    }
+    return parents;
+  }
+
+  private buildClassRegistry(scripts: Map<string, ParsedGDScript>): ClassRegistry {
+    const classes = new Map<string, ClassEntry>();
+    const byClassName = new Map<string, ClassEntry[]>();
+    
+    const register = (script: ParsedGDScript, node: GDScriptClassNode, innerPath: string[], outerName?: string): ClassEntry => {
+      const entry: ClassEntry = {
+        id: innerPath.length === 0 ? `res://${script.path}` : `res://${script.path}::${innerPath.join('.')}`,
+        name: innerPath.length === 0 ? node.className : outerName && `${outerName}.${node.name}`,
+        path: script.path,
+        line: node.line,
+        extends: node.extends,
+        script,
+        node,
+        innerPath,
+      };
+      classes.set(entry.id, entry);
+      for (const member of node.members) {
+        if (member.kind === 'class' && member.name) register(script, member, [...innerPath, member.name], entry.name);
+      }
+      return entry;
+    };
+    
+    for (const script of [...scripts.values()].sort((a, b) => a.path.localeCompare(b.path))) {
+      const entry = register(script, script.ast.root, []);
+      if (entry.name) byClassName.set(entry.name, [...(byClassName.get(entry.name) || []), entry]);
+    }
+    
+    const unresolved: ClassRegistry['unresolved'] = [];
+    const unknownBases: ClassRegistry['unknownBases'] = [];
+    for (const entry of classes.values()) {
+      const base = this.resolveClassBase(entry, classes, byClassName);
+      if (base.parent) {
+        entry.parent = base.parent;
+      } else if (base.engineBase) {
+        entry.engineBase = base.engineBase;
+        if (!isEngineClass(base.engineBase)) unknownBases.push({ id: entry.id, line: entry.line, extends: entry.extends! });
+      } else {
+        unresolved.push({ id: entry.id, line: entry.line, extends: entry.extends!, reason: base.error! });
+      }
+    }
+    
+    return { classes, byClassName, unresolved, unknownBases };
+  }
+
+  private resolveClassBase(
+    entry: ClassEntry,
+    classes: Map<string, ClassEntry>,
+    byClassName: Map<string, ClassEntry[]>
+  ): { parent?: string; engineBase?: string; error?: string } {
+    // Classes without extends inherit RefCounted
+    if (!entry.extends) return { engineBase: 'RefCounted' };
+    
+    // Parse: extends "res://base.gd", extends "base.gd" (relative to the script) or extends "res://base.gd".Inner
+    const pathMatch = /^["']([^"']+)["']((?:\s*\.\s*\w+)*)$/.exec(entry.extends.trim());
+    if (pathMatch) {
+      const file = pathMatch[1].startsWith('res://')
+        ? path.posix.normalize(pathMatch[1].slice('res://'.length))
+        : path.posix.join(path.posix.dirname(entry.path), pathMatch[1]);
+      if (!classes.has(`res://${file}`)) return { error: `Script not found: res://${file}` };
+      return this.resolveInnerClass(`res://${file}`, pathMatch[2].split('.').map(part => part.trim()).filter(Boolean), classes);
+    }
+    
+    // Parse: extends Base or extends Base.Inner; inner classes also see the inner classes enclosing them
+    const [first, ...rest] = entry.extends.split('.').map(part => part.trim());
+    for (let depth = entry.innerPath.length - 1; depth >= 0; depth--) {
+      const id = `res://${entry.path}::${[...entry.innerPath.slice(0, depth), first].join('.')}`;
+      if (classes.has(id)) return this.resolveInnerClass(id, rest, classes);
+    }
+    const named = byClassName.get(first)?.[0];
+    if (named) return this.resolveInnerClass(named.id, rest, classes);
+    if (rest.length > 0) return { error: `${first} is not a class_name declared in the project` };
+    return { engineBase: first };
+  }
+
+  private resolveInnerClass(id: string, segments: string[], classes: Map<string, ClassEntry>): { parent?: string; error?: string } {
+    if (segments.length === 0) return { parent: id };
+    const inner = `${id}${id.includes('::') ? '.' : '::'}${segments.join('.')}`;
+    return classes.has(inner) ? { parent: inner } : { error: `No inner class ${segments.join('.')} in ${id}` };
+  }
+
+  private findInheritanceCycles(classes: Map<string, ClassEntry>): string[][] {
+    const cycles: string[][] = [];
+    const visited = new Set<string>();
+    
+    for (const start of classes.values()) {
+      const chain: string[] = [];
+      let current: ClassEntry | undefined = start;
+      while (current && !visited.has(current.id) && !chain.includes(current.id)) {
+        chain.push(current.id);
+        current = current.parent ? classes.get(current.parent) : undefined;
+      }
+      if (current && chain.includes(current.id)) cycles.push(chain.slice(chain.indexOf(current.id)));
+      chain.forEach(id => visited.add(id));
+    }
+    return cycles;
+  }
+
+  private findClassEntry(registry: ClassRegistry, query: string): ClassEntry | undefined {
+    // Accepts a class_name, Outer.Inner, or a script path with an optional ::Inner suffix
+    const name = query.trim();
+    if (/\.gd(::|$)/.test(name)) {
+      return registry.classes.get(`res://${path.posix.normalize(name.replace(/^res:\/\//, ''))}`);
+    }
+    const [first, ...rest] = name.split('.');
+    const named = registry.byClassName.get(first)?.[0];
+    if (!named) return undefined;
+    return registry.classes.get(rest.length === 0 ? named.id : `${named.id}::${rest.join('.')}`);
+  }
+
+  private toClassInfo(entry: ClassEntry): GodotClassInfo {
+    const info: GodotClassInfo = { id: entry.id, name: entry.name, path: entry.path, line: entry.line, extends: entry.extends };
+    if (entry.parent) info.parent = entry.parent;
+    if (entry.engineBase) info.engineBase = entry.engineBase;
+    return info;
+  }
+
+  private declaresMember(script: ParsedGDScript | undefined, name: string): boolean {
+    return !!script?.ast.root.members.some(member => member.kind !== 'class' && member.name === name);
+  }
+
+  private findClassNameReferences(script: ParsedGDScript, name: string, newName: string): TextEdit[] {
+    // class_name is global: every identifier with that name outside a member access refers to it,
+    // except in a class that declares a member or inner class of that name, or a function with such a
+    // parameter or local
+    const shadowing: { line: number; endLine: number }[] = [];
+    const collectShadowing = (scope: GDScriptClassNode) => {
+      if (scope.members.some(member => member.name === name)) shadowing.push(scope);
+      for (const member of scope.members) {
+        if (member.kind === 'class') {
+          collectShadowing(member);
+        } else if (member.kind === 'func' && (
+          member.parameters.some(parameter => parameter.name === name) || this.declaresLocal(member.body, name)
+        )) {
+          shadowing.push(member);
+        }
+      }
+    };
+    collectShadowing(script.ast.root);
     
+    const { tokens } = script.ast;
+    return tokens
+      .filter((token, index) => {
+        if (token.type !== 'identifier' || token.value !== name) return false;
+        const previous = tokens[index - 1]?.value;
+        if (previous === 'class_name' || previous === 'extends') return true;
+        return previous !== '.' && !shadowing.some(range => token.line >= range.line && token.line <= range.endLine);
+      })
+      .map(token => ({ start: token.start, end: token.end, text: newName }));
+  }
+
+  private findMemberReferences(
+    script: ParsedGDScript,
+    kind: Exclude<GodotSymbolKind, 'class_name'>,
+    name: string,
+    newName: string,
+    inHierarchy: boolean,
+    ambiguous: boolean,
+    skipped: SkippedReference[]
+  ): TextEdit[] {
+    const { tokens, root } = script.ast;
+    const lines = script.source.split('\n');
+    const edits: TextEdit[] = [];
+    const skip = (token: GDScriptToken, reason: string) => {
+      skipped.push({ file: `res://${script.path}`, line: token.line, code: lines[token.line - 1].trim(), reason });
+    };
+    
+    // Inner classes can't see the outer script's members; locals and parameters shadow them
+    const innerClasses = root.members.filter(member => member.kind === 'class');
+    const shadowing = root.members.filter(member => member.kind === 'func' && (
+      member.parameters.some(parameter => parameter.name === name) || this.declaresLocal(member.body, name)
+    ));
+    const within = (ranges: { line: number; endLine: number }[], line: number) =>
+      ranges.some(range => line >= range.line && line <= range.endLine);
+    
+    tokens.forEach((token, index) => {
+      if (token.type === 'identifier' && token.value === name) {
+        const previous = tokens[index - 1];
+        if (previous?.type === 'operator' && previous.value === '.') {
+          const receiver = tokens[index - 2];
+          const isSelf = receiver?.type === 'keyword' && (receiver.value === 'self' || receiver.value === 'super');
+          if (isSelf) {
+            if (inHierarchy) edits.push({ start: token.start, end: token.end, text: newName });
+          } else if (!ambiguous) {
+            edits.push({ start: token.start, end: token.end, text: newName });
+          } else {
+            skip(token, 'Member access on an object whose class is not known');
+          }
+          return;
+        }
+        
+        if (!inHierarchy || within(innerClasses, token.line)) return;
+        if (within(shadowing, token.line)) {
+          skip(token, `Shadowed by a local variable or parameter named ${name}`);
+          return;
+        }
+        edits.push({ start: token.start, end: token.end, text: newName });
+        return;
+      }
+      
+      if ((token.type === 'string' || token.type === 'stringName') && token.value === name) {
+        const reference = this.findStringReference(tokens, index);
+        if (!reference || STRING_REFERENCE_CALLS[kind][reference.call] !== reference.argument) return;
+        
+        const raw = script.source.slice(token.start, token.end);
+        const edit = { start: token.start, end: token.end, text: raw.replace(name, newName) };
+        if (reference.onSelf) {
+          if (inHierarchy) edits.push(edit);
+        } else if (!ambiguous) {
+          edits.push(edit);
+        } else {
+          skip(token, 'String reference on an object whose class is not known');
+        }
+      }
+    });
+    
+    return edits;
+  }
+
+  private declaresLocal(body: GDScriptStatement[], name: string): boolean {
+    let found = false;
+    walkStatements(body, statement => {
+      // Parse: var name ..., const name ..., for name in ...
+      if (['var', 'const', 'for'].includes(statement.kind) && statement.tokens[1]?.value === name) {
+        found = true;
+      }
+    });
+    return found;
+  }
+
+  private findStringReference(
+    tokens: GDScriptToken[],
+    index: number
+  ): { call: string; argument: number; onSelf: boolean } | undefined {
+    // The string must be a whole argument: call(..., "name", ...)
+    const next = tokens[index + 1];
+    if (next?.value !== ',' && next?.value !== ')') return undefined;
+    
+    let depth = 0;
+    let argument = 0;
+    let open = -1;
+    for (let i = index - 1; i >= 0; i--) {
+      const value = tokens[i].type === 'operator' ? tokens[i].value : '';
+      if (value === ')' || value === ']' || value === '}') {
+        depth++;
+      } else if (value === '(' || value === '[' || value === '{') {
+        if (depth === 0) {
+          open = i;
+          break;
+        }
+        depth--;
+      } else if (value === ',' && depth === 0) {
+        argument++;
+      }
+    }
+    
+    const callee = tokens[open - 1];
+    if (open < 1 || tokens[open].value !== '(' || callee.type !== 'identifier') return undefined;
+    
+    if (OBJECT_ARGUMENT_CALLS.has(callee.value)) {
+      const first = tokens[open + 1];
+      const afterFirst = tokens[open + 2];
+      return {
+        call: callee.value,
+        argument,
+        onSelf: first?.value === 'self' && afterFirst?.value === ',',
+      };
+    }
+    
+    const dot = tokens[open - 2];
+    const receiver = tokens[open - 3];
     return {
-      name,
-      parameters,
-      returnType,
-      visibility,
+      call: callee.value,
+      argument,
+      onSelf: dot?.value !== '.' || receiver?.value === 'self',
     };
   }
 
-  private parseParameters(paramString: string): Array<{ name: string; type?: string; defaultValue?: any }> {
-    if (!paramString.trim()) return [];
+  private async renameInResources(
+    kind: GodotSymbolKind,
+    name: string,
+    newName: string,
+    affected: Set<string>,
+    changes: GodotReferenceChange[],
+    skipped: SkippedReference[]
+  ): Promise<void> {
+    const files = await glob('**/*.{tscn,tres}', {
+      cwd: this.projectPath,
+      ignore: SCRIPT_IGNORE,
+    });
     
-    return paramString.split(',').map(param => {
-      const trimmed = param.trim();
-      const parts = trimmed.split(':');
+    const resources = new Map<string, { source: string; resource: EditableResource; ext: Map<string, string> }>();
+    for (const file of files) {
+      const relativePath = file.split(path.sep).join('/');
+      const source = await this.fileWriter.readFile(path.join(this.projectPath, file));
+      const resource = editResource(source);
       
-      if (parts.length === 1) {
-        // No type specified
-        const nameAndDefault = parts[0].split('=');
-        return {
-          name: nameAndDefault[0].trim(),
-          defaultValue: nameAndDefault[1]?.trim(),
-        };
+      const ext = new Map<string, string>();
+      for (const block of findBlocks(resource, 'ext_resource')) {
+        const { id, path: resPath } = block.section!.attributes;
+        if (id && resPath) ext.set(String(toPlainValue(id)), String(toPlainValue(resPath)).replace(/^res:\/\//, ''));
+      }
+      resources.set(relativePath, { source, resource, ext });
+    }
+    
+    // The script of a scene's root node, following instanced and inherited scenes
+    const rootScripts = new Map<string, string | undefined>();
+    const getRootScript = (scenePath: string, seen: Set<string> = new Set()): string | undefined => {
+      if (rootScripts.has(scenePath)) return rootScripts.get(scenePath);
+      const entry = resources.get(scenePath);
+      if (!entry || seen.has(scenePath)) return undefined;
+      seen.add(scenePath);
+      const root = findBlocks(entry.resource, 'node').find(block => !block.section!.attributes.parent);
+      const script = root ? getScript(root.section!, entry.ext, seen) : undefined;
+      rootScripts.set(scenePath, script);
+      return script;
+    };
+    const getScript = (section: ResourceSection, ext: Map<string, string>, seen?: Set<string>): string | undefined => {
+      const scriptProperty = section.properties.find(property => property.key === 'script');
+      const scriptId = getResourceReferenceId(scriptProperty?.value, 'ExtResource');
+      if (scriptId) return ext.get(scriptId);
+      const instanceId = getResourceReferenceId(section.attributes.instance, 'ExtResource');
+      const instance = instanceId ? ext.get(instanceId) : undefined;
+      return instance ? getRootScript(instance, seen) : undefined;
+    };
+    
+    for (const [file, { source, resource, ext }] of [...resources].sort(([a], [b]) => a.localeCompare(b))) {
+      const lines: number[] = [];
+      
+      if (kind === 'class_name') {
+        // Parse: [gd_resource type="Resource" script_class="Item" load_steps=2 format=3]
+        const header = findBlocks(resource, 'gd_resource')[0];
+        const attributes = header?.section!.attributes;
+        if (attributes?.script_class && toPlainValue(attributes.script_class) === name) {
+          setBlockAttributes(header, { ...attributes, script_class: { kind: 'string', value: newName } });
+          lines.push(header.section!.line);
+        }
+      } else if (kind === 'property') {
+        // Exported property values stored on nodes and on resources that use the script
+        const blocks = resource.blocks.filter(block => ['node', 'sub_resource', 'resource'].includes(block.section?.tag || ''));
+        for (const block of blocks) {
+          const section = block.section!;
+          const script = getScript(section, ext);
+          const property = section.properties.find(p => p.key === name);
+          if (!property || !script || !affected.has(script)) continue;
+          
+          if (section.properties.some(p => p.key === newName)) {
+            skipped.push({ file: `res://${file}`, line: property.line, code: property.raw.trim(), reason: `The section already sets ${newName}` });
+            continue;
+          }
+          renameBlockProperty(block, name, newName);
+          lines.push(property.line);
+        }
       } else {
-        // Type specified
-        const name = parts[0].trim();
-        const typeAndDefault = parts[1].split('=');
-        return {
-          name,
-          type: typeAndDefault[0].trim(),
-          defaultValue: typeAndDefault[1]?.trim(),
-        };
+        // [connection] entries name the signal of the "from" node and the method of the "to" node
+        const nodeScripts = new Map<string, string | undefined>();
+        for (const block of findBlocks(resource, 'node')) {
+          nodeScripts.set(this.getSceneNodePath(block), getScript(block.section!, ext));
+        }
+        
+        for (const block of findBlocks(resource, 'connection')) {
+          const attributes = block.section!.attributes;
+          const plain = (key: string) => attributes[key] ? String(toPlainValue(attributes[key])) : undefined;
+          const attribute = kind === 'signal' ? 'signal' : 'method';
+          const node = kind === 'signal' ? plain('from') : plain('to');
+          const script = node !== undefined ? nodeScripts.get(node) : undefined;
+          
+          if (plain(attribute) === name && script && affected.has(script)) {
+            setBlockAttributes(block, { ...attributes, [attribute]: { kind: 'string', value: newName } });
+            lines.push(block.section!.line);
+          }
+        }
       }
+      
+      if (lines.length === 0) continue;
+      const updated = renderResource(resource);
+      this.recordLineChanges(file, source, updated, lines, changes);
+      await this.fileWriter.writeFile(path.join(this.projectPath, file), updated);
+    }
+  }
+
+  private getSceneNodePath(block: ResourceBlock): string {
+    // Connection paths are relative to the scene root: ".", "Child", "Child/Grandchild"
+    const { name, parent } = block.section!.attributes;
+    if (!parent) return '.';
+    const parentPath = String(toPlainValue(parent));
+    const nodeName = String(toPlainValue(name));
+    return parentPath === '.' ? nodeName : `${parentPath}/${nodeName}`;
+  }
+
+  private async findCSharpMentions(name: string): Promise<string[]> {
+    const files = await glob('**/*.cs', {
+      cwd: this.projectPath,
+      ignore: SCRIPT_IGNORE,
     });
+    
+    const mentions: string[] = [];
+    const pattern = new RegExp(`\\b${name}\\b`);
+    for (const file of files.sort()) {
+      if (pattern.test(await fs.readFile(path.join(this.projectPath, file), 'utf-8'))) {
+        mentions.push(`res://${file.split(path.sep).join('/')}`);
+      }
+    }
+    return mentions;
+  }
+
+  private applyTextEdits(source: string, edits: TextEdit[]): string {
+    let result = source;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+      result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+  }
+
+  private lineAt(source: string, offset: number): number {
+    return source.slice(0, offset).split('\n').length;
+  }
+
+  private recordLineChanges(
+    file: string,
+    before: string,
+    after: string,
+    lines: number[],
+    changes: GodotReferenceChange[]
+  ): void {
+    // Renames never add or remove lines, so line numbers match before and after
+    const beforeLines = before.split('\n');
+    const afterLines = after.split('\n');
+    for (const line of [...new Set(lines)].sort((a, b) => a - b)) {
+      changes.push({ file: `res://${file}`, line, before: beforeLines[line - 1], after: afterLines[line - 1] });
+    }
   }
 
   private getScriptTemplate(templateType: string, className: string, extendsClass: string): string {
@@ -3,34 +3,191 @@ export interface GodotProject {
   description: string;
   version: string;
   features: string[];
+  engineVersion?: string;
+  configVersion?: number;
   mainScene: string;
   icon: string;
   autoloads: Record<string, string>;
+  autoloadDetails: GodotAutoload[];
+  inputActions: GodotInputAction[];
+  display: GodotDisplaySettings;
+  rendering: GodotRenderingSettings;
+  physics: GodotPhysicsSettings;
+  layerNames: Record<string, Record<number, string>>;
+  editorPlugins: string[];
+  settings: Record<string, Record<string, any>>;
   path: string;
 }
 
+export interface GodotAutoload {
+  name: string;
+  path: string;
+  singleton: boolean;
+}
+
+export interface GodotInputAction {
+  name: string;
+  deadzone: number;
+  events: GodotInputEvent[];
+}
+
+export interface GodotInputEvent {
+  type: string;
+  device?: number;
+  keycode?: number;
+  physicalKeycode?: number;
+  keyLabel?: number;
+  unicode?: number;
+  buttonIndex?: number;
+  axis?: number;
+  axisValue?: number;
+  modifiers?: string[];
+}
+
+export interface GodotInputEventSpec {
+  // InputEventKey, InputEventMouseButton, ... or key, mouse_button, joypad_button, joypad_motion
+  type: string;
+  // Key name ("Space", "W", "Escape", "F1") or Key code; matched by physical position unless physical is false
+  key?: string | number;
+  physical?: boolean;
+  // Mouse or joypad button name ("left", "a", "start") or index
+  button?: string | number;
+  // Joypad axis name ("left_x", "trigger_right") or index
+  axis?: string | number;
+  axisValue?: number;
+  modifiers?: string[];
+  device?: number;
+}
+
+export interface GodotInputUsage {
+  action?: string;
+  file: string;
+  line: number;
+  code: string;
+}
+
+export interface GodotDisplaySettings {
+  viewportWidth: number;
+  viewportHeight: number;
+  windowWidthOverride?: number;
+  windowHeightOverride?: number;
+  windowMode?: number;
+  stretchMode?: string;
+  stretchAspect?: string;
+  vsyncMode?: number;
+}
+
+export interface GodotRenderingSettings {
+  renderingMethod: 'forward_plus' | 'mobile' | 'gl_compatibility';
+  renderingMethodMobile?: string;
+}
+
+export interface GodotPhysicsSettings {
+  ticksPerSecond: number;
+  maxStepsPerFrame?: number;
+  gravity2d: number;
+  gravity3d: number;
+  physicsEngine2d?: string;
+  physicsEngine3d?: string;
+}
+
 export interface GodotScene {
   name: string;
   path: string;
   rootNode: string;
   nodes: GodotNode[];
+  format?: number;
+  uid?: string;
+  loadSteps?: number;
+  extResources: GodotExtResource[];
+  subResources: GodotSubResource[];
+  connections: GodotConnection[];
+  instancedScenes: GodotSceneInstance[];
+  groups: Record<string, string[]>;
+  editableInstances: string[];
 }
 
 export interface GodotNode {
   name: string;
   type: string;
   parent?: string;
+  path: string;
+  depth: number;
+  instance?: string;
+  groups?: string[];
+  script?: string;
+  scriptClass?: string;
   properties: Record<string, any>;
   children: GodotNode[];
 }
 
+export interface GodotExtResource {
+  id: string;
+  type: string;
+  path: string;
+  uid?: string;
+  resolvedPath?: string;
+  uidStatus?: 'resolved' | 'mismatch' | 'unknown';
+}
+
+export interface GodotNodeSpec {
+  name: string;
+  type?: string;
+  instance?: string;
+  script?: string;
+  groups?: string[];
+  properties?: Record<string, any>;
+  children?: GodotNodeSpec[];
+}
+
+export interface GodotSubResource {
+  id: string;
+  type: string;
+  properties: Record<string, any>;
+}
+
+export interface GodotConnection {
+  signal: string;
+  from: string;
+  to: string;
+  method: string;
+  flags?: number;
+  binds?: any[];
+  unbinds?: number;
+}
+
+export interface GodotSceneInstance {
+  node: string;
+  scene: string;
+}
+
 export interface GodotScript {
   path: string;
+  language: 'gdscript' | 'csharp';
   className?: string;
+  namespace?: string;
+  extends?: string;
+  tool?: boolean;
+  icon?: string;
+  description?: string;
+  methods: GodotMethod[];
+  properties: GodotProperty[];
+  signals: GodotSignal[];
+  enums: GodotEnum[];
+  innerClasses: GodotInnerClass[];
+}
+
+export interface GodotInnerClass {
+  name: string;
   extends?: string;
+  description?: string;
+  line: number;
+  endLine: number;
   methods: GodotMethod[];
   properties: GodotProperty[];
   signals: GodotSignal[];
+  enums: GodotEnum[];
+  innerClasses: GodotInnerClass[];
 }
 
 export interface GodotMethod {
@@ -38,6 +195,18 @@ export interface GodotMethod {
   parameters: GodotParameter[];
   returnType?: string;
   visibility: 'public' | 'private' | 'protected';
+  static?: boolean;
+  annotations?: string[];
+  lambdas?: GodotLambda[];
+  description?: string;
+  line?: number;
+  endLine?: number;
+}
+
+export interface GodotLambda {
+  name?: string;
+  parameters: GodotParameter[];
+  line: number;
 }
 
 export interface GodotParameter {
@@ -51,11 +220,133 @@ export interface GodotProperty {
   type?: string;
   value?: any;
   exported: boolean;
+  constant?: boolean;
+  onready?: boolean;
+  static?: boolean;
+  annotations?: string[];
+  setter?: string;
+  getter?: string;
+  description?: string;
+  line?: number;
+  endLine?: number;
 }
 
 export interface GodotSignal {
   name: string;
   parameters: GodotParameter[];
+  description?: string;
+  line?: number;
+}
+
+export interface GodotEnum {
+  name?: string;
+  values: { name: string; value?: string }[];
+  description?: string;
+  line?: number;
+  endLine?: number;
+}
+
+export interface GodotUidEntry {
+  uid: string;
+  path: string;
+  source: 'scene' | 'resource' | 'import' | 'uid_file';
+}
+
+export interface GodotUidReference {
+  uid: string;
+  path?: string;
+  referencedBy: string;
+}
+
+export type GodotDependencyKind = 'ext_resource' | 'preload' | 'load' | 'extends' | 'include' | 'autoload' | 'main_scene';
+
+export interface GodotDependency {
+  from: string;
+  to: string;
+  kind: GodotDependencyKind;
+  line?: number;
+  missing?: boolean;
+}
+
+export interface GodotDependencyEntry {
+  path: string;
+  depth: number;
+  // The file one step closer to the queried file
+  via: string;
+  kind: GodotDependencyKind;
+  line?: number;
+  missing?: boolean;
+}
+
+export type GodotAssetType = 'image' | 'audio' | 'scene' | 'script' | 'resource' | 'shader' | 'font' | 'model';
+
+export interface GodotUnusedAsset {
+  path: string;
+  type: GodotAssetType;
+  size: number;
+}
+
+export interface GodotImportInfo {
+  path: string;
+  importFile: string;
+  importer?: string;
+  type?: string;
+  uid?: string;
+  valid: boolean;
+  importedPaths: string[];
+  sourceFile?: string;
+  destFiles: string[];
+  params: Record<string, any>;
+  metadata?: Record<string, any>;
+}
+
+export interface GodotReferenceChange {
+  file: string;
+  line: number;
+  before: string;
+  after: string;
+}
+
+export type GodotSymbolKind = 'class_name' | 'method' | 'signal' | 'property';
+
+export interface GodotNodeReference {
+  // As written: "HUD/Label", "%Health", "../Player"
+  path: string;
+  // The script the reference is written in, which may be a base of the attached script
+  script: string;
+  line: number;
+  code: string;
+  onready: boolean;
+}
+
+export interface GodotClassInfo {
+  // res://path.gd, or res://path.gd::Inner.Nested for inner classes
+  id: string;
+  // The name code refers to it by: the class_name, or Outer.Inner for inner classes of a named script
+  name?: string;
+  path: string;
+  line: number;
+  // As written after extends
+  extends?: string;
+  // id of the project class it extends; classes extending an engine class have engineBase instead
+  parent?: string;
+  engineBase?: string;
+}
+
+export interface GodotConnectionIssue {
+  scene: string;
+  // Line of the [connection] entry
+  line: number;
+  connection: GodotConnection;
+  message: string;
+}
+
+export interface GodotSignalConnect {
+  // A connect("name", ...) call that names its signal in a string
+  signal: string;
+  script: string;
+  line: number;
+  code: string;
 }
 
 export interface McpToolRequest {
@@ -98,6 +389,7 @@ export interface DiagnosticResult {
     sceneErrors: any;
     dependencyIssues: any;
     performanceIssues: any;
+    signalConnections: any;
   };
   recommendations: string[];
   priorityFixes: string[];